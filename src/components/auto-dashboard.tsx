@@ -24,27 +24,36 @@ import {
   AreaChart
 } from "recharts"
 import { TrendingUp, BarChart3, PieChart as PieChartIcon, Activity, Sparkles, Download, RefreshCw, Wand2 } from "lucide-react"
-
-interface ChartConfig {
-  id: string
-  type: 'line' | 'bar' | 'scatter' | 'pie' | 'area'
-  title: string
-  description: string
-  data: any[]
-  xKey: string
-  yKey?: string
-  colorKey?: string
-  insights?: string[]
-}
+import type { ChartConfig } from "@/lib/auto-charts"
+import { addPeriods, formatDateLabel } from "@/lib/date-parsing"
+import { PiiPolicies, redactChart } from "@/lib/pii"
 
 interface AutoDashboardProps {
   charts: ChartConfig[]
   isGenerating?: boolean
   onRegenerateCharts?: () => void
   onExportDashboard?: () => void // This prop is now used internally
+  // Personal data policies; charts are shown, and so exported, with them applied
+  privacy?: PiiPolicies
 }
 
 const COLORS = ['#2563eb', '#10b981', '#f59e0b', '#8b5cf6', '#ef4444', '#06b6d4', '#84cc16', '#f97316']
+const OUTLIER_COLOR = '#ef4444'
+
+// Readable x value for charts whose x axis holds timestamps
+const formatX = (chart: ChartConfig, value: unknown): string =>
+  chart.timeAxis ? formatDateLabel(Number(value), chart.timeAxis.frequency) : String(value);
+
+// XAxis props for a continuous time axis, so gaps in the data show as gaps
+const xAxisProps = (chart: ChartConfig) =>
+  chart.timeAxis
+    ? {
+        type: 'number' as const,
+        scale: 'time' as const,
+        domain: ['dataMin', 'dataMax'],
+        tickFormatter: (value: number) => formatX(chart, value)
+      }
+    : {};
 
 // Generate dynamic insights based on chart data
 const generateChartInsights = (chart: ChartConfig): string[] => {
@@ -85,7 +94,7 @@ const generateChartInsights = (chart: ChartConfig): string[] => {
       
       // Peak identification
       const maxIndex = values.indexOf(maxValue);
-      const maxLabel = actualData[maxIndex][chart.xKey];
+      const maxLabel = formatX(chart, actualData[maxIndex][chart.xKey]);
       insights.push(`🔝 Peak value of ${maxValue.toLocaleString()} reached at ${maxLabel}`);
       
       // Average comparison
@@ -229,11 +238,14 @@ const generateChartInsights = (chart: ChartConfig): string[] => {
   return insights.slice(0, 5); // Limit to top 5 insights
 };
 
-export function AutoDashboard({ charts, isGenerating, onRegenerateCharts }: AutoDashboardProps) {
+export function AutoDashboard({ charts, isGenerating, onRegenerateCharts, privacy = {} }: AutoDashboardProps) {
   // --- FIX STARTS HERE ---
   const [isExporting, setIsExporting] = useState(false);
   const [forecastingChartId, setForecastingChartId] = useState<string | null>(null);
   const dashboardRef = useRef<HTMLDivElement>(null);
+  // What the dashboard draws; forecasts still work on the charts as given. Not memoized:
+  // a forecast updates its chart in place.
+  const shownCharts = charts.map(chart => redactChart(chart, privacy));
 
   // Generate forecast data for a chart
   const handleForecast = async (chart: ChartConfig) => {
@@ -290,7 +302,10 @@ export function AutoDashboard({ charts, isGenerating, onRegenerateCharts }: Auto
       const extendedData = [...historicalData];
       forecastValues.forEach((value, index) => {
         let forecastLabel;
-        if (typeof lastXValue === 'number') {
+        if (chart.timeAxis) {
+          // Step forward by whole calendar periods on a real time axis
+          forecastLabel = addPeriods(Number(lastXValue), chart.timeAxis.frequency, index + 1);
+        } else if (typeof lastXValue === 'number') {
           forecastLabel = lastXValue + index + 1;
         } else if (typeof lastXValue === 'string') {
           // Try to extract and increment numbers from strings
@@ -414,7 +429,7 @@ export function AutoDashboard({ charts, isGenerating, onRegenerateCharts }: Auto
           <ResponsiveContainer {...commonProps}>
             <LineChart data={chart.data}>
               <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
-              <XAxis dataKey={chart.xKey} />
+              <XAxis dataKey={chart.xKey} {...xAxisProps(chart)} />
               <YAxis />
               <Tooltip 
                 contentStyle={{ 
@@ -422,6 +437,7 @@ export function AutoDashboard({ charts, isGenerating, onRegenerateCharts }: Auto
                   border: '1px solid hsl(var(--border))',
                   borderRadius: '8px'
                 }} 
+                labelFormatter={(label) => formatX(chart, label)}
                 formatter={(value: any, name: string, props: any) => {
                   const isForecast = props.payload.isForecast;
                   return [value, isForecast ? '🔮 Forecast' : '📊 Actual'];
@@ -444,12 +460,13 @@ export function AutoDashboard({ charts, isGenerating, onRegenerateCharts }: Auto
                 connectNulls
                 dot={(props) => {
                   if (props.payload.isForecast) return null;
+                  const isOutlier = props.payload.isOutlier;
                   return (
                     <circle
                       cx={props.cx}
                       cy={props.cy}
-                      r={5}
-                      fill="#2563eb"
+                      r={isOutlier ? 7 : 5}
+                      fill={isOutlier ? OUTLIER_COLOR : "#2563eb"}
                       stroke="#fff"
                       strokeWidth={2}
                     />
@@ -515,7 +532,7 @@ export function AutoDashboard({ charts, isGenerating, onRegenerateCharts }: Auto
           <ResponsiveContainer {...commonProps}>
             <AreaChart data={chart.data}>
               <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
-              <XAxis dataKey={chart.xKey} />
+              <XAxis dataKey={chart.xKey} {...xAxisProps(chart)} />
               <YAxis />
               <Tooltip 
                 contentStyle={{ 
@@ -523,6 +540,7 @@ export function AutoDashboard({ charts, isGenerating, onRegenerateCharts }: Auto
                   border: '1px solid hsl(var(--border))',
                   borderRadius: '8px'
                 }} 
+                labelFormatter={(label) => formatX(chart, label)}
                 formatter={(value: any, name: string, props: any) => {
                   const isForecast = props.payload.isForecast;
                   return [value, isForecast ? '🔮 Forecast' : '📊 Actual'];
@@ -562,6 +580,34 @@ export function AutoDashboard({ charts, isGenerating, onRegenerateCharts }: Auto
         )
 
       case 'bar':
+        if (chart.series) {
+          return (
+            <ResponsiveContainer {...commonProps}>
+              <BarChart data={chart.data}>
+                <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+                <XAxis dataKey={chart.xKey} />
+                <YAxis />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: 'hsl(var(--card))',
+                    border: '1px solid hsl(var(--border))',
+                    borderRadius: '8px'
+                  }}
+                />
+                <Legend />
+                {chart.series.map((key, index) => (
+                  <Bar
+                    key={key}
+                    dataKey={key}
+                    fill={COLORS[index % COLORS.length]}
+                    stackId={chart.stacked ? 'stack' : undefined}
+                    radius={chart.stacked ? 0 : 4}
+                  />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+          );
+        }
         return (
           <ResponsiveContainer {...commonProps}>
             <BarChart data={chart.data}>
@@ -607,7 +653,11 @@ export function AutoDashboard({ charts, isGenerating, onRegenerateCharts }: Auto
                   borderRadius: '8px'
                 }} 
               />
-              <Scatter fill="hsl(var(--primary))" />
+              <Scatter fill="hsl(var(--primary))">
+                {chart.data.map((point, index) => (
+                  <Cell key={`cell-${index}`} fill={point.isOutlier ? OUTLIER_COLOR : 'hsl(var(--primary))'} />
+                ))}
+              </Scatter>
             </ScatterChart>
           </ResponsiveContainer>
         )
@@ -702,7 +752,7 @@ export function AutoDashboard({ charts, isGenerating, onRegenerateCharts }: Auto
 
       {/* --- FIX: Attach the ref to the dashboard grid --- */}
       <div ref={dashboardRef} className="grid grid-cols-1 lg:grid-cols-2 gap-6 bg-background p-4">
-        {charts.map((chart) => (
+        {shownCharts.map((chart, index) => (
           <Card key={chart.id} className="overflow-hidden">
             <CardHeader>
               <div className="flex items-center justify-between">
@@ -715,12 +765,12 @@ export function AutoDashboard({ charts, isGenerating, onRegenerateCharts }: Auto
                     </Badge>
                   )}
                 </div>
-                {(chart.type === 'line' || chart.type === 'bar' || chart.type === 'area') && (
+                {(chart.type === 'line' || chart.type === 'bar' || chart.type === 'area') && !chart.series && (
                   <Button
                     variant="ghost"
                     size="sm"
                     className="h-8 gap-1 px-2"
-                    onClick={() => handleForecast(chart)}
+                    onClick={() => handleForecast(charts[index])}
                     disabled={forecastingChartId === chart.id}
                     title="Generate AI-powered forecast based on historical trends"
                   >
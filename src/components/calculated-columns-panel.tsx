@@ -0,0 +1,219 @@
+import { useMemo, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { AlertCircle, ChevronDown, Pencil, Plus, Sigma, Trash2 } from "lucide-react"
+import { Dataset, cellValue } from "@/lib/dataset"
+import { CalculatedColumn, FORMULA_FUNCTIONS, FormulaError, FormulaValue, formulaColumns, previewFormula } from "@/lib/formula"
+
+interface CalculatedColumnsPanelProps {
+  dataset: Dataset
+  formulas: CalculatedColumn[]
+  // Adds the column, or recomputes it when a formula with the same name exists
+  onSave: (formula: CalculatedColumn) => void
+  onRemove: (name: string) => void
+}
+
+const PREVIEW_ROWS = 8
+
+const display = (value: FormulaValue | undefined) =>
+  value === null || value === undefined ? '—'
+    : value instanceof Date ? value.toISOString().replace('T00:00:00.000Z', '')
+    : String(value)
+
+type Check =
+  | { status: 'empty' }
+  | { status: 'error'; message: string; position?: number }
+  | { status: 'ok'; values: FormulaValue[]; inputs: string[] }
+
+export function CalculatedColumnsPanel({ dataset, formulas, onSave, onRemove }: CalculatedColumnsPanelProps) {
+  const [name, setName] = useState('')
+  const [expression, setExpression] = useState('')
+  // Name of the formula being edited; its name stays fixed
+  const [editing, setEditing] = useState<string | null>(null)
+
+  const trimmedName = name.trim()
+  const check = useMemo((): Check => {
+    if (!expression.trim()) return { status: 'empty' }
+    const inputs = formulaColumns(expression)
+    if (trimmedName && inputs.includes(trimmedName)) {
+      return { status: 'error', message: 'A calculated column cannot refer to itself' }
+    }
+    try {
+      return { status: 'ok', values: previewFormula(expression, dataset, PREVIEW_ROWS), inputs }
+    } catch (error) {
+      if (error instanceof FormulaError) return { status: 'error', message: error.message, position: error.position }
+      return { status: 'error', message: error instanceof Error ? error.message : String(error) }
+    }
+  }, [expression, trimmedName, dataset])
+
+  const nameError = !trimmedName ? null
+    : editing === null && dataset.column(trimmedName) ? `"${trimmedName}" is already a column`
+    : null
+  const canSave = check.status === 'ok' && trimmedName !== '' && !nameError
+
+  const reset = () => {
+    setName('')
+    setExpression('')
+    setEditing(null)
+  }
+
+  const save = () => {
+    if (!canSave) return
+    onSave({ name: trimmedName, expression: expression.trim() })
+    reset()
+  }
+
+  const edit = (formula: CalculatedColumn) => {
+    setEditing(formula.name)
+    setName(formula.name)
+    setExpression(formula.expression)
+  }
+
+  // Columns other formulas read cannot be removed without breaking them
+  const dependents = (target: string) =>
+    formulas.filter(formula => formula.name !== target && formulaColumns(formula.expression).includes(target)).map(formula => formula.name)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Sigma className="h-5 w-5" />
+          Calculated Columns
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Derive new columns with a formula, e.g. <code className="font-mono">revenue - cost</code>,{' '}
+          <code className="font-mono">year([Order Date])</code> or <code className="font-mono">bucket(age, 10)</code>.
+          Names with spaces go in square brackets. Calculated columns are profiled, charted and sent to chat like any other column.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {formulas.length > 0 && (
+          <div className="space-y-2">
+            {formulas.map(formula => {
+              const usedBy = dependents(formula.name)
+              return (
+                <div key={formula.name} className="flex items-center gap-2 rounded-md border p-2 text-sm">
+                  <Badge variant="secondary">{formula.name}</Badge>
+                  <code className="flex-1 font-mono text-xs truncate" title={formula.expression}>= {formula.expression}</code>
+                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => edit(formula)} aria-label={`Edit ${formula.name}`}>
+                    <Pencil className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    disabled={usedBy.length > 0}
+                    title={usedBy.length > 0 ? `Used by ${usedBy.join(', ')}` : undefined}
+                    onClick={() => onRemove(formula.name)}
+                    aria-label={`Remove ${formula.name}`}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              )
+            })}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-[12rem_1fr] gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="formula-name">Column name</Label>
+            <Input id="formula-name" value={name} disabled={editing !== null} onChange={event => setName(event.target.value)} placeholder="margin" />
+            {nameError && <p className="text-xs text-destructive">{nameError}</p>}
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="formula-expression">Formula</Label>
+            <Textarea
+              id="formula-expression"
+              value={expression}
+              onChange={event => setExpression(event.target.value)}
+              placeholder='if(revenue > 1000, "large", "small")'
+              className="font-mono min-h-[60px]"
+              spellCheck={false}
+            />
+          </div>
+        </div>
+
+        {check.status === 'error' && (
+          <div className="rounded-md border border-destructive/50 p-3 text-sm space-y-2">
+            <div className="flex items-center gap-2 text-destructive">
+              <AlertCircle className="h-4 w-4" />
+              {check.message}
+            </div>
+            {check.position !== undefined && (
+              <pre className="font-mono text-xs overflow-x-auto">{expression}{'\n'}{' '.repeat(check.position)}^</pre>
+            )}
+          </div>
+        )}
+
+        {check.status === 'ok' && (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {check.inputs.map(input => <TableHead key={input}>{input}</TableHead>)}
+                  <TableHead className="text-primary">{trimmedName || 'result'}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {check.values.map((value, row) => (
+                  <TableRow key={row}>
+                    {check.inputs.map(input => {
+                      const column = dataset.column(input)
+                      return <TableCell key={input} className="text-muted-foreground">{display(column ? cellValue(column, row) : null)}</TableCell>
+                    })}
+                    <TableCell className="font-medium">{display(value)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        <div className="flex items-center gap-2">
+          <Button onClick={save} disabled={!canSave}>
+            <Plus className="h-4 w-4 mr-2" />
+            {editing !== null ? 'Update column' : 'Add column'}
+          </Button>
+          {(editing !== null || expression || name) && (
+            <Button variant="ghost" onClick={reset}>Cancel</Button>
+          )}
+        </div>
+
+        <Collapsible>
+          <CollapsibleTrigger asChild>
+            <Button variant="link" size="sm" className="px-0">
+              <ChevronDown className="h-4 w-4 mr-1" />
+              Functions and operators
+            </Button>
+          </CollapsibleTrigger>
+          <CollapsibleContent className="space-y-3 text-sm">
+            <p className="text-muted-foreground">
+              Operators: <code className="font-mono">+ - * / % ^</code>, <code className="font-mono">&</code> joins text,
+              comparisons <code className="font-mono">= != &lt; &lt;= &gt; &gt;=</code> and <code className="font-mono">and or not</code>.
+              Subtracting dates gives days; adding a number to a date moves it by that many days.
+              Missing values stay missing unless handled with <code className="font-mono">coalesce</code> or <code className="font-mono">isnull</code>.
+            </p>
+            {(['Logic', 'Math', 'Text', 'Date'] as const).map(category => (
+              <div key={category} className="space-y-1">
+                <h4 className="font-medium">{category}</h4>
+                {FORMULA_FUNCTIONS.filter(fn => fn.category === category).map(fn => (
+                  <div key={fn.name} className="flex gap-3">
+                    <code className="font-mono text-xs w-64 flex-shrink-0">{fn.signature}</code>
+                    <span className="text-muted-foreground">{fn.description}</span>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </CollapsibleContent>
+        </Collapsible>
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,30 +1,27 @@
-import { useState, useRef, useEffect } from "react"
+import { useState, useRef, useEffect, useMemo } from "react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Badge } from "@/components/ui/badge"
 import { ScrollArea } from "@/components/ui/scroll-area"
 import { Separator } from "@/components/ui/separator"
-import { MessageCircle, Send, Bot, User, Brain, TrendingUp, Sparkles, X } from "lucide-react"
+import { MessageCircle, Send, Bot, User, Brain, TrendingUp, Sparkles, X, ShieldCheck } from "lucide-react"
 
-// Add ChartConfig type for chart updates
-export interface ChartConfig {
-  id: string
-  type: 'line' | 'bar' | 'scatter' | 'pie' | 'area'
-  title: string
-  description: string
-  data: any[]
-  xKey: string
-  yKey?: string
-  colorKey?: string
-  insights?: string[]
-}
+import { ChartConfig, aggregateChart } from "@/lib/auto-charts"
+import { ColumnSummary, parseAggregateQuery, summarizeColumns } from "@/lib/aggregation"
+import { Dataset } from "@/lib/dataset"
+import { ColumnInfo } from "@/lib/profiling"
+import { PiiPolicies, Redaction, describeRedactions, redactRows, redactValue } from "@/lib/pii"
+
+export type { ChartConfig }
 
 interface Message {
   id: string
   type: 'user' | 'assistant'
   content: string
   timestamp: Date
+  // What was masked, hashed or left out of the data sent with this message
+  redactions?: Redaction[]
 }
 
 interface ChatInterfaceProps {
@@ -35,8 +32,30 @@ interface ChatInterfaceProps {
   setCharts?: (charts: ChartConfig[]) => void
   onChartsUpdate?: (charts: ChartConfig[]) => void
   onTempCharts?: (charts: ChartConfig[], title?: string) => void
+  // Applied to every row before it is put into a prompt
+  privacy?: PiiPolicies
+  // Charts the model asks for are computed from the whole dataset
+  dataset?: Dataset
+  columns?: ColumnInfo[]
 }
 
+// Rows pasted into the prompt as a sample
+const PROMPT_SAMPLE_ROWS = 50
+
+// Charts come back with an aggregate query; the data is filled in from the full dataset
+type ChatChart = ChartConfig & { aggregate?: unknown }
+
+// Columns under a privacy policy keep only their row count and redacted frequent values
+const redactSummaries = (summaries: ColumnSummary[], privacy: PiiPolicies): ColumnSummary[] =>
+  summaries
+    .filter(summary => privacy[summary.name] !== 'drop')
+    .map(summary => {
+      const policy = privacy[summary.name]
+      if (!policy) return summary
+      const { name, type, count, top } = summary
+      return { name, type, count, top: top?.map(entry => ({ ...entry, value: redactValue(entry.value, policy) })) }
+    })
+
 // Function to generate dynamic queries based on data
 const generateDynamicQueries = (data: any[]): string[] => {
   if (!data || data.length === 0) return [
@@ -94,7 +113,7 @@ const generateDynamicQueries = (data: any[]): string[] => {
   return queries.slice(0, 5) // Return max 5 queries
 }
 
-export function ChatInterface({ data, onQuery, isConnected = false, charts, setCharts, onChartsUpdate, onTempCharts }: ChatInterfaceProps) {
+export function ChatInterface({ data, onQuery, isConnected = false, charts, setCharts, onChartsUpdate, onTempCharts, privacy = {}, dataset, columns }: ChatInterfaceProps) {
   const [isOpen, setIsOpen] = useState(false)
   const [messages, setMessages] = useState<Message[]>([
     {
@@ -122,9 +141,14 @@ export function ChatInterface({ data, onQuery, isConnected = false, charts, setC
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" })
   }, [messages, isLoading])
 
-  async function queryGemini(query: string, data: any[]): Promise<{ response: string, charts?: ChartConfig[] }> {
-    const sampleRows = data.slice(0, 50)
-    
+  // Whole-dataset figures sent with every question
+  const columnSummaries = useMemo(
+    () => dataset && columns ? summarizeColumns(dataset, columns) : [],
+    [dataset, columns]
+  )
+
+  // sampleRows and summaries must already have the privacy policies applied
+  async function queryGemini(query: string, sampleRows: Record<string, unknown>[], summaries: ColumnSummary[]): Promise<{ response: string, charts?: ChatChart[] }> {
     const promptText = `
 You are an expert data analyst with advanced visualization capabilities. Analyze the user's question and provide an appropriate response.
 
@@ -136,7 +160,13 @@ Your FINAL output MUST be a single, valid JSON object following this structure:
       "type": "line" | "bar" | "area" | "pie" | "scatter",
       "title": "Descriptive Chart Title",
       "description": "Brief description of the chart.",
-      "data": [ ... ],
+      "aggregate": {
+        "groupBy": [{ "column": "column_for_x_axis", "bucket": "monthly" }],
+        "measures": [{ "column": "numeric_column", "aggregation": "sum" }],
+        "sort": { "measure": 0, "descending": true },
+        "limit": 10
+      },
+      "data": [],
       "xKey": "key_for_x_axis",
       "yKey": "key_for_y_axis",
       "colorKey": "key_for_pie_chart_categories",
@@ -173,6 +203,11 @@ CHART GENERATION GUIDELINES:
 - Use SCATTER charts for correlation analysis
 - For line, bar, area, and scatter charts, "yKey" is MANDATORY
 - For pie charts, use "colorKey" for categories and "yKey" for values
+- Charts over the uploaded data MUST have an "aggregate" object and an empty "data" array; the app computes the data over every row
+- "aggregate.groupBy" holds one column for the x axis; "bucket" (hourly, daily, weekly, monthly, quarterly, yearly) only applies to date columns
+- "aggregate.measures" use "aggregation" sum, avg, count, distinct, min, max or median; only count and distinct work on non-numeric columns
+- "sort" ranks by the measure at that index, "limit" keeps the top groups and "other": true sums the rest into an "Other" group
+- Only fill "data" yourself for values that are not in the dataset, such as forecasts
 
 EXAMPLES:
 
@@ -187,8 +222,9 @@ Response:
       "type": "line",
       "title": "Sales Trend Over Time",
       "description": "Line chart showing sales progression",
-      "data": [{"month": "Jan", "sales": 4500}, {"month": "Feb", "sales": 5200}],
-      "xKey": "month",
+      "aggregate": {"groupBy": [{"column": "order_date", "bucket": "monthly"}], "measures": [{"column": "sales", "aggregation": "sum"}]},
+      "data": [],
+      "xKey": "order_date",
       "yKey": "sales",
       "insights": ["Upward trend observed", "Peak in February"]
     },
@@ -197,7 +233,8 @@ Response:
       "type": "bar",
       "title": "Sales by Category",
       "description": "Comparison across categories",
-      "data": [{"category": "Electronics", "sales": 15000}],
+      "aggregate": {"groupBy": [{"column": "category"}], "measures": [{"column": "sales", "aggregation": "sum"}], "sort": {"measure": 0, "descending": true}, "limit": 10},
+      "data": [],
       "xKey": "category",
       "yKey": "sales",
       "insights": ["Electronics leading"]
@@ -232,7 +269,8 @@ Response:
       "type": "line",
       "title": "Trend Analysis",
       "description": "Overall trend pattern",
-      "data": [...],
+      "aggregate": {...},
+      "data": [],
       "xKey": "period",
       "yKey": "value",
       "insights": ["Strong upward momentum"]
@@ -242,7 +280,8 @@ Response:
       "type": "bar",
       "title": "Category Comparison",
       "description": "Performance by category",
-      "data": [...],
+      "aggregate": {...},
+      "data": [],
       "xKey": "category",
       "yKey": "value",
       "insights": ["Top category outperforms"]
@@ -252,7 +291,8 @@ Response:
       "type": "pie",
       "title": "Distribution",
       "description": "Proportion breakdown",
-      "data": [...],
+      "aggregate": {...},
+      "data": [],
       "xKey": "category",
       "yKey": "value",
       "colorKey": "category",
@@ -294,7 +334,10 @@ Response:
 }
 
 ---
-Data sample (first 50 rows): ${JSON.stringify(sampleRows)}
+Dataset: ${dataset?.rowCount ?? sampleRows.length} rows.
+Column summary computed over all rows: ${JSON.stringify(summaries)}
+
+Data sample (first ${PROMPT_SAMPLE_ROWS} rows, for the shape of the values only): ${JSON.stringify(sampleRows)}
 
 User question: "${query}"
 
@@ -303,7 +346,7 @@ INSTRUCTIONS:
 2. Decide if charts would enhance the answer or if text alone is sufficient
 3. If charts are needed, determine the best chart types and generate 1-4 appropriate visualizations
 4. Always provide a clear, detailed text response
-5. Use the actual data provided above to generate accurate charts
+5. Base figures in your answer on the column summary, not the sample, and describe charts with "aggregate" so they cover all rows
 6. Generate the JSON response now.
     `.trim()
 
@@ -349,11 +392,16 @@ INSTRUCTIONS:
   const handleSendMessage = async (content: string) => {
     if (!content.trim() || isLoading) return
 
+    // Personal data is masked, hashed or dropped before anything leaves the browser
+    const sample = data ? redactRows(data.slice(0, PROMPT_SAMPLE_ROWS), privacy) : null
+    const summaries = redactSummaries(columnSummaries, privacy)
+
     const userMessage: Message = {
       id: Date.now().toString(),
       type: 'user',
       content: content.trim(),
-      timestamp: new Date()
+      timestamp: new Date(),
+      redactions: sample?.redactions
     }
 
     setMessages(prev => [...prev, userMessage])
@@ -365,10 +413,15 @@ INSTRUCTIONS:
       let response = ""
       let chartUpdates: ChartConfig[] | undefined
 
-      if (data) {
-        const llmResult = await queryGemini(content, data)
+      if (sample) {
+        const llmResult = await queryGemini(content, sample.rows, summaries)
         response = llmResult.response
-        chartUpdates = llmResult.charts
+        chartUpdates = llmResult.charts?.flatMap(({ aggregate, ...chart }) => {
+          const query = parseAggregateQuery(aggregate)
+          const computed = query && dataset && columns ? aggregateChart(dataset, columns, chart, query) : null
+          // A chart whose query cannot run keeps the data the model supplied, if any
+          return computed ? [computed] : chart.data?.length ? [chart] : []
+        })
       } else if (onQuery) {
         response = await onQuery(content)
       } else {
@@ -564,6 +617,12 @@ INSTRUCTIONS:
                       <div className="text-xs opacity-70 mt-1">
                         {formatTimestamp(message.timestamp)}
                       </div>
+                      {message.redactions && message.redactions.length > 0 && (
+                        <div className="flex items-start gap-1 text-xs opacity-80 mt-1">
+                          <ShieldCheck className="h-3 w-3 mt-0.5 flex-shrink-0" />
+                          <span>Sent with {describeRedactions(message.redactions)}</span>
+                        </div>
+                      )}
                     </div>
 
                     {message.type === 'user' && (
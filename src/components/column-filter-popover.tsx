@@ -0,0 +1,135 @@
+import { useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Slider } from "@/components/ui/slider"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Filter } from "lucide-react"
+import { DatasetColumn } from "@/lib/dataset"
+import { ColumnInfo } from "@/lib/profiling"
+import { ColumnFilter, filterValues } from "@/lib/grid-query"
+
+interface ColumnFilterPopoverProps {
+  column: DatasetColumn
+  info: ColumnInfo
+  rowCount: number
+  filter?: ColumnFilter
+  // Called with null to clear the column's filter
+  onChange: (filter: ColumnFilter | null) => void
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const toDateInput = (time: number | null) => time === null ? '' : new Date(time).toISOString().slice(0, 10)
+
+function RangeFilter({ info, filter, onChange }: Pick<ColumnFilterPopoverProps, 'info' | 'onChange'> & { filter?: Extract<ColumnFilter, { kind: 'range' }> }) {
+  const lower = info.stats?.min
+  const upper = info.stats?.max
+  const [value, setValue] = useState<number[]>([filter?.min ?? lower ?? 0, filter?.max ?? upper ?? 0])
+  if (lower === undefined || upper === undefined || lower === upper) {
+    return <p className="text-sm text-muted-foreground">Not enough distinct values to filter by range.</p>
+  }
+  return (
+    <div className="space-y-3">
+      <Label>{value[0].toLocaleString()} – {value[1].toLocaleString()}</Label>
+      <Slider
+        min={lower}
+        max={upper}
+        step={(upper - lower) / 200}
+        value={value}
+        onValueChange={setValue}
+        // Filtering a large dataset on every drag step would stutter
+        onValueCommit={([min, max]) => onChange(min <= lower && max >= upper ? null : { kind: 'range', column: info.name, min, max })}
+      />
+    </div>
+  )
+}
+
+function ValuesFilter({ column, info, rowCount, filter, onChange }: Omit<ColumnFilterPopoverProps, 'filter'> & { filter?: Extract<ColumnFilter, { kind: 'values' }> }) {
+  const values = useMemo(() => filterValues(column, rowCount), [column, rowCount])
+  const selected = new Set(filter?.values ?? [])
+  const toggle = (value: string) => {
+    const next = selected.has(value) ? [...selected].filter(v => v !== value) : [...selected, value]
+    onChange(next.length === 0 ? null : { kind: 'values', column: info.name, values: next })
+  }
+  return (
+    <div className="max-h-64 overflow-y-auto space-y-1">
+      {values.map(value => (
+        <label key={value} className="flex items-center gap-2 text-sm cursor-pointer">
+          <Checkbox checked={selected.has(value)} onCheckedChange={() => toggle(value)} />
+          <span className="truncate" title={value}>{value}</span>
+        </label>
+      ))}
+    </div>
+  )
+}
+
+function DateRangeFilter({ info, filter, onChange }: Pick<ColumnFilterPopoverProps, 'info' | 'onChange'> & { filter?: Extract<ColumnFilter, { kind: 'date-range' }> }) {
+  const from = filter?.from ?? null
+  const to = filter?.to ?? null
+  const update = (nextFrom: number | null, nextTo: number | null) =>
+    onChange(nextFrom === null && nextTo === null ? null : { kind: 'date-range', column: info.name, from: nextFrom, to: nextTo })
+  const parse = (text: string) => text ? Date.parse(text) : null
+  return (
+    <div className="space-y-2">
+      <div className="space-y-1">
+        <Label>From</Label>
+        <Input type="date" value={toDateInput(from)} onChange={event => update(parse(event.target.value), to)} />
+      </div>
+      <div className="space-y-1">
+        <Label>To</Label>
+        {/* Inclusive: the whole end day counts */}
+        <Input
+          type="date"
+          value={toDateInput(to === null ? null : to - (DAY_MS - 1))}
+          onChange={event => {
+            const day = parse(event.target.value)
+            update(from, day === null ? null : day + DAY_MS - 1)
+          }}
+        />
+      </div>
+    </div>
+  )
+}
+
+export function ColumnFilterPopover({ column, info, rowCount, filter, onChange }: ColumnFilterPopoverProps) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={`h-6 w-6 ${filter ? 'text-primary' : 'text-muted-foreground'}`}
+          aria-label={`Filter ${info.name}`}
+        >
+          <Filter className="h-3 w-3" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 space-y-3" align="start">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium truncate">{info.name}</span>
+          {filter && (
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => onChange(null)}>Clear</Button>
+          )}
+        </div>
+        {info.type === 'numerical' && (
+          <RangeFilter info={info} filter={filter?.kind === 'range' ? filter : undefined} onChange={onChange} />
+        )}
+        {info.type === 'categorical' && (
+          <ValuesFilter column={column} info={info} rowCount={rowCount} filter={filter?.kind === 'values' ? filter : undefined} onChange={onChange} />
+        )}
+        {info.type === 'temporal' && (
+          <DateRangeFilter info={info} filter={filter?.kind === 'date-range' ? filter : undefined} onChange={onChange} />
+        )}
+        {info.type === 'text' && (
+          <Input
+            placeholder="Contains…"
+            defaultValue={filter?.kind === 'contains' ? filter.text : ''}
+            onChange={event => onChange(event.target.value ? { kind: 'contains', column: info.name, text: event.target.value } : null)}
+          />
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,97 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer } from "recharts"
+import { ColumnInfo } from "@/lib/profiling"
+import { NumericStats } from "@/lib/statistics"
+import { formatDateLabel } from "@/lib/date-parsing"
+
+interface ColumnProfileCardProps {
+  column: ColumnInfo
+  color: string
+}
+
+const STAT_ROWS: [keyof NumericStats, string][] = [
+  ['mean', 'Mean'],
+  ['std', 'Std dev'],
+  ['min', 'Min'],
+  ['p1', 'P1'],
+  ['p5', 'P5'],
+  ['q1', 'Q1'],
+  ['median', 'Median'],
+  ['q3', 'Q3'],
+  ['p95', 'P95'],
+  ['p99', 'P99'],
+  ['max', 'Max'],
+  ['iqr', 'IQR'],
+  ['skewness', 'Skewness'],
+  ['kurtosis', 'Kurtosis'],
+  ['sum', 'Sum'],
+  ['zeros', 'Zeros'],
+  ['negatives', 'Negatives']
+]
+
+function formatNumber(value: number): string {
+  if (Number.isInteger(value)) return value.toLocaleString()
+  return Math.abs(value) >= 1000 ? value.toLocaleString(undefined, { maximumFractionDigits: 1 }) : value.toPrecision(4)
+}
+
+export function ColumnProfileCard({ column, color }: ColumnProfileCardProps) {
+  const isTemporal = column.type === 'temporal'
+  const formatBin = (value: number) => isTemporal ? formatDateLabel(value, column.frequency) : formatNumber(value)
+
+  const chartData = column.histogram
+    ? column.histogram.map(bin => ({ label: formatBin(bin.start), range: `${formatBin(bin.start)} – ${formatBin(bin.end)}`, count: bin.count }))
+    : (column.topValues ?? []).map(entry => ({ label: entry.value, range: entry.value, count: entry.count }))
+
+  return (
+    <Card className="animate-fade-up">
+      <CardHeader className="pb-2">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <span className="truncate" title={column.name}>{column.name}</span>
+          <Badge variant="outline" style={{ borderColor: color, color }}>{column.type}</Badge>
+        </CardTitle>
+        <p className="text-xs text-muted-foreground">
+          {column.histogram ? 'Distribution' : `Top ${chartData.length} values`} · {column.uniqueCount.toLocaleString()} unique
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {chartData.length > 0 && (
+          <div className="h-32">
+            <ResponsiveContainer width="100%" height="100%">
+              {column.histogram ? (
+                <BarChart data={chartData} barCategoryGap={1}>
+                  <XAxis dataKey="label" hide />
+                  <YAxis hide />
+                  <Tooltip labelFormatter={(_, payload) => payload?.[0]?.payload.range ?? ''} />
+                  <Bar dataKey="count" fill={color} />
+                </BarChart>
+              ) : (
+                <BarChart data={chartData} layout="vertical" margin={{ left: 8 }}>
+                  <XAxis type="number" hide />
+                  <YAxis type="category" dataKey="label" width={90} tick={{ fontSize: 10 }} />
+                  <Tooltip />
+                  <Bar dataKey="count" fill={color} radius={[0, 4, 4, 0]} />
+                </BarChart>
+              )}
+            </ResponsiveContainer>
+          </div>
+        )}
+
+        {column.type === 'numerical' && column.stats?.count !== undefined && (
+          <div className="grid grid-cols-3 gap-x-3 gap-y-1 text-xs">
+            {STAT_ROWS.map(([key, label]) => {
+              const value = column.stats?.[key]
+              if (value === undefined) return null
+              return (
+                <div key={key} className="flex justify-between gap-1">
+                  <span className="text-muted-foreground">{label}</span>
+                  <span className="font-mono">{formatNumber(value)}</span>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,92 @@
+import { useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { CORRELATION_LABELS, Correlation, CorrelationMethod, CorrelationSet } from "@/lib/correlation"
+
+interface CorrelationHeatmapProps {
+  correlations: CorrelationSet
+  // Only numerical pairs can be drawn as a scatter, so Cramér's V cells are not clickable
+  onSelect?: (correlation: Correlation) => void
+}
+
+const CELL_SIZE = 36
+
+function cellColor(value: number): string {
+  const alpha = Math.min(1, Math.abs(value)).toFixed(2)
+  return value >= 0 ? `rgba(59, 130, 246, ${alpha})` : `rgba(239, 68, 68, ${alpha})`
+}
+
+export function CorrelationHeatmap({ correlations, onSelect }: CorrelationHeatmapProps) {
+  const methods = (Object.keys(correlations) as CorrelationMethod[]).filter(m => correlations[m].columns.length >= 2)
+  const [selected, setSelected] = useState<CorrelationMethod>('pearson')
+  const method = methods.includes(selected) ? selected : methods[0]
+  if (!method) return null
+
+  const { columns, pairs } = correlations[method]
+  const lookup = new Map<string, Correlation>()
+  for (const pair of pairs) {
+    lookup.set(`${pair.x}\u0000${pair.y}`, pair)
+    lookup.set(`${pair.y}\u0000${pair.x}`, pair)
+  }
+  const clickable = onSelect && method !== 'cramers-v'
+
+  return (
+    <Card className="animate-fade-up">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle>Correlation Matrix</CardTitle>
+        <ToggleGroup type="single" size="sm" value={method} onValueChange={value => value && setSelected(value as CorrelationMethod)}>
+          {methods.map(m => (
+            <ToggleGroupItem key={m} value={m} className="text-xs">{CORRELATION_LABELS[m]}</ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <div className="overflow-x-auto">
+          <div
+            className="inline-grid gap-px text-xs"
+            style={{ gridTemplateColumns: `minmax(6rem, max-content) repeat(${columns.length}, ${CELL_SIZE}px)` }}
+          >
+            <div />
+            {columns.map(name => (
+              <div key={name} className="h-24 flex items-end justify-center pb-1" title={name}>
+                <span className="[writing-mode:vertical-rl] rotate-180 truncate max-h-24">{name}</span>
+              </div>
+            ))}
+            {columns.map(row => (
+              <div key={row} className="contents">
+                <div className="truncate pr-2 flex items-center justify-end" title={row}>{row}</div>
+                {columns.map(column => {
+                  if (row === column) {
+                    return <div key={column} className="bg-muted" style={{ height: CELL_SIZE }} />
+                  }
+                  const pair = lookup.get(`${row}\u0000${column}`)
+                  if (!pair) {
+                    return <div key={column} className="bg-secondary/30" style={{ height: CELL_SIZE }} title="Not enough rows" />
+                  }
+                  return (
+                    <button
+                      key={column}
+                      type="button"
+                      disabled={!clickable}
+                      onClick={() => onSelect?.(pair)}
+                      className="flex items-center justify-center font-mono text-[10px] enabled:hover:ring-2 enabled:hover:ring-primary disabled:cursor-default"
+                      style={{ height: CELL_SIZE, backgroundColor: cellColor(pair.value), color: Math.abs(pair.value) > 0.5 ? 'white' : undefined }}
+                      title={`${pair.x} ↔ ${pair.y}: ${pair.value.toFixed(3)} (n = ${pair.n.toLocaleString()})`}
+                    >
+                      {pair.value.toFixed(2)}
+                    </button>
+                  )
+                })}
+              </div>
+            ))}
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {method === 'cramers-v'
+            ? 'Strength of association between categorical columns, from 0 (none) to 1 (fully determined).'
+            : 'Blue is positive, red is negative. Click a cell to add its scatter plot to the dashboard.'}
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
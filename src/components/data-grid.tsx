@@ -0,0 +1,271 @@
+import { useDeferredValue, useEffect, useMemo, useRef, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { ArrowDown, ArrowUp, ArrowUpDown, Columns3, Search, Table2, X } from "lucide-react"
+import { ColumnFilterPopover } from "@/components/column-filter-popover"
+import { Dataset, isNullAt } from "@/lib/dataset"
+import { ColumnInfo } from "@/lib/profiling"
+import { ColumnFilter, GridQuery, cellText, queryRows } from "@/lib/grid-query"
+
+interface DataGridProps {
+  dataset: Dataset
+  columns: ColumnInfo[]
+  query: GridQuery
+  onQueryChange: (query: GridQuery) => void
+  // Whether the dashboard charts are built from the filtered rows
+  applyToCharts: boolean
+  onApplyToChartsChange: (apply: boolean) => void
+}
+
+const ROW_HEIGHT = 32
+const HEADER_HEIGHT = 40
+const VIEWPORT_HEIGHT = 560
+const BODY_HEIGHT = VIEWPORT_HEIGHT - HEADER_HEIGHT
+const OVERSCAN = 8
+const COLUMN_WIDTH = 180
+const ROW_NUMBER_WIDTH = 80
+// Browsers stop growing elements somewhere past ten million pixels, so longer
+// tables scroll through a shorter spacer and map its position onto the rows
+const MAX_SCROLL_HEIGHT = 8_000_000
+
+function describeFilter(filter: ColumnFilter): string {
+  switch (filter.kind) {
+    case 'range':
+      return `${filter.column}: ${filter.min.toLocaleString()} – ${filter.max.toLocaleString()}`
+    case 'values':
+      return `${filter.column}: ${filter.values.length === 1 ? filter.values[0] : `${filter.values.length} values`}`
+    case 'date-range': {
+      const day = (time: number | null) => time === null ? '…' : new Date(time).toISOString().slice(0, 10)
+      return `${filter.column}: ${day(filter.from)} – ${day(filter.to)}`
+    }
+    case 'contains':
+      return `${filter.column} contains "${filter.text}"`
+  }
+}
+
+export function DataGrid({ dataset, columns, query, onQueryChange, applyToCharts, onApplyToChartsChange }: DataGridProps) {
+  const [order, setOrder] = useState(dataset.columnNames)
+  const [hidden, setHidden] = useState<Set<string>>(new Set())
+  const [scrollTop, setScrollTop] = useState(0)
+  const scrollRef = useRef<HTMLDivElement>(null)
+  const infos = useMemo(() => new Map(columns.map(info => [info.name, info])), [columns])
+  // Columns added to the dataset after the grid opened (e.g. calculated ones) go at the end
+  const layout = useMemo(
+    () => [...order.filter(name => dataset.column(name)), ...dataset.columnNames.filter(name => !order.includes(name))],
+    [order, dataset]
+  )
+  const visible = useMemo(() => layout.filter(name => !hidden.has(name)), [layout, hidden])
+
+  // Typing and filtering stay responsive while a large dataset is re-queried
+  const deferredQuery = useDeferredValue(query)
+  const rows = useMemo(() => queryRows(dataset, columns, deferredQuery), [dataset, columns, deferredQuery])
+  const isStale = deferredQuery !== query
+
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollTop = 0
+    setScrollTop(0)
+  }, [rows])
+
+  const naturalHeight = rows.length * ROW_HEIGHT
+  const spacerHeight = Math.min(naturalHeight, MAX_SCROLL_HEIGHT)
+  const scaled = spacerHeight < naturalHeight
+  const visibleCount = Math.ceil(BODY_HEIGHT / ROW_HEIGHT) + 1
+  const lastFirst = Math.max(0, rows.length - visibleCount)
+  const first = scaled
+    ? Math.round((scrollTop / Math.max(1, spacerHeight - BODY_HEIGHT)) * lastFirst)
+    : Math.floor(scrollTop / ROW_HEIGHT)
+  const start = scaled ? first : Math.max(0, first - OVERSCAN)
+  const end = Math.min(rows.length, first + visibleCount + (scaled ? 0 : OVERSCAN))
+  // Scaled tables keep the rendered block in view; unscaled ones place it at its real offset
+  const blockTop = scaled ? Math.min(scrollTop, Math.max(0, spacerHeight - visibleCount * ROW_HEIGHT)) : start * ROW_HEIGHT
+  const template = `${ROW_NUMBER_WIDTH}px repeat(${visible.length}, ${COLUMN_WIDTH}px)`
+  const totalWidth = ROW_NUMBER_WIDTH + visible.length * COLUMN_WIDTH
+
+  const setFilter = (name: string, filter: ColumnFilter | null) => {
+    const others = query.filters.filter(existing => existing.column !== name)
+    onQueryChange({ ...query, filters: filter ? [...others, filter] : others })
+  }
+
+  // Ascending, then descending, then unsorted
+  const toggleSort = (name: string) => {
+    const current = query.sort?.column === name ? query.sort.direction : null
+    const sort = current === null ? { column: name, direction: 'asc' as const }
+      : current === 'asc' ? { column: name, direction: 'desc' as const }
+      : null
+    onQueryChange({ ...query, sort })
+  }
+
+  const move = (name: string, offset: number) => {
+    const index = layout.indexOf(name)
+    const target = index + offset
+    if (target < 0 || target >= layout.length) return
+    const next = [...layout]
+    next.splice(index, 1)
+    next.splice(target, 0, name)
+    setOrder(next)
+  }
+
+  const toggleHidden = (name: string) => {
+    setHidden(prev => {
+      const next = new Set(prev)
+      if (next.has(name)) next.delete(name)
+      else next.add(name)
+      return next
+    })
+  }
+
+  return (
+    <Card>
+      <CardHeader className="space-y-4">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Table2 className="h-5 w-5" />
+              Data
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              {rows.length.toLocaleString()} of {dataset.rowCount.toLocaleString()} rows{isStale ? ' · updating…' : ''}
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <div className="relative">
+              <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+              <Input
+                className="pl-8 w-56 h-9"
+                placeholder="Search all columns…"
+                value={query.search}
+                onChange={event => onQueryChange({ ...query, search: event.target.value })}
+              />
+            </div>
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="outline" size="sm">
+                  <Columns3 className="h-4 w-4 mr-2" />
+                  Columns
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-64 max-h-96 overflow-y-auto space-y-1" align="end">
+                {layout.map((name, index) => (
+                  <div key={name} className="flex items-center gap-2 text-sm">
+                    <Checkbox checked={!hidden.has(name)} onCheckedChange={() => toggleHidden(name)} aria-label={`Show ${name}`} />
+                    <span className="flex-1 truncate" title={name}>{name}</span>
+                    <Button variant="ghost" size="icon" className="h-6 w-6" disabled={index === 0} onClick={() => move(name, -1)} aria-label={`Move ${name} left`}>
+                      <ArrowUp className="h-3 w-3" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-6 w-6" disabled={index === layout.length - 1} onClick={() => move(name, 1)} aria-label={`Move ${name} right`}>
+                      <ArrowDown className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+              </PopoverContent>
+            </Popover>
+            <div className="flex items-center gap-2">
+              <Switch id="grid-filters-to-charts" checked={applyToCharts} onCheckedChange={onApplyToChartsChange} />
+              <Label htmlFor="grid-filters-to-charts" className="text-sm">Apply filters to dashboard</Label>
+            </div>
+          </div>
+        </div>
+
+        {query.filters.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            {query.filters.map(filter => (
+              <Badge key={filter.column} variant="secondary" className="gap-1">
+                {describeFilter(filter)}
+                <button type="button" onClick={() => setFilter(filter.column, null)} aria-label={`Remove filter on ${filter.column}`}>
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+            <Button variant="ghost" size="sm" className="h-6 text-xs" onClick={() => onQueryChange({ ...query, filters: [] })}>
+              Clear filters
+            </Button>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent>
+        <div
+          ref={scrollRef}
+          className="overflow-auto rounded-md border text-sm"
+          style={{ height: VIEWPORT_HEIGHT }}
+          onScroll={event => setScrollTop(event.currentTarget.scrollTop)}
+        >
+          <div style={{ width: totalWidth, minWidth: '100%' }}>
+            <div
+              className="sticky top-0 z-10 grid bg-secondary font-medium border-b"
+              style={{ gridTemplateColumns: template, height: HEADER_HEIGHT }}
+            >
+              <div className="px-3 flex items-center text-xs text-muted-foreground">#</div>
+              {visible.map(name => {
+                const column = dataset.column(name)
+                const info = infos.get(name)
+                const sorted = query.sort?.column === name ? query.sort.direction : null
+                return (
+                  <div key={name} className="px-2 flex items-center gap-1 border-l min-w-0">
+                    <button
+                      type="button"
+                      className="flex items-center gap-1 min-w-0 flex-1 text-left"
+                      onClick={() => toggleSort(name)}
+                      title={`Sort by ${name}`}
+                    >
+                      <span className="truncate">{name}</span>
+                      {sorted === 'asc' ? <ArrowUp className="h-3 w-3 flex-shrink-0" />
+                        : sorted === 'desc' ? <ArrowDown className="h-3 w-3 flex-shrink-0" />
+                        : <ArrowUpDown className="h-3 w-3 flex-shrink-0 opacity-30" />}
+                    </button>
+                    {column && info && (
+                      <ColumnFilterPopover
+                        column={column}
+                        info={info}
+                        rowCount={dataset.rowCount}
+                        filter={query.filters.find(filter => filter.column === name)}
+                        onChange={filter => setFilter(name, filter)}
+                      />
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+
+            <div className="relative" style={{ height: spacerHeight }}>
+              <div className="absolute left-0 right-0" style={{ top: blockTop }}>
+                {Array.from({ length: Math.max(0, end - start) }, (_, offset) => {
+                  const row = rows[start + offset]
+                  return (
+                    <div
+                      key={row}
+                      className="grid border-b hover:bg-secondary/50"
+                      style={{ gridTemplateColumns: template, height: ROW_HEIGHT }}
+                    >
+                      <div className="px-3 flex items-center font-mono text-xs text-muted-foreground">{(row + 1).toLocaleString()}</div>
+                      {visible.map(name => {
+                        const column = dataset.column(name)
+                        const missing = !column || isNullAt(column, row)
+                        const text = missing ? '' : cellText(column, row)
+                        return (
+                          <div key={name} className="px-2 flex items-center border-l min-w-0" title={text}>
+                            {missing
+                              ? <span className="text-muted-foreground">—</span>
+                              : <span className={`truncate ${infos.get(name)?.type === 'numerical' ? 'ml-auto font-mono' : ''}`}>{text}</span>}
+                          </div>
+                        )
+                      })}
+                    </div>
+                  )
+                })}
+              </div>
+            </div>
+          </div>
+        </div>
+        {rows.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-4">No rows match the current filters.</p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
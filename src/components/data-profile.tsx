@@ -2,32 +2,60 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Progress } from "@/components/ui/progress"
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Cell } from "recharts"
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Activity, Database, AlertTriangle, CheckCircle, TrendingUp } from "lucide-react"
-
-interface ColumnInfo {
-  name: string
-  type: 'numerical' | 'categorical' | 'temporal' | 'text'
-  nullCount: number
-  uniqueCount: number
-  quality: number
-  stats?: {
-    mean?: number
-    median?: number
-    std?: number
-    min?: number
-    max?: number
-  }
-}
+import { ColumnInfo, ColumnOverride, ColumnType } from "@/lib/profiling"
+import { SEMANTIC_TYPES, SemanticType } from "@/lib/semantic-types"
+import { PII_KIND_LABELS } from "@/lib/pii"
+import { DATE_FORMAT_LABELS } from "@/lib/date-parsing"
+import { ColumnProfileCard } from "@/components/column-profile-card"
+import { TextProfileCard } from "@/components/text-profile-card"
+import { CorrelationHeatmap } from "@/components/correlation-heatmap"
+import { CORRELATION_LABELS, Correlation, CorrelationSet, strongestPairs } from "@/lib/correlation"
+import { ValidationReportCard } from "@/components/validation-report"
+import { ValidationReport } from "@/lib/quality-rules"
 
 interface DataProfileProps {
   data: any[]
   columns: ColumnInfo[]
-  correlations?: Array<{ x: string; y: string; value: number }>
+  correlations?: CorrelationSet
+  // Rows that repeat an earlier row in every column
+  duplicateRows?: number
+  // Result of the user's quality rules; quality scores fall back to completeness without rules
+  validation?: ValidationReport
+  // Called when a numerical pair is picked from the heatmap or the strongest pairs
+  onCorrelationSelect?: (correlation: Correlation) => void
+  // Called with null to go back to the inferred type
+  onColumnTypeChange?: (name: string, override: ColumnOverride | null) => void
+}
+
+const BASE_TYPES: ColumnType[] = ['numerical', 'categorical', 'temporal', 'text']
+
+// Select values: "auto", "base:<type>" or "semantic:<type>"
+function typeValue(column: ColumnInfo): string {
+  if (!column.overridden) return 'auto'
+  return column.semanticType ? `semantic:${column.semanticType}` : `base:${column.type}`
 }
 
-export function DataProfile({ data, columns, correlations }: DataProfileProps) {
+function parseTypeValue(value: string): ColumnOverride | null {
+  const [kind, name] = value.split(':')
+  if (kind === 'semantic') {
+    const semanticType = name as SemanticType
+    return { type: SEMANTIC_TYPES[semanticType].baseType, semanticType }
+  }
+  if (kind === 'base') return { type: name as ColumnType }
+  return null
+}
+
+export function DataProfile({ data, columns, correlations, duplicateRows, validation, onColumnTypeChange, onCorrelationSelect }: DataProfileProps) {
   const totalRows = data.length
-  const overallQuality = Math.round(columns.reduce((sum, col) => sum + col.quality, 0) / columns.length)
+  const strongest = correlations ? strongestPairs(correlations, 6) : []
+  const hasRules = validation !== undefined && validation.results.length > 0
+  const overallQuality = hasRules
+    ? validation.score
+    : Math.round(columns.reduce((sum, col) => sum + col.quality, 0) / columns.length)
+  const textColumns = columns.filter(column => column.text)
+  const columnQuality = (column: ColumnInfo) => hasRules ? validation.columnScores[column.name] ?? column.quality : column.quality
   
   const typeColors = {
     numerical: '#3b82f6',
@@ -58,6 +86,11 @@ export function DataProfile({ data, columns, correlations }: DataProfileProps) {
           </CardHeader>
           <CardContent>
             <div className="text-2xl font-bold text-primary">{totalRows.toLocaleString()}</div>
+            {duplicateRows !== undefined && (
+              <p className={`text-xs mt-1 ${duplicateRows > 0 ? 'text-warning' : 'text-muted-foreground'}`}>
+                {duplicateRows === 0 ? 'No exact duplicates' : `${duplicateRows.toLocaleString()} exact duplicate${duplicateRows === 1 ? '' : 's'}`}
+              </p>
+            )}
           </CardContent>
         </Card>
 
@@ -83,6 +116,9 @@ export function DataProfile({ data, columns, correlations }: DataProfileProps) {
           <CardContent>
             <div className="text-2xl font-bold text-primary">{overallQuality}%</div>
             <Progress value={overallQuality} className="mt-2" />
+            <p className="text-xs text-muted-foreground mt-1">
+              {hasRules ? `Based on ${validation.results.length} rule${validation.results.length === 1 ? '' : 's'}` : 'Based on completeness'}
+            </p>
           </CardContent>
         </Card>
 
@@ -143,17 +179,69 @@ export function DataProfile({ data, columns, correlations }: DataProfileProps) {
                       >
                         {column.type}
                       </Badge>
+                      {column.semanticType && (
+                        <Badge variant="secondary">{SEMANTIC_TYPES[column.semanticType].label}</Badge>
+                      )}
+                      {column.pii && (
+                        <Badge variant="destructive" title="Personal data">{PII_KIND_LABELS[column.pii]}</Badge>
+                      )}
                     </div>
+                    {column.frequency && (
+                      <div className="text-xs text-muted-foreground mb-1">
+                        {column.dateFormat ? `${DATE_FORMAT_LABELS[column.dateFormat]} · ` : ''}{column.frequency}
+                      </div>
+                    )}
+                    {column.formula && (
+                      <div className="text-xs font-mono text-muted-foreground mb-1 truncate" title={column.formula}>
+                        = {column.formula}
+                      </div>
+                    )}
+                    {column.sourcePath && (
+                      <div className="text-xs font-mono text-muted-foreground mb-1 truncate" title={column.sourcePath}>
+                        {column.sourcePath}
+                      </div>
+                    )}
                     <div className="text-sm text-muted-foreground space-x-4">
                       <span>Unique: {column.uniqueCount}</span>
                       <span>Nulls: {column.nullCount}</span>
-                      <span>Quality: {column.quality}%</span>
+                      <span>Quality: {columnQuality(column)}%</span>
                     </div>
                   </div>
-                  <Progress 
-                    value={column.quality} 
-                    className="w-16 h-2"
-                  />
+                  <div className="flex items-center gap-3">
+                    {onColumnTypeChange && (
+                      <Select
+                        value={typeValue(column)}
+                        onValueChange={value => onColumnTypeChange(column.name, parseTypeValue(value))}
+                      >
+                        <SelectTrigger className="w-36 h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="auto">Auto-detect</SelectItem>
+                          <SelectGroup>
+                            <SelectLabel>Type</SelectLabel>
+                            {BASE_TYPES.map(type => (
+                              <SelectItem key={type} value={`base:${type}`}>
+                                {type.charAt(0).toUpperCase() + type.slice(1)}
+                              </SelectItem>
+                            ))}
+                          </SelectGroup>
+                          <SelectGroup>
+                            <SelectLabel>Semantic type</SelectLabel>
+                            {(Object.keys(SEMANTIC_TYPES) as SemanticType[]).map(type => (
+                              <SelectItem key={type} value={`semantic:${type}`}>
+                                {SEMANTIC_TYPES[type].label}
+                              </SelectItem>
+                            ))}
+                          </SelectGroup>
+                        </SelectContent>
+                      </Select>
+                    )}
+                    <Progress 
+                      value={columnQuality(column)} 
+                      className="w-16 h-2"
+                    />
+                  </div>
                 </div>
               ))}
             </div>
@@ -161,30 +249,62 @@ export function DataProfile({ data, columns, correlations }: DataProfileProps) {
         </Card>
       </div>
 
+      {hasRules && <ValidationReportCard report={validation} data={data} />}
+
+      {/* Per-column distributions */}
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+        {columns.map(column => (
+          <ColumnProfileCard key={column.name} column={column} color={typeColors[column.type]} />
+        ))}
+      </div>
+
+      {/* Free-text columns */}
+      {textColumns.length > 0 && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          {textColumns.map(column => (
+            <TextProfileCard key={column.name} column={column} profile={column.text} />
+          ))}
+        </div>
+      )}
+
       {/* Correlation Matrix (if available) */}
-      {correlations && correlations.length > 0 && (
+      {correlations && <CorrelationHeatmap correlations={correlations} onSelect={onCorrelationSelect} />}
+
+      {strongest.length > 0 && (
         <Card>
           <CardHeader>
             <CardTitle>Correlation Insights</CardTitle>
           </CardHeader>
           <CardContent>
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              {correlations.slice(0, 6).map((corr, index) => (
-                <div key={index} className="p-4 rounded-lg bg-secondary/50 animate-fade-up" style={{ animationDelay: `${index * 80}ms` }}>
-                  <div className="flex justify-between items-center">
-                    <div>
-                      <p className="font-medium text-sm">{corr.x} ↔ {corr.y}</p>
-                      <p className="text-xs text-muted-foreground">Correlation</p>
-                    </div>
-                    <div className={`text-lg font-bold ${
-                      Math.abs(corr.value) > 0.7 ? 'text-warning' :
-                      Math.abs(corr.value) > 0.4 ? 'text-primary' : 'text-muted-foreground'
-                    }`}>
-                      {corr.value.toFixed(2)}
+              {strongest.map((corr, index) => {
+                const clickable = onCorrelationSelect && corr.method !== 'cramers-v'
+                return (
+                  <button
+                    key={`${corr.method}-${corr.x}-${corr.y}`}
+                    type="button"
+                    disabled={!clickable}
+                    onClick={() => onCorrelationSelect?.(corr)}
+                    className="p-4 rounded-lg bg-secondary/50 animate-fade-up text-left enabled:hover:bg-secondary disabled:cursor-default"
+                    style={{ animationDelay: `${index * 80}ms` }}
+                  >
+                    <div className="flex justify-between items-center">
+                      <div>
+                        <p className="font-medium text-sm">{corr.x} ↔ {corr.y}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {CORRELATION_LABELS[corr.method]} · n = {corr.n.toLocaleString()}
+                        </p>
+                      </div>
+                      <div className={`text-lg font-bold ${
+                        Math.abs(corr.value) > 0.7 ? 'text-warning' :
+                        Math.abs(corr.value) > 0.4 ? 'text-primary' : 'text-muted-foreground'
+                      }`}>
+                        {corr.value.toFixed(2)}
+                      </div>
                     </div>
-                  </div>
-                </div>
-              ))}
+                  </button>
+                )
+              })}
             </div>
           </CardContent>
         </Card>
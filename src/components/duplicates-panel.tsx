@@ -0,0 +1,184 @@
+import { useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Slider } from "@/components/ui/slider"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Copy } from "lucide-react"
+import { Dataset } from "@/lib/dataset"
+import {
+  DuplicateCluster,
+  MATCH_METHOD_LABELS,
+  MERGE_STRATEGY_LABELS,
+  MatchMethod,
+  MergeStrategy,
+  duplicateRowCount,
+  findDuplicates
+} from "@/lib/duplicates"
+
+interface DuplicatesPanelProps {
+  dataset: Dataset
+  onDeduplicate: (clusters: DuplicateCluster[], strategy: MergeStrategy) => void
+}
+
+// Clusters shown in full; the counts cover all of them
+const MAX_LISTED_CLUSTERS = 20
+const DEFAULT_THRESHOLD = 0.85
+
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) return '—'
+  if (value instanceof Date) return value.toISOString().slice(0, 10)
+  return String(value)
+}
+
+export function DuplicatesPanel({ dataset, onDeduplicate }: DuplicatesPanelProps) {
+  const [keys, setKeys] = useState<string[]>([])
+  const [method, setMethod] = useState<MatchMethod>('exact')
+  const [threshold, setThreshold] = useState(DEFAULT_THRESHOLD)
+  const [strategy, setStrategy] = useState<MergeStrategy>('keep-first')
+  const [clusters, setClusters] = useState<DuplicateCluster[] | null>(null)
+  const [isSearching, setIsSearching] = useState(false)
+  const fuzzy = method === 'edit-distance' || method === 'token-set'
+  const shownColumns = keys.length > 0 ? keys : dataset.columnNames
+
+  const toggleKey = (name: string) => {
+    setKeys(prev => prev.includes(name) ? prev.filter(key => key !== name) : [...prev, name])
+    setClusters(null)
+  }
+
+  const search = () => {
+    setIsSearching(true)
+    // Let the button show its busy state before the search blocks the thread
+    setTimeout(() => {
+      setClusters(findDuplicates(dataset, { method, keys, threshold }))
+      setIsSearching(false)
+    }, 0)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Copy className="h-5 w-5" />
+          Duplicates
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Compare rows on the chosen key columns, or on every column when none are selected.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label>Key columns</Label>
+          <div className="flex flex-wrap gap-2">
+            {dataset.columnNames.map(name => (
+              <Badge
+                key={name}
+                variant={keys.includes(name) ? 'default' : 'outline'}
+                className="cursor-pointer"
+                onClick={() => toggleKey(name)}
+              >
+                {name}
+              </Badge>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-col md:flex-row md:items-end gap-4">
+          <div className="space-y-1">
+            <Label>Match</Label>
+            <Select value={method} onValueChange={value => { setMethod(value as MatchMethod); setClusters(null) }}>
+              <SelectTrigger className="w-44 h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(MATCH_METHOD_LABELS) as MatchMethod[]).map(m => (
+                  <SelectItem key={m} value={m}>{MATCH_METHOD_LABELS[m]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {fuzzy && (
+            <div className="space-y-2 w-56">
+              <Label>Similarity at least {Math.round(threshold * 100)}%</Label>
+              <Slider
+                min={0.5}
+                max={1}
+                step={0.01}
+                value={[threshold]}
+                onValueChange={([value]) => { setThreshold(value); setClusters(null) }}
+              />
+            </div>
+          )}
+          <Button onClick={search} disabled={isSearching}>
+            {isSearching ? 'Searching…' : 'Find duplicates'}
+          </Button>
+        </div>
+
+        {clusters && (
+          clusters.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No duplicates found.</p>
+          ) : (
+            <div className="space-y-4">
+              <p className="text-sm">
+                {clusters.length.toLocaleString()} group{clusters.length === 1 ? '' : 's'} covering{' '}
+                {duplicateRowCount(clusters).toLocaleString()} redundant rows
+              </p>
+              <div className="max-h-96 overflow-auto space-y-4">
+                {clusters.slice(0, MAX_LISTED_CLUSTERS).map(cluster => (
+                  <div key={cluster.rows[0]} className="rounded-lg border">
+                    {fuzzy && (
+                      <div className="px-3 py-1 text-xs text-muted-foreground border-b">
+                        {Math.round(cluster.similarity * 100)}% similar or more
+                      </div>
+                    )}
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Row</TableHead>
+                          {shownColumns.map(name => <TableHead key={name}>{name}</TableHead>)}
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {cluster.rows.map(row => (
+                          <TableRow key={row}>
+                            <TableCell className="font-mono text-xs">{row + 1}</TableCell>
+                            {shownColumns.map(name => (
+                              <TableCell key={name} className="text-xs">{formatCell(dataset.value(name, row))}</TableCell>
+                            ))}
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                ))}
+              </div>
+              {clusters.length > MAX_LISTED_CLUSTERS && (
+                <p className="text-xs text-muted-foreground">
+                  Showing {MAX_LISTED_CLUSTERS} of {clusters.length.toLocaleString()} groups
+                </p>
+              )}
+              <div className="flex flex-col sm:flex-row sm:items-end justify-end gap-4">
+                <div className="space-y-1">
+                  <Label>Keep</Label>
+                  <Select value={strategy} onValueChange={value => setStrategy(value as MergeStrategy)}>
+                    <SelectTrigger className="w-60 h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(MERGE_STRATEGY_LABELS) as MergeStrategy[]).map(s => (
+                        <SelectItem key={s} value={s}>{MERGE_STRATEGY_LABELS[s]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Button onClick={() => onDeduplicate(clusters, strategy)}>Create deduplicated dataset</Button>
+              </div>
+            </div>
+          )
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,213 @@
+import { useEffect, useMemo, useState } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { FileSearch } from "lucide-react"
+import { parseCsv } from "@/lib/import/csv-parser"
+import {
+  CsvImportOptions,
+  DEFAULT_IMPORT_OPTIONS,
+  SNIFF_SAMPLE_BYTES,
+  decodeBytes,
+  parseCellValue,
+  sniffCsv
+} from "@/lib/import/csv-sniffer"
+
+const PREVIEW_ROWS = 20
+
+const DELIMITER_LABELS: Record<string, string> = {
+  ',': 'Comma (,)',
+  ';': 'Semicolon (;)',
+  '\t': 'Tab',
+  '|': 'Pipe (|)'
+}
+
+const ENCODING_LABELS: Record<CsvImportOptions['encoding'], string> = {
+  'utf-8': 'UTF-8',
+  'utf-16le': 'UTF-16 LE',
+  'utf-16be': 'UTF-16 BE',
+  'windows-1252': 'Windows-1252'
+}
+
+const THOUSANDS_LABELS: Record<CsvImportOptions['thousands'], string> = {
+  '': 'None',
+  ',': 'Comma (1,000)',
+  '.': 'Dot (1.000)',
+  ' ': 'Space (1 000)',
+  "'": "Apostrophe (1'000)"
+}
+
+interface ImportPreviewDialogProps {
+  file: File | null
+  onCancel: () => void
+  onConfirm: (file: File, options: CsvImportOptions) => void
+}
+
+export function ImportPreviewDialog({ file, onCancel, onConfirm }: ImportPreviewDialogProps) {
+  const [sample, setSample] = useState<Uint8Array | null>(null)
+  const [options, setOptions] = useState<CsvImportOptions>(DEFAULT_IMPORT_OPTIONS)
+
+  // Sniff the dialect from the first bytes whenever a new file is chosen
+  useEffect(() => {
+    if (!file) return
+    let cancelled = false
+    setSample(null)
+    file.slice(0, SNIFF_SAMPLE_BYTES).arrayBuffer().then(buffer => {
+      if (cancelled) return
+      const bytes = new Uint8Array(buffer)
+      setSample(bytes)
+      setOptions(sniffCsv(bytes, file.size > bytes.length))
+    })
+    return () => { cancelled = true }
+  }, [file])
+
+  const preview = useMemo(() => {
+    if (!sample) return null
+    const table = parseCsv(decodeBytes(sample, options.encoding), {
+      delimiter: options.delimiter,
+      quote: options.quote,
+      header: options.header
+    })
+    return {
+      headers: table.headers,
+      rows: table.rows.slice(0, PREVIEW_ROWS).map(row => row.map(value => parseCellValue(value, options)))
+    }
+  }, [sample, options])
+
+  const update = <K extends keyof CsvImportOptions>(key: K, value: CsvImportOptions[K]) => {
+    setOptions(prev => ({ ...prev, [key]: value }))
+  }
+
+  return (
+    <Dialog open={!!file} onOpenChange={open => { if (!open) onCancel() }}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSearch className="h-5 w-5 text-primary" />
+            Import Preview
+          </DialogTitle>
+          <DialogDescription>
+            We detected the settings below for {file?.name}. Adjust anything that looks wrong before importing.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+          <div className="space-y-1">
+            <Label>Encoding</Label>
+            <Select value={options.encoding} onValueChange={v => update('encoding', v as CsvImportOptions['encoding'])}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {Object.entries(ENCODING_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label>Delimiter</Label>
+            <Select value={options.delimiter} onValueChange={v => update('delimiter', v)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {Object.entries(DELIMITER_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label>Quote character</Label>
+            <Select value={options.quote} onValueChange={v => update('quote', v)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={'"'}>Double quote (")</SelectItem>
+                <SelectItem value="'">Single quote (')</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label>Decimal separator</Label>
+            <Select value={options.decimal} onValueChange={v => update('decimal', v as CsvImportOptions['decimal'])}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value=".">Dot (1.5)</SelectItem>
+                <SelectItem value=",">Comma (1,5)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label>Thousands separator</Label>
+            <Select
+              value={options.thousands || 'none'}
+              onValueChange={v => update('thousands', (v === 'none' ? '' : v) as CsvImportOptions['thousands'])}
+            >
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {Object.entries(THOUSANDS_LABELS).map(([value, label]) => (
+                  <SelectItem key={value || 'none'} value={value || 'none'}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center gap-3 pt-6">
+            <Switch id="import-header" checked={options.header} onCheckedChange={v => update('header', v)} />
+            <Label htmlFor="import-header">First row is a header</Label>
+          </div>
+        </div>
+
+        <div className="border rounded-md max-h-80 overflow-auto">
+          {preview ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {preview.headers.map(header => (
+                    <TableHead key={header} className="whitespace-nowrap">{header}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.rows.map((row, rowIndex) => (
+                  <TableRow key={rowIndex}>
+                    {row.map((value, colIndex) => (
+                      <TableCell
+                        key={colIndex}
+                        className={`whitespace-nowrap py-1 ${typeof value === 'number' ? 'text-right font-mono' : ''}`}
+                      >
+                        {typeof value === 'number' ? value.toLocaleString() : value}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <div className="flex items-center justify-center gap-2 py-10 text-muted-foreground">
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary"></div>
+              <span>Detecting file format...</span>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="items-center">
+          {preview && (
+            <Badge variant="outline" className="mr-auto">
+              Showing first {preview.rows.length} rows · {preview.headers.length} columns
+            </Badge>
+          )}
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={() => file && onConfirm(file, options)} disabled={!preview}>
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,180 @@
+import { useMemo, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { GitMerge, Plus, X } from "lucide-react"
+import { JoinSpec, JoinType, joinStats } from "@/lib/join"
+import { WorkspaceDataset } from "@/lib/workspace"
+
+const JOIN_LABELS: Record<JoinType, string> = {
+  inner: 'Inner join (matching rows only)',
+  left: 'Left join (keep all left rows)',
+  full: 'Full join (keep all rows)'
+}
+
+interface JoinBuilderProps {
+  datasets: WorkspaceDataset[]
+  onJoin: (left: WorkspaceDataset, right: WorkspaceDataset, spec: JoinSpec, name: string) => void
+}
+
+const percent = (part: number, whole: number) => whole > 0 ? `${Math.round((part / whole) * 100)}%` : '—'
+
+export function JoinBuilder({ datasets, onJoin }: JoinBuilderProps) {
+  const [leftId, setLeftId] = useState(datasets[0]?.id ?? '')
+  const [rightId, setRightId] = useState(datasets[1]?.id ?? '')
+  const [type, setType] = useState<JoinType>('inner')
+  const [keys, setKeys] = useState<{ left: string; right: string }[]>([{ left: '', right: '' }])
+  const [name, setName] = useState('')
+
+  const left = datasets.find(entry => entry.id === leftId)
+  const right = datasets.find(entry => entry.id === rightId)
+  const spec = useMemo<JoinSpec>(
+    () => ({ type, leftKeys: keys.map(key => key.left), rightKeys: keys.map(key => key.right) }),
+    [type, keys]
+  )
+  const complete = !!left && !!right && keys.every(key => key.left && key.right)
+
+  const stats = useMemo(() => {
+    if (!left || !right || !complete) return null
+    try {
+      return joinStats(left.dataset, right.dataset, spec)
+    } catch {
+      return null
+    }
+  }, [left, right, complete, spec])
+
+  const setKey = (index: number, side: 'left' | 'right', column: string) => {
+    setKeys(current => current.map((key, i) => i === index ? { ...key, [side]: column } : key))
+  }
+
+  // Keys only make sense for the dataset they were picked from
+  const pickDataset = (side: 'left' | 'right', id: string) => {
+    if (side === 'left') setLeftId(id)
+    else setRightId(id)
+    setKeys(current => current.map(key => ({ ...key, [side]: '' })))
+  }
+
+  const defaultName = left && right ? `${left.name} ⋈ ${right.name}` : ''
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitMerge className="h-5 w-5 text-primary" />
+          Join Datasets
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>Left dataset</Label>
+            <Select value={leftId} onValueChange={id => pickDataset('left', id)}>
+              <SelectTrigger><SelectValue placeholder="Choose a dataset" /></SelectTrigger>
+              <SelectContent>
+                {datasets.map(entry => <SelectItem key={entry.id} value={entry.id}>{entry.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Join type</Label>
+            <Select value={type} onValueChange={value => setType(value as JoinType)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {(Object.keys(JOIN_LABELS) as JoinType[]).map(value => (
+                  <SelectItem key={value} value={value}>{JOIN_LABELS[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Right dataset</Label>
+            <Select value={rightId} onValueChange={id => pickDataset('right', id)}>
+              <SelectTrigger><SelectValue placeholder="Choose a dataset" /></SelectTrigger>
+              <SelectContent>
+                {datasets.map(entry => <SelectItem key={entry.id} value={entry.id}>{entry.name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Key columns</Label>
+          {keys.map((key, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Select value={key.left} onValueChange={column => setKey(index, 'left', column)} disabled={!left}>
+                <SelectTrigger><SelectValue placeholder="Left column" /></SelectTrigger>
+                <SelectContent>
+                  {left?.dataset.columnNames.map(column => <SelectItem key={column} value={column}>{column}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <span className="text-muted-foreground">=</span>
+              <Select value={key.right} onValueChange={column => setKey(index, 'right', column)} disabled={!right}>
+                <SelectTrigger><SelectValue placeholder="Right column" /></SelectTrigger>
+                <SelectContent>
+                  {right?.dataset.columnNames.map(column => <SelectItem key={column} value={column}>{column}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setKeys(current => current.filter((_, i) => i !== index))}
+                disabled={keys.length === 1}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button variant="outline" size="sm" onClick={() => setKeys(current => [...current, { left: '', right: '' }])}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add key
+          </Button>
+        </div>
+
+        {stats && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+            <div className="rounded-md border p-3">
+              <div className="text-muted-foreground">Left rows matched</div>
+              <div className="font-semibold">
+                {stats.matchedLeft.toLocaleString()} / {stats.leftRows.toLocaleString()} ({percent(stats.matchedLeft, stats.leftRows)})
+              </div>
+            </div>
+            <div className="rounded-md border p-3">
+              <div className="text-muted-foreground">Right rows matched</div>
+              <div className="font-semibold">
+                {stats.matchedRight.toLocaleString()} / {stats.rightRows.toLocaleString()} ({percent(stats.matchedRight, stats.rightRows)})
+              </div>
+            </div>
+            <div className="rounded-md border p-3">
+              <div className="text-muted-foreground">Left rows with several matches</div>
+              <div className="font-semibold">{stats.duplicatedLeft.toLocaleString()}</div>
+            </div>
+            <div className="rounded-md border p-3">
+              <div className="text-muted-foreground">Result rows</div>
+              <div className="font-semibold">{stats.outputRows.toLocaleString()}</div>
+            </div>
+          </div>
+        )}
+        {stats && stats.matchedLeft === 0 && (
+          <Badge variant="destructive">No keys match — check that the key columns hold the same values</Badge>
+        )}
+
+        <div className="flex items-end gap-2">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="join-name">Name</Label>
+            <Input id="join-name" value={name} placeholder={defaultName} onChange={event => setName(event.target.value)} />
+          </div>
+          <Button
+            onClick={() => left && right && onJoin(left, right, spec, name.trim() || defaultName)}
+            disabled={!complete || !stats}
+          >
+            <GitMerge className="h-4 w-4 mr-2" />
+            Create joined dataset
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
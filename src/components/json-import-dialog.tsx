@@ -0,0 +1,131 @@
+import { useEffect, useMemo, useState } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Braces } from "lucide-react"
+import { ArrayMode, JsonDocument, flattenRecords, parseJsonDocument } from "@/lib/import/json-reader"
+
+const PREVIEW_RECORDS = 20
+
+interface JsonImportDialogProps {
+  file: File | null
+  onCancel: () => void
+  onConfirm: (file: File, arrays: ArrayMode) => void
+}
+
+export function JsonImportDialog({ file, onCancel, onConfirm }: JsonImportDialogProps) {
+  const [jsonDocument, setJsonDocument] = useState<JsonDocument | null>(null)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [arrays, setArrays] = useState<ArrayMode>('stringify')
+
+  useEffect(() => {
+    if (!file) return
+    let cancelled = false
+    setJsonDocument(null)
+    setLoadError(null)
+    file.text().then(text => {
+      if (!cancelled) setJsonDocument(parseJsonDocument(text))
+    }).catch(error => {
+      if (!cancelled) setLoadError(error instanceof Error ? error.message : 'Could not read JSON file')
+    })
+    return () => { cancelled = true }
+  }, [file])
+
+  const preview = useMemo(() => {
+    if (!jsonDocument) return null
+    try {
+      const table = flattenRecords(jsonDocument.records.slice(0, PREVIEW_RECORDS), arrays, jsonDocument.recordPath)
+      return { table, error: null }
+    } catch (error) {
+      return { table: null, error: error instanceof Error ? error.message : String(error) }
+    }
+  }, [jsonDocument, arrays])
+
+  return (
+    <Dialog open={!!file} onOpenChange={open => { if (!open) onCancel() }}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Braces className="h-5 w-5 text-primary" />
+            Import JSON
+          </DialogTitle>
+          <DialogDescription>
+            Nested fields of {file?.name} are flattened into dotted column names.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-end">
+          <div className="space-y-1">
+            <Label>Arrays</Label>
+            <Select value={arrays} onValueChange={v => setArrays(v as ArrayMode)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="stringify">Keep as JSON text in one cell</SelectItem>
+                <SelectItem value="explode">Explode into one row per element</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {jsonDocument && (
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="outline">{jsonDocument.format === 'ndjson' ? 'Newline-delimited JSON' : 'JSON'}</Badge>
+              <Badge variant="outline">{jsonDocument.records.length.toLocaleString()} records</Badge>
+              <Badge variant="outline" className="font-mono">{jsonDocument.recordPath}</Badge>
+              {jsonDocument.errors.length > 0 && (
+                <Badge variant="destructive">{jsonDocument.errors.length} invalid lines skipped</Badge>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="border rounded-md max-h-80 overflow-auto">
+          {loadError || preview?.error ? (
+            <div className="py-10 text-center text-sm text-destructive">{loadError || preview?.error}</div>
+          ) : preview?.table ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {preview.table.headers.map(header => (
+                    <TableHead key={header} className="whitespace-nowrap" title={preview.table.sourcePaths[header]}>
+                      {header}
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.table.rows.map((row, rowIndex) => (
+                  <TableRow key={rowIndex}>
+                    {preview.table.headers.map(header => (
+                      <TableCell key={header} className="whitespace-nowrap py-1 max-w-xs truncate">
+                        {row[header] === null ? '' : String(row[header])}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <div className="flex items-center justify-center gap-2 py-10 text-muted-foreground">
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary"></div>
+              <span>Reading JSON...</span>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="items-center">
+          {preview?.table && (
+            <Badge variant="outline" className="mr-auto">
+              Preview of first {Math.min(PREVIEW_RECORDS, jsonDocument?.records.length ?? 0)} records · {preview.table.headers.length} columns
+            </Badge>
+          )}
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={() => file && onConfirm(file, arrays)} disabled={!preview?.table}>
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
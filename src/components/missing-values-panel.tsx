@@ -0,0 +1,258 @@
+import { useMemo, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { CheckCircle, Eraser, Wand2 } from "lucide-react"
+import { Dataset } from "@/lib/dataset"
+import { ColumnInfo } from "@/lib/profiling"
+import { analyzeMissingness, parseNullTokens } from "@/lib/missing-values"
+import { IMPUTE_METHOD_LABELS, ImputationPlan, ImputeMethod, imputeMethods } from "@/lib/imputation"
+
+interface MissingValuesPanelProps {
+  dataset: Dataset
+  columns: ColumnInfo[]
+  nullTokens: string[]
+  onNullTokensChange: (tokens: string[]) => void
+  onImpute: (plan: ImputationPlan, timeColumn?: string) => void
+}
+
+const CELL_SIZE = 32
+const KEEP = 'keep'
+
+const percent = (count: number, total: number) => total > 0 ? Math.round((count / total) * 1000) / 10 : 0
+
+export function MissingValuesPanel({ dataset, columns, nullTokens, onNullTokensChange, onImpute }: MissingValuesPanelProps) {
+  const report = useMemo(() => analyzeMissingness(dataset), [dataset])
+  const [tokenText, setTokenText] = useState(nullTokens.join(', '))
+  const [plan, setPlan] = useState<ImputationPlan>({})
+  const temporal = columns.filter(column => column.type === 'temporal' && dataset.column(column.name)?.kind === 'date')
+  const [timeColumn, setTimeColumn] = useState<string>(temporal[0]?.name ?? KEEP)
+
+  const missingNames = report.columns.map(column => column.name)
+  const together = new Map<string, number>()
+  for (const pair of report.pairs) {
+    together.set(`${pair.x}\u0000${pair.y}`, pair.correlation)
+    together.set(`${pair.y}\u0000${pair.x}`, pair.correlation)
+  }
+
+  // Strategies for columns that no longer have gaps (e.g. after re-applying tokens) are ignored
+  const activePlan = Object.fromEntries(Object.entries(plan).filter(([name]) => missingNames.includes(name)))
+  const planned = Object.keys(activePlan).length
+  const constantMissing = Object.values(activePlan).some(strategy => strategy.method === 'constant' && !strategy.value?.trim())
+
+  const setMethod = (name: string, method: string) => {
+    setPlan(prev => {
+      const next = { ...prev }
+      if (method === KEEP) delete next[name]
+      else next[name] = { method: method as ImputeMethod, value: prev[name]?.value }
+      return next
+    })
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Eraser className="h-5 w-5" />
+            Null Tokens
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Cells that equal one of these values (ignoring case and surrounding spaces) count as missing.
+            They apply to every import and can be applied to the open dataset.
+          </p>
+        </CardHeader>
+        <CardContent className="flex flex-col sm:flex-row gap-2">
+          <Input
+            value={tokenText}
+            onChange={event => setTokenText(event.target.value)}
+            placeholder="N/A, null, -, ?"
+            className="font-mono"
+          />
+          <Button onClick={() => onNullTokensChange(parseNullTokens(tokenText))}>Apply</Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Missing Values</CardTitle>
+          <p className="text-sm text-muted-foreground">
+            {report.completeRows.toLocaleString()} of {report.rowCount.toLocaleString()} rows
+            ({percent(report.completeRows, report.rowCount)}%) are complete
+          </p>
+        </CardHeader>
+        <CardContent>
+          {report.columns.length === 0 ? (
+            <div className="flex items-center gap-2 text-sm text-success">
+              <CheckCircle className="h-4 w-4" />
+              No missing values
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className="space-y-3">
+                {report.columns.map(column => (
+                  <div key={column.name} className="space-y-1">
+                    <div className="flex justify-between text-sm">
+                      <span className="font-medium truncate" title={column.name}>{column.name}</span>
+                      <span className="text-muted-foreground">
+                        {column.missing.toLocaleString()} ({percent(column.missing, report.rowCount)}%)
+                      </span>
+                    </div>
+                    <Progress value={percent(column.missing, report.rowCount)} className="h-2" />
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-3">
+                <h4 className="text-sm font-medium">Common patterns</h4>
+                {report.patterns.map(pattern => (
+                  <div key={pattern.columns.join('\u0000')} className="flex items-center justify-between gap-2 text-sm">
+                    <div className="flex flex-wrap gap-1">
+                      {pattern.columns.map(name => <Badge key={name} variant="outline">{name}</Badge>)}
+                    </div>
+                    <span className="text-muted-foreground whitespace-nowrap">{pattern.rows.toLocaleString()} rows</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {missingNames.length >= 2 && (
+            <div className="mt-6 space-y-2">
+              <h4 className="text-sm font-medium">Missing together</h4>
+              <div className="overflow-x-auto">
+                <div
+                  className="inline-grid gap-px text-xs"
+                  style={{ gridTemplateColumns: `minmax(6rem, max-content) repeat(${missingNames.length}, ${CELL_SIZE}px)` }}
+                >
+                  <div />
+                  {missingNames.map(name => (
+                    <div key={name} className="h-20 flex items-end justify-center pb-1" title={name}>
+                      <span className="[writing-mode:vertical-rl] rotate-180 truncate max-h-20">{name}</span>
+                    </div>
+                  ))}
+                  {missingNames.map(row => (
+                    <div key={row} className="contents">
+                      <div className="truncate pr-2 flex items-center justify-end" title={row}>{row}</div>
+                      {missingNames.map(column => {
+                        const value = row === column ? 1 : together.get(`${row}\u0000${column}`) ?? 0
+                        return (
+                          <div
+                            key={column}
+                            className="flex items-center justify-center font-mono text-[10px]"
+                            style={{
+                              height: CELL_SIZE,
+                              backgroundColor: `rgba(245, 158, 11, ${Math.max(0, value).toFixed(2)})`
+                            }}
+                            title={`${row} / ${column}: ${value.toFixed(2)}`}
+                          >
+                            {row === column ? '' : value.toFixed(1)}
+                          </div>
+                        )
+                      })}
+                    </div>
+                  ))}
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Correlation of the missing-value indicators: 1 means the columns are always missing in the same rows.
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {report.columns.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Wand2 className="h-5 w-5" />
+              Imputation
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Choose how to handle the gaps in each column. The result is added to the workspace as a new dataset.
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Column</TableHead>
+                  <TableHead>Missing</TableHead>
+                  <TableHead>Strategy</TableHead>
+                  <TableHead>Value</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.columns.map(column => {
+                  const datasetColumn = dataset.column(column.name)
+                  const strategy = plan[column.name]
+                  if (!datasetColumn) return null
+                  return (
+                    <TableRow key={column.name}>
+                      <TableCell className="font-medium">{column.name}</TableCell>
+                      <TableCell>{column.missing.toLocaleString()}</TableCell>
+                      <TableCell>
+                        <Select value={strategy?.method ?? KEEP} onValueChange={value => setMethod(column.name, value)}>
+                          <SelectTrigger className="w-40 h-8 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={KEEP}>Leave as is</SelectItem>
+                            {imputeMethods(datasetColumn).map(method => (
+                              <SelectItem key={method} value={method}>{IMPUTE_METHOD_LABELS[method]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                      <TableCell>
+                        {strategy?.method === 'constant' && (
+                          <Input
+                            className="h-8 w-40"
+                            value={strategy.value ?? ''}
+                            onChange={event => {
+                              const value = event.target.value
+                              setPlan(prev => ({ ...prev, [column.name]: { method: 'constant', value } }))
+                            }}
+                          />
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+            </Table>
+
+            <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+              {temporal.length > 0 ? (
+                <div className="space-y-1">
+                  <Label>Forward fill in order of</Label>
+                  <Select value={timeColumn} onValueChange={setTimeColumn}>
+                    <SelectTrigger className="w-48 h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={KEEP}>Row order</SelectItem>
+                      {temporal.map(column => <SelectItem key={column.name} value={column.name}>{column.name}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ) : <div />}
+              <Button
+                disabled={planned === 0 || constantMissing}
+                onClick={() => onImpute(activePlan, timeColumn === KEEP ? undefined : timeColumn)}
+              >
+                Create cleaned dataset
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
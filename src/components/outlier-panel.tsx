@@ -0,0 +1,130 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { AlertTriangle } from "lucide-react"
+import { Dataset } from "@/lib/dataset"
+import { ColumnInfo } from "@/lib/profiling"
+import { OUTLIER_METHOD_LABELS, OutlierMethod, OutlierReport } from "@/lib/outliers"
+
+interface OutlierPanelProps {
+  dataset: Dataset
+  columns: ColumnInfo[]
+  report: OutlierReport
+  onMethodChange: (method: OutlierMethod) => void
+  excluded: boolean
+  onExcludedChange: (excluded: boolean) => void
+}
+
+// Flagged rows listed in the table; the counts above it cover all of them
+const MAX_LISTED_ROWS = 100
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—'
+  if (typeof value === 'number') return Number.isInteger(value) ? value.toLocaleString() : value.toPrecision(4)
+  if (value instanceof Date) return value.toISOString().slice(0, 10)
+  return String(value)
+}
+
+export function OutlierPanel({ dataset, columns, report, onMethodChange, excluded, onExcludedChange }: OutlierPanelProps) {
+  const numerical = columns.filter(column => column.type === 'numerical')
+  // Which cells put a row on the list, for the univariate methods
+  const flaggedCells = new Map<number, Set<string>>()
+  for (const column of report.columns) {
+    for (const row of column.rows) {
+      const names = flaggedCells.get(row) ?? new Set<string>()
+      names.add(column.name)
+      flaggedCells.set(row, names)
+    }
+  }
+  // The most anomalous rows first when there are scores
+  const scores = report.scores
+  const listed = scores
+    ? [...report.rows].sort((a, b) => scores[b] - scores[a]).slice(0, MAX_LISTED_ROWS)
+    : report.rows.slice(0, MAX_LISTED_ROWS)
+
+  return (
+    <Card className="animate-fade-up">
+      <CardHeader className="space-y-4">
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-warning" />
+              Outliers
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              {report.rows.length.toLocaleString()} of {dataset.rowCount.toLocaleString()} rows flagged
+              {report.method === 'isolation-forest' ? ` across ${numerical.length} numerical columns` : ''}
+            </p>
+          </div>
+          <div className="flex items-center gap-4">
+            <Select value={report.method} onValueChange={value => onMethodChange(value as OutlierMethod)}>
+              <SelectTrigger className="w-44 h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(OUTLIER_METHOD_LABELS) as OutlierMethod[]).map(method => (
+                  <SelectItem key={method} value={method}>{OUTLIER_METHOD_LABELS[method]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex items-center gap-2">
+              <Switch id="exclude-outliers" checked={excluded} onCheckedChange={onExcludedChange} />
+              <Label htmlFor="exclude-outliers" className="text-sm">Exclude from charts</Label>
+            </div>
+          </div>
+        </div>
+
+        {report.columns.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {report.columns.map(column => (
+              <Badge key={column.name} variant={column.rows.length > 0 ? 'default' : 'outline'} className="font-normal">
+                {column.name}: {column.rows.length.toLocaleString()} outside [{formatValue(column.lower)}, {formatValue(column.upper)}]
+              </Badge>
+            ))}
+          </div>
+        )}
+      </CardHeader>
+      <CardContent>
+        {listed.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No rows are flagged by this method.</p>
+        ) : (
+          <div className="max-h-96 overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Row</TableHead>
+                  {scores && <TableHead>Score</TableHead>}
+                  {numerical.map(column => <TableHead key={column.name}>{column.name}</TableHead>)}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {listed.map(row => (
+                  <TableRow key={row}>
+                    <TableCell className="font-mono text-xs">{row + 1}</TableCell>
+                    {scores && <TableCell className="font-mono text-xs">{scores[row].toFixed(3)}</TableCell>}
+                    {numerical.map(column => (
+                      <TableCell
+                        key={column.name}
+                        className={`font-mono text-xs ${flaggedCells.get(row)?.has(column.name) ? 'text-destructive font-semibold' : ''}`}
+                      >
+                        {formatValue(dataset.value(column.name, row))}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {report.rows.length > listed.length && (
+              <p className="text-xs text-muted-foreground mt-2">
+                Showing {listed.length} of {report.rows.length.toLocaleString()} flagged rows
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,168 @@
+import { useRef } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Switch } from "@/components/ui/switch"
+import { AlertCircle, ArrowDown, ArrowUp, Download, History, Redo2, Trash2, Undo2, Upload, Workflow } from "lucide-react"
+import { PipelineStepForm } from "@/components/pipeline-step-form"
+import { Dataset } from "@/lib/dataset"
+import { PipelineStep, STEP_KIND_LABELS, StepResult, describeStep } from "@/lib/pipeline"
+
+interface PipelinePanelProps {
+  // Output of the current steps
+  dataset: Dataset
+  sourceRows: number
+  steps: PipelineStep[]
+  results: StepResult[]
+  canUndo: boolean
+  canRedo: boolean
+  onUndo: () => void
+  onRedo: () => void
+  onChange: (steps: PipelineStep[]) => void
+  // Steps saved for this file's schema, offered while the dataset has none
+  savedSteps: PipelineStep[]
+  onApplySaved: () => void
+  onExport: () => void
+  onImport: (file: File) => void
+}
+
+export function PipelinePanel({
+  dataset,
+  sourceRows,
+  steps,
+  results,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+  onChange,
+  savedSteps,
+  onApplySaved,
+  onExport,
+  onImport
+}: PipelinePanelProps) {
+  const fileInput = useRef<HTMLInputElement>(null)
+  const resultFor = new Map(results.map(result => [result.id, result]))
+
+  const update = (id: string, change: Partial<PipelineStep>) =>
+    onChange(steps.map(step => step.id === id ? { ...step, ...change } as PipelineStep : step))
+
+  const move = (index: number, offset: number) => {
+    const next = [...steps]
+    const [step] = next.splice(index, 1)
+    next.splice(index + offset, 0, step)
+    onChange(next)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Workflow className="h-5 w-5" />
+              Transformations
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Each change is a step replayed on the uploaded data ({sourceRows.toLocaleString()} rows).
+              Steps are saved as a recipe for this file's columns, so the next upload of the same export can be cleaned the same way.
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" onClick={onUndo} disabled={!canUndo}>
+              <Undo2 className="h-4 w-4 mr-2" />
+              Undo
+            </Button>
+            <Button variant="outline" size="sm" onClick={onRedo} disabled={!canRedo}>
+              <Redo2 className="h-4 w-4 mr-2" />
+              Redo
+            </Button>
+            <Button variant="outline" size="sm" onClick={onExport} disabled={steps.length === 0}>
+              <Download className="h-4 w-4 mr-2" />
+              Export recipe
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => fileInput.current?.click()}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import recipe
+            </Button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={event => {
+                const file = event.target.files?.[0]
+                if (file) onImport(file)
+                event.target.value = ''
+              }}
+            />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {steps.length === 0 && savedSteps.length > 0 && (
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 rounded-md border border-primary/40 bg-primary/5 p-3 text-sm">
+            <div className="flex items-center gap-2">
+              <History className="h-4 w-4 text-primary" />
+              A saved recipe with {savedSteps.length} step{savedSteps.length === 1 ? '' : 's'} matches this file's columns.
+            </div>
+            <Button size="sm" onClick={onApplySaved}>Apply recipe</Button>
+          </div>
+        )}
+
+        {steps.length > 0 && (
+          <ol className="space-y-2">
+            {steps.map((step, index) => {
+              const result = resultFor.get(step.id)
+              return (
+                <li key={step.id} className={`flex items-center gap-3 rounded-md border p-2 text-sm ${step.enabled ? '' : 'opacity-60'}`}>
+                  <span className="w-6 text-center text-xs text-muted-foreground">{index + 1}</span>
+                  <Switch
+                    checked={step.enabled}
+                    onCheckedChange={enabled => update(step.id, { enabled })}
+                    aria-label={step.enabled ? 'Disable step' : 'Enable step'}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline">{STEP_KIND_LABELS[step.kind]}</Badge>
+                      <span className="truncate font-mono text-xs" title={describeStep(step)}>{describeStep(step)}</span>
+                    </div>
+                    {result?.status === 'error' && (
+                      <div className="flex items-center gap-1 text-xs text-destructive mt-1">
+                        <AlertCircle className="h-3 w-3" />
+                        {result.message} — the step was skipped
+                      </div>
+                    )}
+                    {result?.status === 'ok' && result.message && (
+                      <div className="text-xs text-muted-foreground mt-1">{result.message}</div>
+                    )}
+                  </div>
+                  {result && result.status !== 'skipped' && (
+                    <span className="text-xs text-muted-foreground whitespace-nowrap">{result.rowCount.toLocaleString()} rows</span>
+                  )}
+                  <Button variant="ghost" size="icon" className="h-7 w-7" disabled={index === 0} onClick={() => move(index, -1)} aria-label="Move step up">
+                    <ArrowUp className="h-3 w-3" />
+                  </Button>
+                  <Button variant="ghost" size="icon" className="h-7 w-7" disabled={index === steps.length - 1} onClick={() => move(index, 1)} aria-label="Move step down">
+                    <ArrowDown className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => onChange(steps.filter(other => other.id !== step.id))}
+                    aria-label="Remove step"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </li>
+              )
+            })}
+          </ol>
+        )}
+
+        <PipelineStepForm dataset={dataset} onAdd={step => onChange([...steps, step])} />
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,276 @@
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Plus } from "lucide-react"
+import { Dataset } from "@/lib/dataset"
+import { IMPUTE_METHOD_LABELS, ImputeMethod, imputeMethods } from "@/lib/imputation"
+import { MATCH_METHOD_LABELS, MERGE_STRATEGY_LABELS, MatchMethod, MergeStrategy } from "@/lib/duplicates"
+import {
+  CAST_TYPE_LABELS,
+  CastType,
+  PipelineStep,
+  STEP_KIND_LABELS,
+  StepKind,
+  TEXT_CASE_LABELS,
+  TextCase,
+  createStepId
+} from "@/lib/pipeline"
+
+interface PipelineStepFormProps {
+  // Output of the current steps; new steps run on it
+  dataset: Dataset
+  onAdd: (step: PipelineStep) => void
+}
+
+const STEP_KINDS = Object.keys(STEP_KIND_LABELS) as StepKind[]
+
+export function PipelineStepForm({ dataset, onAdd }: PipelineStepFormProps) {
+  const [kind, setKind] = useState<StepKind>('filter')
+  const [column, setColumn] = useState('')
+  const [columns, setColumns] = useState<string[]>([])
+  const [text, setText] = useState('')
+  const [name, setName] = useState('')
+  const [castTo, setCastTo] = useState<CastType>('number')
+  const [trim, setTrim] = useState(true)
+  const [textCase, setTextCase] = useState<TextCase>('none')
+  const [imputeMethod, setImputeMethod] = useState<ImputeMethod>('constant')
+  const [matchMethod, setMatchMethod] = useState<MatchMethod>('exact')
+  const [strategy, setStrategy] = useState<MergeStrategy>('keep-first')
+
+  const names = dataset.columnNames
+  const selected = dataset.column(column)
+  const textColumns = dataset.columns.filter(candidate => candidate.kind === 'category' || candidate.kind === 'text').map(candidate => candidate.name)
+  const splitNames = text.split(',').map(part => part.trim()).filter(Boolean)
+
+  const build = (): PipelineStep | null => {
+    const base = { id: createStepId(), enabled: true }
+    switch (kind) {
+      case 'filter':
+        return text.trim() ? { ...base, kind, expression: text.trim() } : null
+      case 'rename':
+        return selected && name.trim() ? { ...base, kind, column, to: name.trim() } : null
+      case 'cast':
+        return selected ? { ...base, kind, column, to: castTo } : null
+      case 'impute':
+        return selected ? { ...base, kind, plan: { [column]: { method: imputeMethod, value: imputeMethod === 'constant' ? name : undefined } } } : null
+      case 'dedupe':
+        return { ...base, kind, match: { method: matchMethod, keys: columns, threshold: 0.9 }, strategy }
+      case 'derive':
+        return name.trim() && text.trim() ? { ...base, kind, name: name.trim(), expression: text.trim() } : null
+      case 'drop':
+        return columns.length > 0 ? { ...base, kind, columns } : null
+      case 'split':
+        return selected && name && splitNames.length > 0 ? { ...base, kind, column, separator: name, into: splitNames } : null
+      case 'normalize':
+        return selected && (trim || textCase !== 'none') ? { ...base, kind, column, trim, case: textCase } : null
+    }
+  }
+
+  const step = build()
+
+  const add = () => {
+    if (!step) return
+    onAdd(step)
+    setText('')
+    setName('')
+    setColumns([])
+  }
+
+  const changeKind = (next: StepKind) => {
+    setKind(next)
+    setText('')
+    setName('')
+    setColumns([])
+  }
+
+  const columnSelect = (options: string[]) => (
+    <div className="space-y-1">
+      <Label>Column</Label>
+      <Select value={column} onValueChange={value => {
+        setColumn(value)
+        if (kind === 'split') setText(`${value}_1, ${value}_2`)
+      }}>
+        <SelectTrigger><SelectValue placeholder="Choose a column" /></SelectTrigger>
+        <SelectContent>
+          {options.map(option => <SelectItem key={option} value={option}>{option}</SelectItem>)}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+
+  const columnChecklist = (label: string) => (
+    <div className="space-y-1 md:col-span-2">
+      <Label>{label}</Label>
+      <div className="max-h-40 overflow-y-auto rounded-md border p-2 grid grid-cols-2 md:grid-cols-3 gap-1">
+        {names.map(option => (
+          <label key={option} className="flex items-center gap-2 text-sm cursor-pointer">
+            <Checkbox
+              checked={columns.includes(option)}
+              onCheckedChange={checked => setColumns(prev => checked ? [...prev, option] : prev.filter(other => other !== option))}
+            />
+            <span className="truncate" title={option}>{option}</span>
+          </label>
+        ))}
+      </div>
+    </div>
+  )
+
+  return (
+    <div className="space-y-3 rounded-md border p-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <Label>Step</Label>
+          <Select value={kind} onValueChange={value => changeKind(value as StepKind)}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {STEP_KINDS.map(option => <SelectItem key={option} value={option}>{STEP_KIND_LABELS[option]}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {kind === 'filter' && (
+          <div className="space-y-1 md:col-span-2">
+            <Label>Keep rows where</Label>
+            <Input value={text} onChange={event => setText(event.target.value)} placeholder="amount > 0 and not isnull(customer)" className="font-mono" />
+          </div>
+        )}
+
+        {kind === 'rename' && (
+          <>
+            {columnSelect(names)}
+            <div className="space-y-1">
+              <Label>New name</Label>
+              <Input value={name} onChange={event => setName(event.target.value)} />
+            </div>
+          </>
+        )}
+
+        {kind === 'cast' && (
+          <>
+            {columnSelect(names)}
+            <div className="space-y-1">
+              <Label>Convert to</Label>
+              <Select value={castTo} onValueChange={value => setCastTo(value as CastType)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(CAST_TYPE_LABELS) as CastType[]).map(option => (
+                    <SelectItem key={option} value={option}>{CAST_TYPE_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </>
+        )}
+
+        {kind === 'impute' && (
+          <>
+            {columnSelect(names)}
+            <div className="space-y-1">
+              <Label>Method</Label>
+              <Select value={imputeMethod} onValueChange={value => setImputeMethod(value as ImputeMethod)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(selected ? imputeMethods(selected) : Object.keys(IMPUTE_METHOD_LABELS) as ImputeMethod[]).map(option => (
+                    <SelectItem key={option} value={option}>{IMPUTE_METHOD_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {imputeMethod === 'constant' && (
+              <div className="space-y-1">
+                <Label>Value</Label>
+                <Input value={name} onChange={event => setName(event.target.value)} />
+              </div>
+            )}
+          </>
+        )}
+
+        {kind === 'dedupe' && (
+          <>
+            <div className="space-y-1">
+              <Label>Match</Label>
+              <Select value={matchMethod} onValueChange={value => setMatchMethod(value as MatchMethod)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(MATCH_METHOD_LABELS) as MatchMethod[]).map(option => (
+                    <SelectItem key={option} value={option}>{MATCH_METHOD_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Keep</Label>
+              <Select value={strategy} onValueChange={value => setStrategy(value as MergeStrategy)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(MERGE_STRATEGY_LABELS) as MergeStrategy[]).map(option => (
+                    <SelectItem key={option} value={option}>{MERGE_STRATEGY_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {columnChecklist('Compare columns (all when none are checked)')}
+          </>
+        )}
+
+        {kind === 'derive' && (
+          <>
+            <div className="space-y-1">
+              <Label>Column name</Label>
+              <Input value={name} onChange={event => setName(event.target.value)} placeholder="margin" />
+            </div>
+            <div className="space-y-1">
+              <Label>Formula</Label>
+              <Input value={text} onChange={event => setText(event.target.value)} placeholder="revenue - cost" className="font-mono" />
+            </div>
+          </>
+        )}
+
+        {kind === 'drop' && columnChecklist('Columns to drop')}
+
+        {kind === 'split' && (
+          <>
+            {columnSelect(names)}
+            <div className="space-y-1">
+              <Label>Separator</Label>
+              <Input value={name} onChange={event => setName(event.target.value)} placeholder="," className="font-mono" />
+            </div>
+            <div className="space-y-1 md:col-span-3">
+              <Label>New columns, comma separated</Label>
+              <Input value={text} onChange={event => setText(event.target.value)} placeholder="first_name, last_name" />
+            </div>
+          </>
+        )}
+
+        {kind === 'normalize' && (
+          <>
+            {columnSelect(textColumns)}
+            <div className="space-y-1">
+              <Label>Case</Label>
+              <Select value={textCase} onValueChange={value => setTextCase(value as TextCase)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(TEXT_CASE_LABELS) as TextCase[]).map(option => (
+                    <SelectItem key={option} value={option}>{TEXT_CASE_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <label className="flex items-center gap-2 text-sm md:col-span-3 cursor-pointer">
+              <Checkbox checked={trim} onCheckedChange={checked => setTrim(checked === true)} />
+              Trim surrounding spaces and collapse repeated ones
+            </label>
+          </>
+        )}
+      </div>
+
+      <Button size="sm" onClick={add} disabled={!step}>
+        <Plus className="h-4 w-4 mr-2" />
+        Add step
+      </Button>
+    </div>
+  )
+}
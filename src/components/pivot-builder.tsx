@@ -0,0 +1,338 @@
+import { DragEvent, useMemo, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
+import { BarChart3, GripVertical, Plus, Table2, X } from "lucide-react"
+import { Dataset } from "@/lib/dataset"
+import { ColumnInfo } from "@/lib/profiling"
+import { ChartConfig } from "@/lib/auto-charts"
+import { AGGREGATION_LABELS, Aggregation, TEXT_AGGREGATIONS, measureLabel } from "@/lib/aggregation"
+import { PivotSpec, PivotTable, buildPivot, pivotChart } from "@/lib/pivot"
+
+interface PivotBuilderProps {
+  dataset: Dataset
+  columns: ColumnInfo[]
+  onVisualize: (chart: ChartConfig) => void
+}
+
+type Zone = 'rows' | 'columns' | 'values'
+type Formatting = 'none' | 'scale' | 'bars'
+
+// What is being dragged: a field from the list, or an entry of one of the zones
+interface DragPayload {
+  field: string
+  from: Zone | 'fields'
+  index: number
+}
+
+const ZONE_LABELS: Record<Zone, string> = { rows: 'Rows', columns: 'Columns', values: 'Values' }
+const FORMATTING_LABELS: Record<Formatting, string> = { none: 'No formatting', scale: 'Colour scale', bars: 'Data bars' }
+const DRAG_TYPE = 'application/x-pivot-field'
+const EMPTY_SPEC: PivotSpec = { rows: [], columns: [], values: [] }
+
+const formatValue = (value: number | null) =>
+  value === null ? '' : value.toLocaleString(undefined, { maximumFractionDigits: 2 })
+
+function aggregationsFor(info: ColumnInfo | undefined): Aggregation[] {
+  return info?.type === 'numerical'
+    ? Object.keys(AGGREGATION_LABELS) as Aggregation[]
+    : TEXT_AGGREGATIONS
+}
+
+function withField(spec: PivotSpec, zone: Zone, field: string, info: ColumnInfo | undefined): PivotSpec {
+  if (zone === 'values') {
+    return { ...spec, values: [...spec.values, { column: field, aggregation: info?.type === 'numerical' ? 'sum' : 'count' }] }
+  }
+  // A field groups either rows or columns, not both
+  const other: Zone = zone === 'rows' ? 'columns' : 'rows'
+  return { ...spec, [other]: spec[other].filter(name => name !== field), [zone]: [...spec[zone].filter(name => name !== field), field] }
+}
+
+function withoutEntry(spec: PivotSpec, zone: Zone, index: number): PivotSpec {
+  return zone === 'values'
+    ? { ...spec, values: spec.values.filter((_, i) => i !== index) }
+    : { ...spec, [zone]: spec[zone].filter((_, i) => i !== index) }
+}
+
+function PivotGrid({ table, formatting, subtotals, totals }: { table: PivotTable; formatting: Formatting; subtotals: boolean; totals: boolean }) {
+  const { spec } = table
+  const measureCount = spec.values.length
+  const hasColumns = table.columnKeys.length > 0
+  // The last group of cells is the row total whenever there are column fields
+  const groupCount = hasColumns ? table.columnKeys.length + (totals ? 1 : 0) : 1
+  const rows = table.rows.filter(row => (subtotals || row.kind !== 'subtotal') && (totals || row.kind !== 'total'))
+  const labelColumns = Math.max(1, spec.rows.length)
+
+  const cellStyle = (value: number | null, measure: number, highlighted: boolean) => {
+    if (!highlighted || value === null || formatting === 'none') return undefined
+    const { min, max } = table.ranges[measure]
+    const share = max === min ? 1 : (value - min) / (max - min)
+    if (formatting === 'scale') return { backgroundColor: `rgba(37, 99, 235, ${(0.08 + share * 0.5).toFixed(2)})` }
+    return { backgroundImage: `linear-gradient(to right, rgba(16, 185, 129, 0.35) ${(share * 100).toFixed(1)}%, transparent ${(share * 100).toFixed(1)}%)` }
+  }
+
+  return (
+    <div className="overflow-auto max-h-[600px] rounded-md border">
+      <table className="text-sm border-collapse w-max min-w-full">
+        <thead className="sticky top-0 bg-secondary z-10">
+          {hasColumns && (
+            <tr>
+              <th colSpan={labelColumns} className="px-3 py-2 text-left font-medium border-b">{spec.columns.join(' / ')}</th>
+              {table.columnKeys.map((labels, index) => (
+                <th key={index} colSpan={measureCount} className="px-3 py-2 text-center font-medium border-b border-l">
+                  {labels.join(' / ')}
+                </th>
+              ))}
+              {totals && <th colSpan={measureCount} className="px-3 py-2 text-center font-semibold border-b border-l">Total</th>}
+            </tr>
+          )}
+          <tr>
+            {spec.rows.length > 0
+              ? spec.rows.map(name => <th key={name} className="px-3 py-2 text-left font-medium border-b">{name}</th>)
+              : <th className="px-3 py-2 border-b" />}
+            {Array.from({ length: groupCount }, (_, group) => spec.values.map((measure, m) => (
+              <th key={`${group}-${m}`} className="px-3 py-2 text-right font-medium border-b border-l whitespace-nowrap">
+                {measureLabel(measure)}
+              </th>
+            )))}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row, index) => {
+            const emphasis = row.kind === 'total' ? 'font-semibold bg-secondary/60' : row.kind === 'subtotal' ? 'font-medium bg-secondary/30' : ''
+            // Hidden grand totals drop the last group of cells
+            const cells = hasColumns && !totals ? row.cells.slice(0, table.columnKeys.length * measureCount) : row.cells
+            return (
+              <tr key={index} className={`border-b ${emphasis}`}>
+                {row.kind === 'total'
+                  ? <td colSpan={labelColumns} className="px-3 py-1.5">Grand total</td>
+                  : Array.from({ length: labelColumns }, (_, level) => (
+                    <td key={level} className="px-3 py-1.5 whitespace-nowrap">
+                      {level < row.labels.length ? row.labels[level] : level === row.labels.length ? 'Total' : ''}
+                    </td>
+                  ))}
+                {cells.map((value, cell) => {
+                  const measure = cell % measureCount
+                  const inTotalColumn = hasColumns && Math.floor(cell / measureCount) === table.columnKeys.length
+                  return (
+                    <td
+                      key={cell}
+                      className="px-3 py-1.5 text-right font-mono border-l"
+                      style={cellStyle(value, measure, row.kind === 'leaf' && !inTotalColumn)}
+                    >
+                      {formatValue(value)}
+                    </td>
+                  )
+                })}
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+export function PivotBuilder({ dataset, columns, onVisualize }: PivotBuilderProps) {
+  const [spec, setSpec] = useState<PivotSpec>(EMPTY_SPEC)
+  const [formatting, setFormatting] = useState<Formatting>('scale')
+  const [subtotals, setSubtotals] = useState(true)
+  const [totals, setTotals] = useState(true)
+  const [stacked, setStacked] = useState(false)
+  const [dropTarget, setDropTarget] = useState<Zone | 'fields' | null>(null)
+  const infos = useMemo(() => new Map(columns.map(info => [info.name, info])), [columns])
+
+  const table = useMemo(
+    () => spec.values.length > 0 ? buildPivot(dataset, columns, spec) : null,
+    [dataset, columns, spec]
+  )
+
+  const startDrag = (event: DragEvent, payload: DragPayload) => {
+    event.dataTransfer.setData(DRAG_TYPE, JSON.stringify(payload))
+    event.dataTransfer.effectAllowed = 'move'
+  }
+
+  const drop = (event: DragEvent, target: Zone | 'fields') => {
+    event.preventDefault()
+    setDropTarget(null)
+    const data = event.dataTransfer.getData(DRAG_TYPE)
+    if (!data) return
+    const { field, from, index } = JSON.parse(data) as DragPayload
+    if (from === target && target !== 'values') return
+    setSpec(prev => {
+      const removed = from === 'fields' ? prev : withoutEntry(prev, from, index)
+      return target === 'fields' ? removed : withField(removed, target, field, infos.get(field))
+    })
+  }
+
+  const dropProps = (target: Zone | 'fields') => ({
+    onDragOver: (event: DragEvent) => {
+      if (!event.dataTransfer.types.includes(DRAG_TYPE)) return
+      event.preventDefault()
+      setDropTarget(target)
+    },
+    onDragLeave: () => setDropTarget(current => current === target ? null : current),
+    onDrop: (event: DragEvent) => drop(event, target)
+  })
+
+  const zoneClass = (target: Zone | 'fields') =>
+    `min-h-[52px] rounded-md border-2 border-dashed p-2 flex flex-wrap gap-2 transition-colors ${dropTarget === target ? 'border-primary bg-primary/5' : 'border-border'}`
+
+  const visualize = () => {
+    const chart = table && pivotChart(table, stacked)
+    if (chart) onVisualize(chart)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Table2 className="h-5 w-5" />
+              Pivot Table
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Drag fields into rows, columns and values, or use a field's + menu to place it.
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-3">
+            <Select value={formatting} onValueChange={value => setFormatting(value as Formatting)}>
+              <SelectTrigger className="w-40 h-9"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {(Object.keys(FORMATTING_LABELS) as Formatting[]).map(option => (
+                  <SelectItem key={option} value={option}>{FORMATTING_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex items-center gap-2">
+              <Switch id="pivot-subtotals" checked={subtotals} onCheckedChange={setSubtotals} />
+              <Label htmlFor="pivot-subtotals" className="text-sm">Subtotals</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="pivot-totals" checked={totals} onCheckedChange={setTotals} />
+              <Label htmlFor="pivot-totals" className="text-sm">Grand totals</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="pivot-stacked" checked={stacked} onCheckedChange={setStacked} />
+              <Label htmlFor="pivot-stacked" className="text-sm">Stacked</Label>
+            </div>
+            <Button size="sm" onClick={visualize} disabled={!table}>
+              <BarChart3 className="h-4 w-4 mr-2" />
+              Visualize
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-4">
+          <div className="space-y-1">
+            <Label>Fields</Label>
+            <div className={`${zoneClass('fields')} max-h-64 overflow-y-auto`} {...dropProps('fields')}>
+              {columns.map(info => (
+                <Badge
+                  key={info.name}
+                  variant="outline"
+                  className="cursor-grab gap-1"
+                  draggable
+                  onDragStart={event => startDrag(event, { field: info.name, from: 'fields', index: -1 })}
+                >
+                  <GripVertical className="h-3 w-3 text-muted-foreground" />
+                  {info.name}
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <button type="button" aria-label={`Place ${info.name}`}>
+                        <Plus className="h-3 w-3" />
+                      </button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent>
+                      {(Object.keys(ZONE_LABELS) as Zone[]).map(zone => (
+                        <DropdownMenuItem key={zone} onSelect={() => setSpec(prev => withField(prev, zone, info.name, info))}>
+                          Add to {ZONE_LABELS[zone].toLowerCase()}
+                        </DropdownMenuItem>
+                      ))}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </Badge>
+              ))}
+            </div>
+          </div>
+
+          {(['rows', 'columns'] as const).map(zone => (
+            <div key={zone} className="space-y-1">
+              <Label>{ZONE_LABELS[zone]}</Label>
+              <div className={zoneClass(zone)} {...dropProps(zone)}>
+                {spec[zone].map((field, index) => (
+                  <Badge
+                    key={field}
+                    variant="secondary"
+                    className="cursor-grab gap-1"
+                    draggable
+                    onDragStart={event => startDrag(event, { field, from: zone, index })}
+                  >
+                    {field}
+                    <button type="button" onClick={() => setSpec(prev => withoutEntry(prev, zone, index))} aria-label={`Remove ${field}`}>
+                      <X className="h-3 w-3" />
+                    </button>
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          ))}
+
+          <div className="space-y-1">
+            <Label>{ZONE_LABELS.values}</Label>
+            <div className={`${zoneClass('values')} flex-col`} {...dropProps('values')}>
+              {spec.values.map((measure, index) => (
+                <div
+                  key={index}
+                  className="flex items-center gap-1 rounded-md bg-secondary px-2 py-1 text-xs cursor-grab"
+                  draggable
+                  onDragStart={event => startDrag(event, { field: measure.column, from: 'values', index })}
+                >
+                  <Select
+                    value={measure.aggregation}
+                    onValueChange={value => setSpec(prev => ({
+                      ...prev,
+                      values: prev.values.map((other, i) => i === index ? { ...other, aggregation: value as Aggregation } : other)
+                    }))}
+                  >
+                    <SelectTrigger className="h-7 w-32 text-xs"><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {aggregationsFor(infos.get(measure.column)).map(option => (
+                        <SelectItem key={option} value={option}>{AGGREGATION_LABELS[option]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <span className="flex-1 truncate" title={measure.column}>{measure.column}</span>
+                  <button type="button" onClick={() => setSpec(prev => withoutEntry(prev, 'values', index))} aria-label={`Remove ${measureLabel(measure)}`}>
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {table ? (
+          <>
+            {(table.truncatedRows || table.truncatedColumns) && (
+              <p className="text-xs text-muted-foreground">
+                Showing the first {table.truncatedRows ? `${table.rows.filter(row => row.kind === 'leaf').length.toLocaleString()} row groups` : ''}
+                {table.truncatedRows && table.truncatedColumns ? ' and ' : ''}
+                {table.truncatedColumns ? `${table.columnKeys.length} column groups` : ''}; totals include every row.
+              </p>
+            )}
+            <PivotGrid table={table} formatting={formatting} subtotals={subtotals} totals={totals} />
+          </>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-8">Add at least one field to Values to build the table.</p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
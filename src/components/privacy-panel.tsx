@@ -0,0 +1,79 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ShieldAlert } from "lucide-react"
+import { ColumnInfo } from "@/lib/profiling"
+import { PII_KIND_LABELS, PII_POLICY_LABELS, PiiPolicies, PiiPolicy, redactValue } from "@/lib/pii"
+
+interface PrivacyPanelProps {
+  columns: ColumnInfo[]
+  // Effective policy per column, as resolved from the detection and the user's choices
+  policies: PiiPolicies
+  onPolicyChange: (column: string, policy: PiiPolicy) => void
+}
+
+export function PrivacyPanel({ columns, policies, onPolicyChange }: PrivacyPanelProps) {
+  // Flagged columns first, the rest keep their order
+  const ordered = [...columns.filter(column => column.pii), ...columns.filter(column => !column.pii)]
+  const flagged = columns.filter(column => column.pii).length
+
+  return (
+    <Card className="animate-fade-up">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className="h-5 w-5" />
+          Personal Data
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          {flagged === 0 ? 'No columns look like personal data.' : `${flagged} column${flagged === 1 ? ' looks' : 's look'} like personal data.`}
+          {' '}These policies apply to everything sent to the assistant and to exports.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="max-h-96 overflow-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Column</TableHead>
+                <TableHead>Detected</TableHead>
+                <TableHead>Policy</TableHead>
+                <TableHead>Example as sent</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {ordered.map(column => {
+                const policy = policies[column.name] ?? 'send'
+                const example = column.topValues?.[0]?.value
+                const sent = example === undefined ? undefined : redactValue(example, policy)
+                return (
+                  <TableRow key={column.name}>
+                    <TableCell className="font-medium">{column.name}</TableCell>
+                    <TableCell>
+                      {column.pii && <Badge variant="destructive">{PII_KIND_LABELS[column.pii]}</Badge>}
+                    </TableCell>
+                    <TableCell>
+                      <Select value={policy} onValueChange={value => onPolicyChange(column.name, value as PiiPolicy)}>
+                        <SelectTrigger className="w-32 h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(PII_POLICY_LABELS) as PiiPolicy[]).map(p => (
+                            <SelectItem key={p} value={p}>{PII_POLICY_LABELS[p]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell className="font-mono text-xs text-muted-foreground">
+                      {sent === undefined ? '' : sent ?? 'not sent'}
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
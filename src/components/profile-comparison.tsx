@@ -0,0 +1,172 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { GitCompare, Pin, PinOff } from "lucide-react"
+import { BaselineProfile, Change, ColumnDrift, DriftLevel, ProfileComparison as Comparison } from "@/lib/drift"
+
+interface ProfileComparisonProps {
+  baseline: BaselineProfile | null
+  comparison: Comparison | null
+  // Name of the dataset that would be pinned
+  activeName: string
+  onPin: () => void
+  onUnpin: () => void
+}
+
+const LEVEL_ORDER: Record<DriftLevel, number> = { significant: 0, moderate: 1, none: 2 }
+
+function formatNumber(value: number): string {
+  if (Number.isInteger(value)) return value.toLocaleString()
+  return Math.abs(value) >= 1000 ? value.toLocaleString(undefined, { maximumFractionDigits: 1 }) : value.toPrecision(4)
+}
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`
+
+function ChangeCell({ change, format = formatNumber }: { change?: Change; format?: (value: number) => string }) {
+  if (!change) return <span className="text-muted-foreground">—</span>
+  const changed = change.before !== change.after
+  return (
+    <span className={changed ? '' : 'text-muted-foreground'}>
+      {format(change.before)}{changed && <> → <span className="font-medium">{format(change.after)}</span></>}
+    </span>
+  )
+}
+
+function LevelBadge({ level }: { level: DriftLevel }) {
+  if (level === 'significant') return <Badge variant="destructive">Significant</Badge>
+  if (level === 'moderate') return <Badge className="bg-warning text-warning-foreground">Moderate</Badge>
+  return <Badge variant="outline">Stable</Badge>
+}
+
+function rowDelta({ before, after }: Change): string {
+  const delta = after - before
+  const sign = delta > 0 ? '+' : ''
+  const relative = before > 0 ? ` (${sign}${((delta / before) * 100).toFixed(1)}%)` : ''
+  return `${sign}${delta.toLocaleString()}${relative}`
+}
+
+export function ProfileComparison({ baseline, comparison, activeName, onPin, onUnpin }: ProfileComparisonProps) {
+  const drifts: ColumnDrift[] = comparison
+    ? [...comparison.columns].sort((a, b) => LEVEL_ORDER[a.level] - LEVEL_ORDER[b.level] || (b.psi ?? 0) - (a.psi ?? 0))
+    : []
+  const significant = drifts.filter(drift => drift.level === 'significant').length
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <GitCompare className="h-5 w-5" />
+                Compare with Baseline
+              </CardTitle>
+              <p className="text-sm text-muted-foreground">
+                {baseline
+                  ? `Baseline: ${baseline.name}, pinned ${new Date(baseline.pinnedAt).toLocaleString()}`
+                  : 'Pin a profile as the baseline, then open a newer upload to see what changed.'}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              {baseline && (
+                <Button variant="outline" onClick={onUnpin}>
+                  <PinOff className="h-4 w-4 mr-2" />
+                  Unpin
+                </Button>
+              )}
+              <Button onClick={onPin}>
+                <Pin className="h-4 w-4 mr-2" />
+                Pin {activeName}
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        {comparison && (
+          <CardContent className="grid grid-cols-1 md:grid-cols-4 gap-4 text-sm">
+            <div>
+              <div className="text-muted-foreground">Rows</div>
+              <div className="text-lg font-bold">
+                {comparison.rowCount.before.toLocaleString()} → {comparison.rowCount.after.toLocaleString()}
+              </div>
+              <div className="text-xs text-muted-foreground">{rowDelta(comparison.rowCount)}</div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">Added columns</div>
+              <div className="flex flex-wrap gap-1 mt-1">
+                {comparison.added.length === 0 ? '—' : comparison.added.map(column => (
+                  <Badge key={column.name} className="bg-success text-success-foreground">{column.name}</Badge>
+                ))}
+              </div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">Removed columns</div>
+              <div className="flex flex-wrap gap-1 mt-1">
+                {comparison.removed.length === 0 ? '—' : comparison.removed.map(column => (
+                  <Badge key={column.name} variant="destructive">{column.name}</Badge>
+                ))}
+              </div>
+            </div>
+            <div>
+              <div className="text-muted-foreground">Retyped columns</div>
+              <div className="flex flex-wrap gap-1 mt-1">
+                {comparison.retyped.length === 0 ? '—' : comparison.retyped.map(change => (
+                  <Badge key={change.name} variant="outline" className="border-warning text-warning">
+                    {change.name}: {change.before} → {change.after}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          </CardContent>
+        )}
+      </Card>
+
+      {comparison && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Column Drift</CardTitle>
+            <p className="text-sm text-muted-foreground">
+              {significant === 0
+                ? 'No column shifted significantly.'
+                : `${significant} column${significant === 1 ? '' : 's'} shifted significantly.`}
+              {' '}PSI above 0.25 or a KS test with p &lt; 0.001 and D ≥ 0.1 counts as significant.
+            </p>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Column</TableHead>
+                  <TableHead>Null rate</TableHead>
+                  <TableHead>Mean</TableHead>
+                  <TableHead>Unique values</TableHead>
+                  <TableHead>PSI</TableHead>
+                  <TableHead>KS (p)</TableHead>
+                  <TableHead>Drift</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {drifts.map(drift => (
+                  <TableRow key={drift.name} className={drift.level === 'significant' ? 'bg-destructive/10' : ''}>
+                    <TableCell>
+                      <div className="font-medium">{drift.name}</div>
+                      <div className="text-xs text-muted-foreground">{drift.type}</div>
+                    </TableCell>
+                    <TableCell className="text-xs"><ChangeCell change={drift.nullRate} format={formatPercent} /></TableCell>
+                    <TableCell className="text-xs"><ChangeCell change={drift.mean} /></TableCell>
+                    <TableCell className="text-xs"><ChangeCell change={drift.cardinality} /></TableCell>
+                    <TableCell className="font-mono text-xs">{drift.psi === undefined ? '—' : drift.psi.toFixed(3)}</TableCell>
+                    <TableCell className="font-mono text-xs">
+                      {drift.ks === undefined ? '—' : `${drift.ks.toFixed(3)} (${drift.ksPValue < 0.001 ? '<0.001' : drift.ksPValue.toFixed(3)})`}
+                    </TableCell>
+                    <TableCell><LevelBadge level={drift.level} /></TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
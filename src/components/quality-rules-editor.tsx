@@ -0,0 +1,216 @@
+import { useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ListChecks, Plus, Trash2 } from "lucide-react"
+import {
+  COMPARE_OPERATORS,
+  CompareOperator,
+  QualityRule,
+  RULE_KIND_LABELS,
+  RuleKind,
+  createRuleId,
+  describeRule
+} from "@/lib/quality-rules"
+
+// Another workspace dataset that reference rules can point at
+export interface RuleReference {
+  tableName: string
+  name: string
+  columnNames: string[]
+}
+
+interface QualityRulesEditorProps {
+  columnNames: string[]
+  references: RuleReference[]
+  rules: QualityRule[]
+  onChange: (rules: QualityRule[]) => void
+}
+
+const optionalNumber = (text: string) => text.trim() === '' ? undefined : Number(text)
+
+export function QualityRulesEditor({ columnNames, references, rules, onChange }: QualityRulesEditorProps) {
+  const [kind, setKind] = useState<RuleKind>('not-null')
+  const [column, setColumn] = useState(columnNames[0] ?? '')
+  const [min, setMin] = useState('')
+  const [max, setMax] = useState('')
+  const [pattern, setPattern] = useState('')
+  const [values, setValues] = useState('')
+  const [operator, setOperator] = useState<CompareOperator>('>=')
+  const [otherColumn, setOtherColumn] = useState(columnNames[1] ?? columnNames[0] ?? '')
+  const [table, setTable] = useState(references[0]?.tableName ?? '')
+  const [referenceColumn, setReferenceColumn] = useState('')
+  const referenceColumns = references.find(reference => reference.tableName === table)?.columnNames ?? []
+
+  // The rule described by the form, or null while it is incomplete
+  const draft = ((): QualityRule | null => {
+    const id = createRuleId()
+    switch (kind) {
+      case 'not-null':
+      case 'unique':
+        return { id, column, kind }
+      case 'range': {
+        const lower = optionalNumber(min)
+        const upper = optionalNumber(max)
+        if ((lower === undefined && upper === undefined) || Number.isNaN(lower) || Number.isNaN(upper)) return null
+        return { id, column, kind, min: lower, max: upper }
+      }
+      case 'pattern':
+        return pattern ? { id, column, kind, pattern } : null
+      case 'allowed-values': {
+        const allowed = values.split(',').map(value => value.trim()).filter(Boolean)
+        return allowed.length > 0 ? { id, column, kind, values: allowed } : null
+      }
+      case 'compare':
+        return otherColumn && otherColumn !== column ? { id, column, kind, operator, otherColumn } : null
+      case 'reference':
+        return table && referenceColumn ? { id, column, kind, table, referenceColumn } : null
+    }
+  })()
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListChecks className="h-5 w-5" />
+          Quality Rules
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Rules are saved for this set of columns and run again whenever a file with the same columns is uploaded.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {rules.length > 0 && (
+          <div className="space-y-2">
+            {rules.map(rule => (
+              <div key={rule.id} className="flex items-center justify-between rounded-lg bg-secondary/50 px-3 py-2 text-sm">
+                <span className="font-mono">{describeRule(rule)}</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onChange(rules.filter(candidate => candidate.id !== rule.id))}
+                  aria-label="Delete rule"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-1">
+            <Label>Column</Label>
+            <Select value={column} onValueChange={setColumn}>
+              <SelectTrigger className="w-40 h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {columnNames.map(name => <SelectItem key={name} value={name}>{name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>Rule</Label>
+            <Select value={kind} onValueChange={value => setKind(value as RuleKind)}>
+              <SelectTrigger className="w-44 h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(RULE_KIND_LABELS) as RuleKind[])
+                  .filter(k => k !== 'reference' || references.length > 0)
+                  .map(k => <SelectItem key={k} value={k}>{RULE_KIND_LABELS[k]}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {kind === 'range' && (
+            <>
+              <div className="space-y-1">
+                <Label>Min</Label>
+                <Input className="h-8 w-24" type="number" value={min} onChange={event => setMin(event.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label>Max</Label>
+                <Input className="h-8 w-24" type="number" value={max} onChange={event => setMax(event.target.value)} />
+              </div>
+            </>
+          )}
+          {kind === 'pattern' && (
+            <div className="space-y-1">
+              <Label>Regular expression</Label>
+              <Input className="h-8 w-56 font-mono" placeholder="^[A-Z]{2}\d{4}$" value={pattern} onChange={event => setPattern(event.target.value)} />
+            </div>
+          )}
+          {kind === 'allowed-values' && (
+            <div className="space-y-1">
+              <Label>Allowed values (comma separated)</Label>
+              <Input className="h-8 w-64" value={values} onChange={event => setValues(event.target.value)} />
+            </div>
+          )}
+          {kind === 'compare' && (
+            <>
+              <div className="space-y-1">
+                <Label>Operator</Label>
+                <Select value={operator} onValueChange={value => setOperator(value as CompareOperator)}>
+                  <SelectTrigger className="w-20 h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {COMPARE_OPERATORS.map(op => <SelectItem key={op} value={op}>{op}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Other column</Label>
+                <Select value={otherColumn} onValueChange={setOtherColumn}>
+                  <SelectTrigger className="w-40 h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {columnNames.map(name => <SelectItem key={name} value={name}>{name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+          {kind === 'reference' && (
+            <>
+              <div className="space-y-1">
+                <Label>Dataset</Label>
+                <Select value={table} onValueChange={value => { setTable(value); setReferenceColumn('') }}>
+                  <SelectTrigger className="w-44 h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {references.map(reference => (
+                      <SelectItem key={reference.tableName} value={reference.tableName}>{reference.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Column</Label>
+                <Select value={referenceColumn} onValueChange={setReferenceColumn}>
+                  <SelectTrigger className="w-40 h-8 text-xs">
+                    <SelectValue placeholder="Choose…" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {referenceColumns.map(name => <SelectItem key={name} value={name}>{name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+            </>
+          )}
+
+          <Button size="sm" disabled={!draft || !column} onClick={() => draft && onChange([...rules, draft])}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add rule
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
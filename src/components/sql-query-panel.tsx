@@ -0,0 +1,179 @@
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Textarea } from "@/components/ui/textarea"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { AlertTriangle, BarChart3, ChevronLeft, ChevronRight, Database, Play } from "lucide-react"
+import { DEFAULT_TABLE, SqlEngine, SqlResult, quoteIdentifier } from "@/lib/sql-engine"
+import { ChartConfig, chartFromRows } from "@/lib/auto-charts"
+
+const PAGE_SIZE = 50
+
+interface SqlQueryPanelProps {
+  engine: SqlEngine
+  columnNames: string[]
+  onChartResult: (chart: ChartConfig) => void
+}
+
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  if (value instanceof Date) return value.toISOString()
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+export function SqlQueryPanel({ engine, columnNames, onChartResult }: SqlQueryPanelProps) {
+  const [sql, setSql] = useState(`SELECT * FROM ${DEFAULT_TABLE} LIMIT 100`)
+  const [result, setResult] = useState<SqlResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [page, setPage] = useState(0)
+
+  // A new dataset means a new engine; old results no longer apply
+  useEffect(() => {
+    setResult(null)
+    setError(null)
+    setPage(0)
+  }, [engine])
+
+  const runQuery = () => {
+    try {
+      setResult(engine.query(sql))
+      setError(null)
+    } catch (err) {
+      setResult(null)
+      setError(err instanceof Error ? err.message : String(err))
+    }
+    setPage(0)
+  }
+
+  const insertColumn = (name: string) => {
+    setSql(current => `${current}${current.endsWith(' ') ? '' : ' '}${quoteIdentifier(name)}`)
+  }
+
+  const chartResult = () => {
+    if (!result) return
+    const chart = chartFromRows(result.rows, result.columns, 'Query Result')
+    if (chart) onChartResult({ ...chart, description: `${chart.description} · ${sql.trim().slice(0, 80)}` })
+  }
+
+  const otherTables = engine.tableNames.filter(name => name !== DEFAULT_TABLE)
+  const pageCount = result ? Math.max(1, Math.ceil(result.rows.length / PAGE_SIZE)) : 0
+  const pageRows = result ? result.rows.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE) : []
+  const canChart = result ? chartFromRows(result.rows.slice(0, PAGE_SIZE), result.columns, '') !== null : false
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Database className="h-5 w-5 text-primary" />
+            SQL Query
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Query the active dataset as the <code className="font-mono">{DEFAULT_TABLE}</code> table
+            {otherTables.length > 0 && (
+              <> and other workspace datasets as {otherTables.map((name, index) => (
+                <span key={name}>{index > 0 && ', '}<code className="font-mono">{name}</code></span>
+              ))}</>
+            )}.
+            Wrap column names with spaces in square brackets. Press Ctrl+Enter to run.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap gap-1">
+            {columnNames.map(name => (
+              <Badge
+                key={name}
+                variant="outline"
+                className="cursor-pointer font-mono text-xs"
+                onClick={() => insertColumn(name)}
+              >
+                {name}
+              </Badge>
+            ))}
+          </div>
+          <Textarea
+            value={sql}
+            onChange={event => setSql(event.target.value)}
+            onKeyDown={event => {
+              if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+                event.preventDefault()
+                runQuery()
+              }
+            }}
+            spellCheck={false}
+            rows={6}
+            className="font-mono text-sm"
+          />
+          <div className="flex items-center gap-2">
+            <Button onClick={runQuery} disabled={!sql.trim()}>
+              <Play className="h-4 w-4 mr-2" />
+              Run
+            </Button>
+            <Button variant="outline" onClick={chartResult} disabled={!canChart}>
+              <BarChart3 className="h-4 w-4 mr-2" />
+              Chart this result
+            </Button>
+            {result && (
+              <span className="ml-auto text-sm text-muted-foreground">
+                {result.rows.length.toLocaleString()} rows · {result.elapsedMs.toFixed(0)} ms
+              </span>
+            )}
+          </div>
+          {error && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription className="whitespace-pre-wrap font-mono text-xs">{error}</AlertDescription>
+            </Alert>
+          )}
+        </CardContent>
+      </Card>
+
+      {result && (
+        <Card>
+          <CardContent className="pt-6 space-y-4">
+            {result.rows.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">The query returned no rows</p>
+            ) : (
+              <div className="max-h-[480px] overflow-auto rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      {result.columns.map(column => (
+                        <TableHead key={column} className="whitespace-nowrap">{column}</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {pageRows.map((row, rowIndex) => (
+                      <TableRow key={page * PAGE_SIZE + rowIndex}>
+                        {result.columns.map(column => (
+                          <TableCell key={column} className="whitespace-nowrap font-mono text-xs">
+                            {formatCell(row[column])}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+            {pageCount > 1 && (
+              <div className="flex items-center justify-end gap-2">
+                <span className="text-sm text-muted-foreground">Page {page + 1} of {pageCount}</span>
+                <Button variant="outline" size="icon" onClick={() => setPage(p => p - 1)} disabled={page === 0}>
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <Button variant="outline" size="icon" onClick={() => setPage(p => p + 1)} disabled={page >= pageCount - 1}>
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
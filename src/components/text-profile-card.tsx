@@ -0,0 +1,110 @@
+import { useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Progress } from "@/components/ui/progress"
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
+import { ChevronDown, Type } from "lucide-react"
+import { ColumnInfo } from "@/lib/profiling"
+import { TextProfile } from "@/lib/text-profile"
+
+interface TextProfileCardProps {
+  column: ColumnInfo
+  profile: TextProfile
+}
+
+// A shape this common makes the rest of the values look like format slips
+const DOMINANT_SHAPE = 0.8
+
+const percent = (share: number) => `${Math.round(share * 100)}%`
+
+function sentimentLabel(mean: number): string {
+  if (mean > 0.05) return 'Positive'
+  if (mean < -0.05) return 'Negative'
+  return 'Neutral'
+}
+
+export function TextProfileCard({ column, profile }: TextProfileCardProps) {
+  const [open, setOpen] = useState(false)
+  const { length, sentiment } = profile
+  const scored = sentiment.positive + sentiment.negative + sentiment.neutral
+  const dominant = profile.patterns[0]
+
+  return (
+    <Card className="animate-fade-up">
+      <Collapsible open={open} onOpenChange={setOpen}>
+        <CardHeader className="pb-2">
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" className="w-full justify-between px-0 hover:bg-transparent">
+              <CardTitle className="flex items-center gap-2 text-base">
+                <Type className="h-4 w-4" />
+                <span className="truncate" title={column.name}>{column.name}</span>
+                <Badge variant="outline">{sentimentLabel(sentiment.mean)}</Badge>
+              </CardTitle>
+              <ChevronDown className={`h-4 w-4 transition-transform ${open ? 'rotate-180' : ''}`} />
+            </Button>
+          </CollapsibleTrigger>
+          <p className="text-xs text-muted-foreground">
+            {length.min}–{length.max} characters · {length.mean.toFixed(1)} on average · {profile.meanWords.toFixed(1)} words
+          </p>
+          {dominant && dominant.share >= DOMINANT_SHAPE && dominant.share < 1 && (
+            <p className="text-xs text-warning">
+              {percent(dominant.share)} of values look like <span className="font-mono">{dominant.shape}</span>; the rest may be format mistakes
+            </p>
+          )}
+        </CardHeader>
+        <CollapsibleContent>
+          <CardContent className="space-y-4 text-sm">
+            <div className="grid grid-cols-4 gap-2 text-xs">
+              {([['Min', length.min], ['Median', length.median], ['Mean', length.mean], ['Max', length.max]] as const).map(([label, value]) => (
+                <div key={label}>
+                  <div className="text-muted-foreground">{label} length</div>
+                  <div className="font-mono">{Number.isInteger(value) ? value : value.toFixed(1)}</div>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-1">
+              <div className="font-medium">Top words</div>
+              <div className="flex flex-wrap gap-1">
+                {profile.topTokens.map(token => (
+                  <Badge key={token.value} variant="secondary">{token.value} · {token.count.toLocaleString()}</Badge>
+                ))}
+              </div>
+            </div>
+
+            {profile.topBigrams.length > 0 && (
+              <div className="space-y-1">
+                <div className="font-medium">Top word pairs</div>
+                <div className="flex flex-wrap gap-1">
+                  {profile.topBigrams.map(pair => (
+                    <Badge key={pair.value} variant="outline">{pair.value} · {pair.count.toLocaleString()}</Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-1">
+              <div className="font-medium">Value shapes</div>
+              {profile.patterns.map(pattern => (
+                <div key={pattern.shape} className="flex items-center gap-2 text-xs">
+                  <span className="font-mono truncate flex-1" title={pattern.shape}>{pattern.shape}</span>
+                  <Progress value={pattern.share * 100} className="w-24 h-2" />
+                  <span className="w-10 text-right">{percent(pattern.share)}</span>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-1">
+              <div className="font-medium">Sentiment</div>
+              <div className="text-xs text-muted-foreground">
+                Score {sentiment.mean.toFixed(2)} (−1 to 1) · {percent(sentiment.positive / scored)} positive ·{' '}
+                {percent(sentiment.negative / scored)} negative · {percent(sentiment.neutral / scored)} neutral
+              </div>
+            </div>
+          </CardContent>
+        </CollapsibleContent>
+      </Collapsible>
+    </Card>
+  )
+}
@@ -117,7 +117,7 @@ const FileUpload = React.forwardRef<HTMLDivElement, FileUploadProps>(
               </div>
             </div>
             <div className="space-y-2">
-              <h3 className="text-lg font-semibold">Drop your CSV file here</h3>
+              <h3 className="text-lg font-semibold">Drop your CSV, Excel or JSON file here</h3>
               <p className="text-muted-foreground">
                 or click to browse from your computer
               </p>
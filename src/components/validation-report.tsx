@@ -0,0 +1,102 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Progress } from "@/components/ui/progress"
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { ShieldCheck } from "lucide-react"
+import { QualityRule, RuleResult, ValidationReport, describeRule } from "@/lib/quality-rules"
+
+interface ValidationReportCardProps {
+  report: ValidationReport
+  // Row objects of the validated dataset, for showing offending values
+  data: Record<string, unknown>[]
+}
+
+// Columns worth showing next to a failing row: the rule's column and the one it is compared with
+function ruleColumns(rule: QualityRule): string[] {
+  return rule.kind === 'compare' ? [rule.column, rule.otherColumn] : [rule.column]
+}
+
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—'
+  if (value instanceof Date) return value.toISOString().slice(0, 10)
+  return String(value)
+}
+
+function ResultBadge({ result }: { result: RuleResult }) {
+  if (result.error) return <Badge variant="secondary">Skipped</Badge>
+  return result.failed === 0
+    ? <Badge className="bg-success text-success-foreground">Pass</Badge>
+    : <Badge variant="destructive">Fail</Badge>
+}
+
+export function ValidationReportCard({ report, data }: ValidationReportCardProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Validation Report
+        </CardTitle>
+        <div className="flex items-center gap-4">
+          <Progress value={report.score} className="flex-1" />
+          <span className="text-sm font-medium">{report.score}%</span>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {report.failingRows === 0
+            ? `All rows pass ${report.results.length} rule${report.results.length === 1 ? '' : 's'}`
+            : `${report.failingRows.toLocaleString()} row${report.failingRows === 1 ? '' : 's'} break at least one rule`}
+        </p>
+      </CardHeader>
+      <CardContent>
+        <Accordion type="multiple">
+          {report.results.map(result => {
+            const shown = ruleColumns(result.rule)
+            return (
+              <AccordionItem key={result.rule.id} value={result.rule.id}>
+                <AccordionTrigger disabled={result.failed === 0} className="hover:no-underline">
+                  <div className="flex flex-1 items-center justify-between gap-4 pr-4 text-sm">
+                    <span className="font-mono text-left">{describeRule(result.rule)}</span>
+                    <div className="flex items-center gap-3">
+                      <span className="text-xs text-muted-foreground">
+                        {result.error ?? `${result.failed.toLocaleString()} of ${result.checked.toLocaleString()} failed`}
+                      </span>
+                      <ResultBadge result={result} />
+                    </div>
+                  </div>
+                </AccordionTrigger>
+                <AccordionContent>
+                  <div className="max-h-64 overflow-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Row</TableHead>
+                          {shown.map(name => <TableHead key={name}>{name}</TableHead>)}
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {result.failingRows.map(row => (
+                          <TableRow key={row}>
+                            <TableCell className="font-mono text-xs">{row + 1}</TableCell>
+                            {shown.map(name => (
+                              <TableCell key={name} className="text-xs">{formatCell(data[row]?.[name])}</TableCell>
+                            ))}
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                  {result.failed > result.failingRows.length && (
+                    <p className="text-xs text-muted-foreground mt-2">
+                      Showing the first {result.failingRows.length} of {result.failed.toLocaleString()} rows
+                    </p>
+                  )}
+                </AccordionContent>
+              </AccordionItem>
+            )
+          })}
+        </Accordion>
+      </CardContent>
+    </Card>
+  )
+}
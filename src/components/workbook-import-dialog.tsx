@@ -0,0 +1,171 @@
+import { useEffect, useMemo, useState } from "react"
+import type { WorkBook } from "xlsx"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { FileSpreadsheet } from "lucide-react"
+import {
+  CellValue,
+  SheetSummary,
+  WorkbookImportOptions,
+  listSheets,
+  readSheet,
+  readWorkbook
+} from "@/lib/import/xlsx-reader"
+
+const PREVIEW_ROWS = 20
+
+interface WorkbookImportDialogProps {
+  file: File | null
+  onCancel: () => void
+  onConfirm: (file: File, options: WorkbookImportOptions) => void
+}
+
+const formatCell = (value: CellValue) => {
+  if (value === null) return ''
+  if (value instanceof Date) return value.toLocaleDateString()
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE'
+  if (typeof value === 'number') return value.toLocaleString()
+  return value
+}
+
+export function WorkbookImportDialog({ file, onCancel, onConfirm }: WorkbookImportDialogProps) {
+  const [workbook, setWorkbook] = useState<WorkBook | null>(null)
+  const [sheets, setSheets] = useState<SheetSummary[]>([])
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [options, setOptions] = useState<WorkbookImportOptions>({ sheet: '', range: '', header: true })
+
+  useEffect(() => {
+    if (!file) return
+    let cancelled = false
+    setWorkbook(null)
+    setLoadError(null)
+    file.arrayBuffer().then(buffer => {
+      if (cancelled) return
+      const book = readWorkbook(buffer)
+      const summaries = listSheets(book)
+      setWorkbook(book)
+      setSheets(summaries)
+      // Start on the first sheet that actually has data
+      const first = summaries.find(s => s.rowCount > 0) ?? summaries[0]
+      setOptions({ sheet: first?.name ?? '', range: '', header: true })
+    }).catch(error => {
+      if (!cancelled) setLoadError(error instanceof Error ? error.message : 'Could not read workbook')
+    })
+    return () => { cancelled = true }
+  }, [file])
+
+  const preview = useMemo(() => {
+    if (!workbook || !options.sheet) return null
+    try {
+      return { table: readSheet(workbook, options, PREVIEW_ROWS), error: null }
+    } catch (error) {
+      return { table: null, error: error instanceof Error ? error.message : String(error) }
+    }
+  }, [workbook, options])
+
+  const selectedSheet = sheets.find(s => s.name === options.sheet)
+
+  return (
+    <Dialog open={!!file} onOpenChange={open => { if (!open) onCancel() }}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5 text-primary" />
+            Import Workbook
+          </DialogTitle>
+          <DialogDescription>
+            Choose the sheet and, optionally, the cell range to import from {file?.name}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-1">
+            <Label>Sheet</Label>
+            <Select value={options.sheet} onValueChange={sheet => setOptions(prev => ({ ...prev, sheet, range: '' }))}>
+              <SelectTrigger><SelectValue placeholder="Select a sheet" /></SelectTrigger>
+              <SelectContent>
+                {sheets.map(sheet => (
+                  <SelectItem key={sheet.name} value={sheet.name}>
+                    {sheet.name} ({sheet.rowCount} × {sheet.columnCount})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="workbook-range">Cell range</Label>
+            <Input
+              id="workbook-range"
+              value={options.range}
+              placeholder={selectedSheet?.range || 'A1:F200'}
+              onChange={e => setOptions(prev => ({ ...prev, range: e.target.value }))}
+            />
+          </div>
+
+          <div className="flex items-center gap-3 pt-6">
+            <Switch
+              id="workbook-header"
+              checked={options.header}
+              onCheckedChange={header => setOptions(prev => ({ ...prev, header }))}
+            />
+            <Label htmlFor="workbook-header">First row is a header</Label>
+          </div>
+        </div>
+
+        <div className="border rounded-md max-h-80 overflow-auto">
+          {loadError || preview?.error ? (
+            <div className="py-10 text-center text-sm text-destructive">{loadError || preview?.error}</div>
+          ) : preview?.table ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {preview.table.headers.map(header => (
+                    <TableHead key={header} className="whitespace-nowrap">{header}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.table.rows.map((row, rowIndex) => (
+                  <TableRow key={rowIndex}>
+                    {preview.table.headers.map(header => (
+                      <TableCell
+                        key={header}
+                        className={`whitespace-nowrap py-1 ${typeof row[header] === 'number' ? 'text-right font-mono' : ''}`}
+                      >
+                        {formatCell(row[header])}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <div className="flex items-center justify-center gap-2 py-10 text-muted-foreground">
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-primary"></div>
+              <span>Reading workbook...</span>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="items-center">
+          {preview?.table && (
+            <Badge variant="outline" className="mr-auto">
+              Showing first {preview.table.rows.length} rows · {preview.table.headers.length} columns
+            </Badge>
+          )}
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={() => file && onConfirm(file, options)} disabled={!preview?.table}>
+            Import
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,81 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { FolderOpen, Trash2 } from "lucide-react"
+import { JoinBuilder } from "@/components/join-builder"
+import { JoinSpec } from "@/lib/join"
+import { WorkspaceDataset } from "@/lib/workspace"
+
+interface WorkspacePanelProps {
+  datasets: WorkspaceDataset[]
+  activeId: string | null
+  onSelect: (id: string) => void
+  onRemove: (id: string) => void
+  onJoin: (left: WorkspaceDataset, right: WorkspaceDataset, spec: JoinSpec, name: string) => void
+}
+
+export function WorkspacePanel({ datasets, activeId, onSelect, onRemove, onJoin }: WorkspacePanelProps) {
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FolderOpen className="h-5 w-5 text-primary" />
+            Workspace
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            The active dataset is used by Profile, Dashboard and Chat. Every dataset can be queried in SQL by its table name.
+          </p>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Dataset</TableHead>
+                <TableHead>SQL table</TableHead>
+                <TableHead className="text-right">Rows</TableHead>
+                <TableHead className="text-right">Columns</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {datasets.map(entry => (
+                <TableRow key={entry.id}>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{entry.name}</span>
+                      {entry.id === activeId && <Badge>Active</Badge>}
+                      {entry.derivedFrom && <Badge variant="outline">Derived from {entry.derivedFrom.join(' + ')}</Badge>}
+                    </div>
+                  </TableCell>
+                  <TableCell className="font-mono text-xs">{entry.tableName}</TableCell>
+                  <TableCell className="text-right">{entry.dataset.rowCount.toLocaleString()}</TableCell>
+                  <TableCell className="text-right">{entry.dataset.columns.length}</TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    <Button variant="ghost" size="sm" onClick={() => onSelect(entry.id)} disabled={entry.id === activeId}>
+                      Open
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => onRemove(entry.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {datasets.length >= 2 ? (
+        <JoinBuilder datasets={datasets} onJoin={onJoin} />
+      ) : (
+        <Card>
+          <CardContent className="text-center py-8 text-muted-foreground">
+            Upload another file to join it with this one
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
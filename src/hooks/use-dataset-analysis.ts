@@ -0,0 +1,110 @@
+import * as React from "react"
+import { Dataset } from "@/lib/dataset"
+import { ColumnInfo } from "@/lib/profiling"
+import { CorrelationSet } from "@/lib/correlation"
+import { OutlierMethod, OutlierReport } from "@/lib/outliers"
+import { QualityRule, ValidationReport } from "@/lib/quality-rules"
+import { ChartConfig } from "@/lib/auto-charts"
+import { GridQuery } from "@/lib/grid-query"
+import { AnalysisKind, AnalysisRequest, AnalysisResult, AnalysisWorkerMessage, referencedTables } from "@/lib/analysis-job"
+
+// Results are missing while their analysis runs
+export interface DatasetAnalysis {
+  correlations?: CorrelationSet
+  duplicateRows?: number
+  outliers: OutlierReport | null
+  validation?: ValidationReport
+  // The automatic dashboard charts
+  charts?: ChartConfig[]
+}
+
+const EMPTY_ANALYSIS: DatasetAnalysis = { outliers: null }
+
+function applyResult(analysis: DatasetAnalysis, result: AnalysisResult): DatasetAnalysis {
+  switch (result.kind) {
+    case 'correlations': return { ...analysis, correlations: result.correlations }
+    case 'duplicates': return { ...analysis, duplicateRows: result.duplicateRows }
+    case 'outliers': return { ...analysis, outliers: result.outliers }
+    case 'validation': return { ...analysis, validation: result.validation }
+    case 'charts': return { ...analysis, charts: result.charts }
+  }
+}
+
+// Runs the profile's analyses and the automatic charts of the active dataset in a
+// worker, so large datasets do not freeze the tab; each one reruns only when its
+// own inputs change. `chartFilter` is the grid query the charts follow, if any.
+export function useDatasetAnalysis(
+  dataset: Dataset | null,
+  columns: ColumnInfo[],
+  outlierMethod: OutlierMethod,
+  rules: QualityRule[],
+  tables: Record<string, Dataset>,
+  excludeOutliers: boolean,
+  chartFilter: GridQuery | null
+): DatasetAnalysis {
+  const [analysis, setAnalysis] = React.useState<DatasetAnalysis>(EMPTY_ANALYSIS)
+  const workerRef = React.useRef<Worker | null>(null)
+  // Latest request per analysis; answers to earlier ones are stale
+  const latestRef = React.useRef<Partial<Record<AnalysisKind, number>>>({})
+  const nextIdRef = React.useRef(0)
+
+  const post = React.useCallback((request: AnalysisRequest) => {
+    if (!workerRef.current) {
+      const worker = new Worker(new URL("../workers/analysis.worker.ts", import.meta.url), { type: "module" })
+      worker.onmessage = (event: MessageEvent<AnalysisWorkerMessage>) => {
+        const message = event.data
+        if (message.type === 'error') {
+          console.error('Dataset analysis failed:', message.message)
+        } else if (latestRef.current[message.result.kind] === message.id) {
+          setAnalysis(prev => applyResult(prev, message.result))
+        }
+      }
+      worker.onerror = event => console.error('Analysis worker crashed:', event.message)
+      workerRef.current = worker
+    }
+    if (request.type === 'analyze') latestRef.current[request.kind] = request.id
+    workerRef.current.postMessage(request)
+  }, [])
+
+  // The worker keeps its own copy of the dataset; the effects below run after this
+  // one, so their requests always reach the worker after the dataset they are about
+  React.useEffect(() => {
+    if (!dataset) {
+      latestRef.current = {}
+      setAnalysis(EMPTY_ANALYSIS)
+      return
+    }
+    post({ type: 'dataset', dataset: dataset.toSnapshot(), columns })
+    setAnalysis(prev => ({ ...prev, correlations: undefined, outliers: null }))
+    post({ type: 'analyze', id: ++nextIdRef.current, kind: 'correlations' })
+  }, [dataset, columns, post])
+
+  React.useEffect(() => {
+    if (!dataset) return
+    setAnalysis(prev => ({ ...prev, duplicateRows: undefined }))
+    post({ type: 'analyze', id: ++nextIdRef.current, kind: 'duplicates' })
+  }, [dataset, post])
+
+  // A report for the previous method stays up until the new one arrives
+  React.useEffect(() => {
+    if (!dataset) return
+    post({ type: 'analyze', id: ++nextIdRef.current, kind: 'outliers', method: outlierMethod })
+  }, [dataset, columns, outlierMethod, post])
+
+  React.useEffect(() => {
+    if (!dataset) return
+    setAnalysis(prev => ({ ...prev, validation: undefined }))
+    post({ type: 'analyze', id: ++nextIdRef.current, kind: 'validation', rules, tables: referencedTables(rules, tables) })
+  }, [dataset, rules, tables, post])
+
+  React.useEffect(() => {
+    if (!dataset) return
+    setAnalysis(prev => ({ ...prev, charts: undefined }))
+    post({ type: 'analyze', id: ++nextIdRef.current, kind: 'charts', method: outlierMethod, exclude: excludeOutliers, filter: chartFilter })
+  }, [dataset, columns, outlierMethod, excludeOutliers, chartFilter, post])
+
+  // Never leave a worker running after the page unmounts
+  React.useEffect(() => () => workerRef.current?.terminate(), [])
+
+  return analysis
+}
@@ -0,0 +1,60 @@
+import * as React from "react"
+import { ImportProgress, ImportRequest, ImportResult, ImportWorkerMessage } from "@/lib/import/import-job"
+
+export class ImportCancelledError extends Error {
+  constructor() {
+    super('Import cancelled')
+    this.name = 'ImportCancelledError'
+  }
+}
+
+// Runs one import at a time in a dedicated worker; cancelling terminates it
+export function useImportWorker() {
+  const [progress, setProgress] = React.useState<ImportProgress | null>(null)
+  const jobRef = React.useRef<{ worker: Worker; reject: (error: Error) => void } | null>(null)
+
+  const finish = React.useCallback(() => {
+    jobRef.current?.worker.terminate()
+    jobRef.current = null
+    setProgress(null)
+  }, [])
+
+  const cancel = React.useCallback(() => {
+    const job = jobRef.current
+    if (!job) return
+    finish()
+    job.reject(new ImportCancelledError())
+  }, [finish])
+
+  const run = React.useCallback((request: ImportRequest) => {
+    cancel()
+    return new Promise<ImportResult>((resolve, reject) => {
+      const worker = new Worker(new URL("../workers/import.worker.ts", import.meta.url), { type: "module" })
+      jobRef.current = { worker, reject }
+
+      worker.onmessage = (event: MessageEvent<ImportWorkerMessage>) => {
+        const message = event.data
+        if (message.type === 'progress') {
+          setProgress(message.progress)
+        } else if (message.type === 'done') {
+          finish()
+          resolve(message.result)
+        } else {
+          finish()
+          reject(new Error(message.message))
+        }
+      }
+      worker.onerror = event => {
+        finish()
+        reject(new Error(event.message || 'Import worker crashed'))
+      }
+
+      worker.postMessage(request)
+    })
+  }, [cancel, finish])
+
+  // Never leave a worker running after the page unmounts
+  React.useEffect(() => () => jobRef.current?.worker.terminate(), [])
+
+  return { run, cancel, progress }
+}
@@ -0,0 +1,30 @@
+import * as React from "react"
+import { BaselineProfile } from "@/lib/drift"
+
+const STORAGE_KEY = 'profile-baseline'
+
+function loadBaseline(): BaselineProfile | null {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY)
+    return saved ? JSON.parse(saved) as BaselineProfile : null
+  } catch {
+    return null
+  }
+}
+
+// The pinned baseline profile, kept in the browser so next week's upload can be compared with it
+export function usePinnedBaseline() {
+  const [baseline, setBaseline] = React.useState<BaselineProfile | null>(loadBaseline)
+
+  const pin = React.useCallback((next: BaselineProfile | null) => {
+    setBaseline(next)
+    try {
+      if (next) localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+      else localStorage.removeItem(STORAGE_KEY)
+    } catch {
+      // Too large or storage disabled: the baseline still lasts for this session
+    }
+  }, [])
+
+  return { baseline, pin }
+}
@@ -0,0 +1,37 @@
+import * as React from "react"
+import { QualityRule, schemaKey } from "@/lib/quality-rules"
+
+const STORAGE_KEY = 'quality-rules'
+
+type RuleStore = Record<string, QualityRule[]>
+
+function loadStore(): RuleStore {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY)
+    return saved ? JSON.parse(saved) as RuleStore : {}
+  } catch {
+    // Storage can be disabled or hold something unreadable; start without rules
+    return {}
+  }
+}
+
+// Quality rules saved in the browser per dataset schema (its set of column names)
+export function useQualityRules() {
+  const [store, setStore] = React.useState<RuleStore>(loadStore)
+
+  const rulesFor = React.useCallback((columnNames: string[]) => store[schemaKey(columnNames)] ?? [], [store])
+
+  const setRulesFor = React.useCallback((columnNames: string[], rules: QualityRule[]) => {
+    setStore(prev => {
+      const next = { ...prev, [schemaKey(columnNames)]: rules }
+      try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+      } catch {
+        // Rules still apply for this session
+      }
+      return next
+    })
+  }, [])
+
+  return { rulesFor, setRulesFor }
+}
@@ -0,0 +1,47 @@
+import * as React from "react"
+import { PipelineStep, createStepId, isPipelineStep } from "@/lib/pipeline"
+import { schemaKey } from "@/lib/quality-rules"
+
+const STORAGE_KEY = 'pipeline-recipes'
+
+type RecipeStore = Record<string, PipelineStep[]>
+
+// Recipes saved by an older version, or edited by hand, are left out unless every step is valid
+function loadStore(): RecipeStore {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY)
+    const parsed: unknown = saved ? JSON.parse(saved) : {}
+    if (!parsed || typeof parsed !== 'object') return {}
+    const store: RecipeStore = {}
+    for (const [key, steps] of Object.entries(parsed)) {
+      if (!Array.isArray(steps) || !steps.every(isPipelineStep)) continue
+      store[key] = steps.map(step => ({ ...step, id: createStepId(), enabled: step.enabled !== false }))
+    }
+    return store
+  } catch {
+    // Storage can be disabled or hold something unreadable; start without recipes
+    return {}
+  }
+}
+
+// Transformation steps saved in the browser per source schema, so next week's
+// export of the same file can be cleaned the same way
+export function useSavedRecipes() {
+  const [store, setStore] = React.useState<RecipeStore>(loadStore)
+
+  const recipeFor = React.useCallback((columnNames: string[]) => store[schemaKey(columnNames)] ?? [], [store])
+
+  const saveRecipe = React.useCallback((columnNames: string[], steps: PipelineStep[]) => {
+    setStore(prev => {
+      const next = { ...prev, [schemaKey(columnNames)]: steps }
+      try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(next))
+      } catch {
+        // The recipe still applies for this session
+      }
+      return next
+    })
+  }, [])
+
+  return { recipeFor, saveRecipe }
+}
@@ -0,0 +1,368 @@
+import { Dataset, DataRow, DatasetColumn } from "@/lib/dataset"
+import { ColumnInfo } from "@/lib/profiling"
+import { Frequency, formatDateLabel, periodStart } from "@/lib/date-parsing"
+import { numericVector } from "@/lib/correlation"
+import { quantile } from "@/lib/statistics"
+
+// Group-by over the whole dataset: rows are grouped by the values of one or more
+// columns (dates optionally bucketed into periods) and each group gets one value
+// per measure. Charts, pivot tables and the chat all aggregate through here, so
+// every figure they show is computed over all rows rather than a sample.
+
+export type Aggregation = 'sum' | 'avg' | 'count' | 'distinct' | 'min' | 'max' | 'median'
+
+export interface Measure {
+  column: string
+  aggregation: Aggregation
+  // Key of the measure in chart rows; measureLabel(measure) when not given
+  as?: string
+}
+
+export interface GroupKey {
+  column: string
+  // Dates are grouped by the start of their period
+  bucket?: Frequency
+}
+
+export interface AggregateQuery {
+  groupBy: GroupKey[]
+  measures: Measure[]
+  // By group keys when no measure is given; missing values always sort last
+  sort?: { measure?: number; descending?: boolean }
+  // Keeps the first groups in sort order; with `other` the rest are folded into one group
+  limit?: number
+  other?: boolean
+}
+
+export type KeyValue = string | number | boolean | null
+
+export interface AggregateGroup {
+  // Dates are epoch milliseconds of the period start
+  keys: KeyValue[]
+  labels: string[]
+  values: (number | null)[]
+  rowCount: number
+  // The group that collects everything beyond the limit
+  other?: boolean
+}
+
+export interface AggregateResult {
+  query: AggregateQuery
+  groups: AggregateGroup[]
+  // Groups before the limit was applied
+  groupCount: number
+}
+
+export const AGGREGATION_LABELS: Record<Aggregation, string> = {
+  sum: 'Sum',
+  avg: 'Average',
+  count: 'Count',
+  distinct: 'Distinct count',
+  min: 'Min',
+  max: 'Max',
+  median: 'Median'
+}
+
+// Aggregations that make sense for columns that are not numeric
+export const TEXT_AGGREGATIONS: Aggregation[] = ['count', 'distinct']
+
+export const BLANK_LABEL = '(blank)'
+export const OTHER_LABEL = 'Other'
+const SEPARATOR = '\u0000'
+const NULL_TOKEN = '\u0001'
+
+export const measureLabel = (measure: Measure) => `${AGGREGATION_LABELS[measure.aggregation]} of ${measure.column}`
+
+export const measureName = (measure: Measure) => measure.as ?? measureLabel(measure)
+
+// Reads the grouping value of a row without building a row object
+function keyReader(column: DatasetColumn, bucket?: Frequency): (row: number) => KeyValue {
+  switch (column.kind) {
+    case 'number':
+      return row => Number.isNaN(column.values[row]) ? null : column.values[row]
+    case 'date':
+      return row => Number.isNaN(column.values[row]) ? null : bucket ? periodStart(column.values[row], bucket) : column.values[row]
+    case 'boolean':
+      return row => column.values[row] === -1 ? null : column.values[row] === 1
+    case 'category':
+      return row => column.codes[row] === -1 ? null : column.dictionary[column.codes[row]]
+    case 'text':
+      return row => column.values[row]
+  }
+}
+
+function keyLabel(value: KeyValue, column: DatasetColumn, bucket?: Frequency): string {
+  if (value === null) return BLANK_LABEL
+  if (column.kind === 'date') return formatDateLabel(value as number, bucket ?? 'irregular')
+  return String(value)
+}
+
+// Numbers sort as numbers, also inside text ("2" before "10")
+export function compareKeyValues(a: KeyValue, b: KeyValue): number {
+  if (a === b) return 0
+  if (a === null) return 1
+  if (b === null) return -1
+  if (typeof a === 'number' && typeof b === 'number') return a - b
+  const textA = String(a)
+  const textB = String(b)
+  // Distinct keys such as "1" and "01" compare equal here; code units break the tie
+  // so that equal only ever means the same key
+  const order = textA.localeCompare(textB, undefined, { numeric: true })
+  if (order !== 0) return order
+  return textA < textB ? -1 : textA > textB ? 1 : 0
+}
+
+const compareKeys = (a: KeyValue[], b: KeyValue[]) => {
+  for (let i = 0; i < a.length; i++) {
+    const order = compareKeyValues(a[i], b[i])
+    if (order !== 0) return order
+  }
+  return 0
+}
+
+interface Accumulator {
+  add(row: number): void
+  result(): number | null
+}
+
+type AccumulatorFactory = () => Accumulator
+
+// Numeric aggregations read a number vector; count and distinct count work on any column
+function accumulatorFor(measure: Measure, dataset: Dataset, infos: Map<string, ColumnInfo>): AccumulatorFactory | null {
+  const column = dataset.column(measure.column)
+  if (!column) return null
+  if (measure.aggregation === 'count' || measure.aggregation === 'distinct') {
+    const read = keyReader(column)
+    if (measure.aggregation === 'count') {
+      return () => {
+        let count = 0
+        return { add: row => { if (read(row) !== null) count++ }, result: () => count }
+      }
+    }
+    return () => {
+      const seen = new Set<KeyValue>()
+      return {
+        add: row => { const value = read(row); if (value !== null) seen.add(value) },
+        result: () => seen.size
+      }
+    }
+  }
+
+  const info = infos.get(measure.column)
+  if (column.kind !== 'number' && info?.type !== 'numerical') return null
+  const values = numericVector(column, dataset.rowCount, info)
+  switch (measure.aggregation) {
+    case 'median':
+      return () => {
+        const seen: number[] = []
+        return {
+          add: row => { if (!Number.isNaN(values[row])) seen.push(values[row]) },
+          result: () => seen.length > 0 ? quantile(seen.sort((a, b) => a - b), 0.5) : null
+        }
+      }
+    case 'min':
+    case 'max': {
+      const pick = measure.aggregation === 'min' ? Math.min : Math.max
+      return () => {
+        let best: number | null = null
+        return { add: row => { if (!Number.isNaN(values[row])) best = best === null ? values[row] : pick(best, values[row]) }, result: () => best }
+      }
+    }
+    default: {
+      const average = measure.aggregation === 'avg'
+      return () => {
+        let sum = 0
+        let count = 0
+        return {
+          add: row => {
+            if (Number.isNaN(values[row])) return
+            sum += values[row]
+            count++
+          },
+          result: () => count === 0 ? null : average ? sum / count : sum
+        }
+      }
+    }
+  }
+}
+
+// Whether a measure can be computed for a column, e.g. sums need numbers
+export function supportsAggregation(info: ColumnInfo | undefined, aggregation: Aggregation): boolean {
+  return TEXT_AGGREGATIONS.includes(aggregation) || info?.type === 'numerical'
+}
+
+// Group keys naming columns the dataset lacks are dropped; measures that cannot be
+// computed for their column come out as null
+export function aggregate(dataset: Dataset, columns: ColumnInfo[], query: AggregateQuery): AggregateResult {
+  const infos = new Map(columns.map(info => [info.name, info]))
+  const keys = query.groupBy
+    .map(key => ({ key, column: dataset.column(key.column) }))
+    .filter((entry): entry is { key: GroupKey; column: DatasetColumn } => !!entry.column)
+  const readers = keys.map(({ key, column }) => keyReader(column, column.kind === 'date' ? key.bucket : undefined))
+  const factories = query.measures.map(measure => accumulatorFor(measure, dataset, infos))
+  const newAccumulators = () => factories.map(factory => factory ? factory() : null)
+
+  interface Bucket { keys: KeyValue[]; accumulators: (Accumulator | null)[]; rowCount: number }
+  const buckets: Bucket[] = []
+  const lookup = new Map<KeyValue, number>()
+  // Group of every row, kept for the second pass that fills the "Other" group
+  const groupOf = new Int32Array(dataset.rowCount)
+  const single = readers.length === 1
+
+  for (let row = 0; row < dataset.rowCount; row++) {
+    let token: KeyValue
+    let values: KeyValue[] | null = null
+    if (single) {
+      token = readers[0](row)
+    } else {
+      values = readers.map(read => read(row))
+      token = values.map(value => value === null ? NULL_TOKEN : String(value)).join(SEPARATOR)
+    }
+    let index = lookup.get(token)
+    if (index === undefined) {
+      index = buckets.length
+      lookup.set(token, index)
+      buckets.push({ keys: values ?? [token], accumulators: newAccumulators(), rowCount: 0 })
+    }
+    groupOf[row] = index
+    const bucket = buckets[index]
+    bucket.rowCount++
+    for (const accumulator of bucket.accumulators) accumulator?.add(row)
+  }
+
+  const toGroup = (bucket: Bucket): AggregateGroup => ({
+    keys: bucket.keys,
+    labels: bucket.keys.map((value, i) => keyLabel(value, keys[i].column, keys[i].key.bucket)),
+    values: bucket.accumulators.map(accumulator => accumulator?.result() ?? null),
+    rowCount: bucket.rowCount
+  })
+  const groups = buckets.map(toGroup)
+
+  const { sort } = query
+  const direction = sort?.descending ? -1 : 1
+  const order = groups.map((_, index) => index)
+  if (sort?.measure !== undefined) {
+    const m = sort.measure
+    order.sort((a, b) => {
+      const x = groups[a].values[m]
+      const y = groups[b].values[m]
+      if (x === y) return compareKeys(groups[a].keys, groups[b].keys)
+      if (x === null) return 1
+      if (y === null) return -1
+      return (x - y) * direction
+    })
+  } else {
+    order.sort((a, b) => compareKeys(groups[a].keys, groups[b].keys) * direction)
+  }
+
+  const limit = query.limit ?? order.length
+  const kept = order.slice(0, limit).map(index => groups[index])
+  if (query.other && order.length > limit) {
+    const keptIds = new Set(order.slice(0, limit))
+    const rest: Bucket = { keys: keys.map(() => OTHER_LABEL), accumulators: newAccumulators(), rowCount: 0 }
+    for (let row = 0; row < dataset.rowCount; row++) {
+      if (keptIds.has(groupOf[row])) continue
+      rest.rowCount++
+      for (const accumulator of rest.accumulators) accumulator?.add(row)
+    }
+    kept.push({ ...toGroup(rest), labels: keys.map(() => OTHER_LABEL), other: true })
+  }
+
+  return {
+    query: { ...query, groupBy: keys.map(({ key }) => key) },
+    groups: kept,
+    groupCount: groups.length
+  }
+}
+
+// One row per group, keyed by the group column names and measure names, ready for a
+// chart; missing keys become the "(blank)" label
+export function aggregateRows(result: AggregateResult): DataRow[] {
+  const { groupBy, measures } = result.query
+  return result.groups.map(group => {
+    const row: DataRow = {}
+    groupBy.forEach((key, i) => { row[key.column] = group.keys[i] ?? group.labels[i] })
+    measures.forEach((measure, i) => { row[measureName(measure)] = group.values[i] })
+    return row
+  })
+}
+
+export interface ColumnSummary {
+  name: string
+  type: ColumnInfo['type']
+  // Rows with a value
+  count: number
+  sum?: number
+  mean?: number
+  min?: number
+  max?: number
+  // Most frequent values of categorical columns
+  top?: { value: string; count: number }[]
+}
+
+// Whole-dataset figures per column: totals and ranges of numeric columns, the most
+// frequent values of categorical ones
+export function summarizeColumns(dataset: Dataset, columns: ColumnInfo[], topValues = 10): ColumnSummary[] {
+  const present = columns.filter(info => dataset.column(info.name))
+  const stats: Aggregation[] = ['count', 'sum', 'avg', 'min', 'max']
+  const numeric = present.filter(info => info.type === 'numerical')
+  const [totals] = aggregate(dataset, columns, {
+    groupBy: [],
+    measures: present.flatMap(info => info.type === 'numerical'
+      ? stats.map(aggregation => ({ column: info.name, aggregation }))
+      : [{ column: info.name, aggregation: 'count' as const }])
+  }).groups
+
+  let offset = 0
+  return present.map(info => {
+    const width = numeric.includes(info) ? stats.length : 1
+    const values = totals?.values.slice(offset, offset + width) ?? []
+    offset += width
+    const summary: ColumnSummary = { name: info.name, type: info.type, count: values[0] ?? 0 }
+    if (numeric.includes(info)) {
+      const [, sum, mean, min, max] = values
+      Object.assign(summary, { sum: sum ?? undefined, mean: mean ?? undefined, min: min ?? undefined, max: max ?? undefined })
+    }
+    if (info.type === 'categorical') {
+      const counts = aggregate(dataset, columns, {
+        groupBy: [{ column: info.name }],
+        measures: [{ column: info.name, aggregation: 'count' }],
+        sort: { measure: 0, descending: true },
+        limit: topValues
+      })
+      summary.top = counts.groups
+        .filter(group => group.keys[0] !== null)
+        .map(group => ({ value: group.labels[0], count: group.rowCount }))
+    }
+    return summary
+  })
+}
+
+const BUCKETS: Frequency[] = ['hourly', 'daily', 'weekly', 'monthly', 'quarterly', 'yearly']
+
+// Reads a query written by hand or by a model: group keys may be plain column names,
+// and measures or buckets that are not recognised are dropped
+export function parseAggregateQuery(value: unknown): AggregateQuery | null {
+  const query = value as Partial<Record<keyof AggregateQuery, unknown>>
+  if (!query || typeof query !== 'object' || !Array.isArray(query.groupBy) || !Array.isArray(query.measures)) return null
+  const groupBy = query.groupBy.flatMap((key): GroupKey[] => {
+    if (typeof key === 'string') return [{ column: key }]
+    const { column, bucket } = (key ?? {}) as Partial<GroupKey>
+    if (typeof column !== 'string') return []
+    return [BUCKETS.includes(bucket) ? { column, bucket } : { column }]
+  })
+  const measures = query.measures.filter((measure): measure is Measure =>
+    typeof measure?.column === 'string' && typeof measure.aggregation === 'string' &&
+    Object.prototype.hasOwnProperty.call(AGGREGATION_LABELS, measure.aggregation))
+  if (measures.length === 0) return null
+  const sort = query.sort as AggregateQuery['sort']
+  return {
+    groupBy,
+    measures: measures.map(({ column, aggregation }) => ({ column, aggregation })),
+    sort: sort && typeof sort === 'object'
+      ? { measure: typeof sort.measure === 'number' ? sort.measure : undefined, descending: sort.descending === true }
+      : undefined,
+    limit: typeof query.limit === 'number' && query.limit > 0 ? Math.floor(query.limit) : undefined,
+    other: typeof query.other === 'boolean' ? query.other : undefined
+  }
+}
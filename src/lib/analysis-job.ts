@@ -0,0 +1,97 @@
+import { Dataset, DatasetSnapshot } from "@/lib/dataset"
+import { ColumnInfo } from "@/lib/profiling"
+import { CorrelationSet, computeCorrelations } from "@/lib/correlation"
+import { duplicateRowCount, exactDuplicates } from "@/lib/duplicates"
+import { OutlierMethod, OutlierReport, detectOutliers, withoutOutliers } from "@/lib/outliers"
+import { QualityRule, ValidationReport, validateDataset } from "@/lib/quality-rules"
+import { ChartConfig, generateAutoCharts } from "@/lib/auto-charts"
+import { GridQuery, filterDataset, isFiltering } from "@/lib/grid-query"
+
+// The whole-dataset analyses behind the profile (correlations, duplicates,
+// outliers and rule checks) and the dashboard's automatic charts as cloneable
+// messages, so they can run inside the analysis worker. The worker keeps the
+// active dataset, which is only posted again when it changes; each analysis is
+// then requested on its own, whenever one of its inputs changes.
+
+export type AnalysisKind = 'correlations' | 'duplicates' | 'outliers' | 'validation' | 'charts'
+
+export type AnalysisRequest =
+  | { type: 'dataset'; dataset: DatasetSnapshot; columns: ColumnInfo[] }
+  | ({ type: 'analyze'; id: number } & (
+    | { kind: 'correlations' }
+    | { kind: 'duplicates' }
+    | { kind: 'outliers'; method: OutlierMethod }
+    // Reference rules look other workspace datasets up by table name
+    | { kind: 'validation'; rules: QualityRule[]; tables: Record<string, DatasetSnapshot> }
+    // Charts leave out flagged rows when `exclude` is set and highlight them otherwise;
+    // a grid filter narrows the rows first
+    | { kind: 'charts'; method: OutlierMethod; exclude: boolean; filter: GridQuery | null }
+  ))
+
+export type AnalysisResult =
+  | { kind: 'correlations'; correlations: CorrelationSet }
+  | { kind: 'duplicates'; duplicateRows: number }
+  | { kind: 'outliers'; outliers: OutlierReport }
+  | { kind: 'validation'; validation: ValidationReport }
+  | { kind: 'charts'; charts: ChartConfig[] }
+
+export type AnalysisWorkerMessage =
+  | { type: 'done'; id: number; result: AnalysisResult }
+  | { type: 'error'; id: number; message: string }
+
+// What the worker keeps between requests: the active dataset and the outlier reports
+// already computed for it, which the outlier panel and the charts share
+export interface AnalysisSession {
+  dataset: Dataset
+  columns: ColumnInfo[]
+  outliers: Map<OutlierMethod, OutlierReport>
+}
+
+export function createSession(snapshot: DatasetSnapshot, columns: ColumnInfo[]): AnalysisSession {
+  return { dataset: new Dataset(snapshot), columns, outliers: new Map() }
+}
+
+function sessionOutliers(session: AnalysisSession, method: OutlierMethod): OutlierReport {
+  let report = session.outliers.get(method)
+  if (!report) {
+    report = detectOutliers(session.dataset, session.columns, method)
+    session.outliers.set(method, report)
+  }
+  return report
+}
+
+export function runAnalysis(session: AnalysisSession, request: Extract<AnalysisRequest, { type: 'analyze' }>): AnalysisResult {
+  const { dataset, columns } = session
+  switch (request.kind) {
+    case 'correlations':
+      return { kind: 'correlations', correlations: computeCorrelations(dataset, columns) }
+    case 'duplicates':
+      return { kind: 'duplicates', duplicateRows: duplicateRowCount(exactDuplicates(dataset)) }
+    case 'outliers':
+      return { kind: 'outliers', outliers: sessionOutliers(session, request.method) }
+    case 'validation': {
+      const tables: Record<string, Dataset> = {}
+      for (const [name, snapshot] of Object.entries(request.tables)) tables[name] = new Dataset(snapshot)
+      return { kind: 'validation', validation: validateDataset(dataset, request.rules, tables) }
+    }
+    case 'charts': {
+      const rows = request.filter && isFiltering(request.filter) ? filterDataset(dataset, columns, request.filter) : dataset
+      const report = rows === dataset ? sessionOutliers(session, request.method) : detectOutliers(rows, columns, request.method)
+      const charts = request.exclude
+        ? generateAutoCharts(withoutOutliers(rows, report), columns)
+        : generateAutoCharts(rows, columns, report)
+      return { kind: 'charts', charts }
+    }
+  }
+}
+
+// Only the tables that reference rules look up need to be posted to the worker
+export function referencedTables(rules: QualityRule[], tables: Record<string, Dataset>): Record<string, DatasetSnapshot> {
+  const referenced: Record<string, DatasetSnapshot> = {}
+  for (const rule of rules) {
+    if (rule.kind === 'reference' && Object.prototype.hasOwnProperty.call(tables, rule.table)) {
+      referenced[rule.table] = tables[rule.table].toSnapshot()
+    }
+  }
+  return referenced
+}
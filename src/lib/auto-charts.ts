@@ -0,0 +1,352 @@
+import { Dataset, DataRow } from "@/lib/dataset"
+import { ColumnInfo } from "@/lib/profiling"
+import { Frequency, detectFrequency } from "@/lib/date-parsing"
+import { CORRELATION_LABELS, Correlation, numericVector, pearson } from "@/lib/correlation"
+import { OUTLIER_METHOD_LABELS, OutlierReport, flagValues } from "@/lib/outliers"
+import { AggregateQuery, aggregate, aggregateRows, measureName, supportsAggregation } from "@/lib/aggregation"
+
+export interface ChartConfig {
+  id: string
+  type: 'line' | 'bar' | 'scatter' | 'pie' | 'area'
+  title: string
+  description: string
+  data: DataRow[]
+  xKey: string
+  yKey?: string
+  colorKey?: string
+  insights?: string[]
+  // Set when xKey holds epoch milliseconds, to draw a real time axis
+  timeAxis?: { frequency: Frequency }
+  // Bar charts with several measures per category; yKey is then the first of them
+  series?: string[]
+  stacked?: boolean
+  // Dataset columns behind labels that join several of them with " / ", such as a
+  // pivot's row labels (x) and column groups (series); privacy policies follow these
+  labelColumns?: { x?: string[]; series?: string[] }
+}
+
+// Points flagged as outliers carry `isOutlier: true`, like forecasts carry `isForecast`
+const markOutliers = (rows: DataRow[], flagged: (row: DataRow, index: number) => boolean): DataRow[] =>
+  rows.map((row, index) => flagged(row, index) ? { ...row, isOutlier: true } : row)
+
+// Rows used for the sample-based charts; keeps recharts responsive
+const SAMPLE_SIZE = 50
+// Most recent periods shown in a time series
+const MAX_TIME_POINTS = 500
+
+// Most categories shown in the category chart; the rest are summed into "Other"
+const MAX_CATEGORY_BARS = 12
+
+// Sums a measure per period of a date column, in time order
+function timeSeries(dataset: Dataset, cols: ColumnInfo[], timeKey: string, numKey: string, frequency: Frequency): DataRow[] | null {
+  if (dataset.column(timeKey)?.kind !== 'date') return null
+  const result = aggregate(dataset, cols, {
+    groupBy: [{ column: timeKey, bucket: frequency === 'irregular' ? undefined : frequency }],
+    measures: [{ column: numKey, aggregation: 'sum', as: numKey }]
+  })
+  // Periods without a date or without any value are left out
+  const groups = result.groups.filter(group => group.keys[0] !== null && group.values[0] !== null)
+  return aggregateRows({ ...result, groups: groups.slice(-MAX_TIME_POINTS) })
+}
+
+const formatNumber = (value: number) =>
+  Number.isInteger(value) ? value.toLocaleString() : value.toLocaleString(undefined, { maximumFractionDigits: 2 })
+
+const strength = (r: number) => Math.abs(r) >= 0.7 ? 'Strong' : Math.abs(r) >= 0.4 ? 'Moderate' : 'Weak'
+
+// Direction and pace of a series of period totals, read from the totals themselves
+function trendInsights(values: number[], measure: string): string[] {
+  if (values.length < 3) return []
+  const first = values[0]
+  const last = values[values.length - 1]
+  const r = pearson(values.map((_, index) => index), values)
+  const insights = [Number.isNaN(r) || Math.abs(r) < 0.3
+    ? `No clear trend across ${values.length} periods`
+    : `${strength(r)} ${r > 0 ? 'upward' : 'downward'} trend across ${values.length} periods (r=${r.toFixed(2)})`]
+  insights.push(`${measure} went from ${formatNumber(first)} in the first period to ${formatNumber(last)} in the last`)
+  // Compound growth only means something between two positive totals
+  if (first > 0 && last > 0) {
+    const rate = (Math.pow(last / first, 1 / (values.length - 1)) - 1) * 100
+    insights.push(`Growth averaging ${rate.toFixed(1)}% per period`)
+  }
+  return insights
+}
+
+// Pearson's r of two columns over every row where both have a value
+function pairCorrelation(dataset: Dataset, x: ColumnInfo, y: ColumnInfo): { value: number; n: number } {
+  const xs = numericVector(dataset.column(x.name), dataset.rowCount, x)
+  const ys = numericVector(dataset.column(y.name), dataset.rowCount, y)
+  const pairedX: number[] = []
+  const pairedY: number[] = []
+  for (let i = 0; i < dataset.rowCount; i++) {
+    if (!Number.isFinite(xs[i]) || !Number.isFinite(ys[i])) continue
+    pairedX.push(xs[i])
+    pairedY.push(ys[i])
+  }
+  return { value: pairedX.length < 3 ? NaN : pearson(pairedX, pairedY), n: pairedX.length }
+}
+
+// Shape of a numerical column from its profile statistics
+function distributionInsights(info: ColumnInfo): string[] {
+  const { skewness, median, mean } = info.stats ?? {}
+  const insights: string[] = []
+  if (skewness !== undefined && Number.isFinite(skewness)) {
+    insights.push(Math.abs(skewness) < 0.5
+      ? `Roughly symmetric (skewness ${skewness.toFixed(2)})`
+      : `${skewness > 0 ? 'Right' : 'Left'}-skewed (skewness ${skewness.toFixed(2)})`)
+  }
+  if (median !== undefined && mean !== undefined) insights.push(`Median ${formatNumber(median)}, mean ${formatNumber(mean)}`)
+  return insights
+}
+
+// With an outlier report, flagged rows are highlighted on the line and scatter charts
+export function generateAutoCharts(dataset: Dataset, cols: ColumnInfo[], outliers?: OutlierReport): ChartConfig[] {
+  const charts: ChartConfig[] = []
+  const numericalCols = cols.filter(c => c.type === 'numerical')
+  const categoricalCols = cols.filter(c => c.type === 'categorical')
+  const temporalCols = cols.filter(c => c.type === 'temporal')
+
+  const sampleSize = Math.min(SAMPLE_SIZE, dataset.rowCount)
+  const sampleData = dataset.head(sampleSize)
+  const flaggedRows = new Set(outliers?.rows)
+
+  // 1. Time series if temporal column exists
+  const series = temporalCols.length > 0 && numericalCols.length > 0
+    ? timeSeries(dataset, cols, temporalCols[0].name, numericalCols[0].name, temporalCols[0].frequency ?? 'irregular')
+    : null
+  if (series && series.length > 0) {
+    const timeKey = temporalCols[0].name
+    const frequency = temporalCols[0].frequency ?? 'irregular'
+    // Periods are totals, so they are checked against each other rather than against rows
+    const flaggedPeriods = outliers ? flagValues(series.map(row => Number(row[numericalCols[0].name])), outliers.method) : new Set<number>()
+    charts.push({
+      id: 'timeseries-1',
+      type: 'line',
+      title: 'Time Series Analysis',
+      description: `${numericalCols[0].name} over ${timeKey}${frequency === 'irregular' ? '' : ` (${frequency} totals)`}`,
+      data: markOutliers(series, (_, index) => flaggedPeriods.has(index)),
+      xKey: timeKey,
+      yKey: numericalCols[0].name,
+      timeAxis: { frequency },
+      insights: trendInsights(series.map(row => Number(row[numericalCols[0].name])), numericalCols[0].name)
+    })
+  }
+
+  // 2. Bar chart for categorical vs numerical
+  if (categoricalCols.length > 0 && numericalCols.length > 0) {
+    const catKey = categoricalCols[0].name
+    const numKey = numericalCols[0].name
+    const result = aggregate(dataset, cols, {
+      groupBy: [{ column: catKey }],
+      measures: [{ column: numKey, aggregation: 'sum', as: numKey }],
+      sort: { measure: 0, descending: true },
+      limit: MAX_CATEGORY_BARS,
+      other: true
+    })
+    const values = result.groups.map(group => group.values[0] ?? 0)
+    const total = values.reduce((sum, value) => sum + value, 0)
+    const share = (value: number) => total === 0 ? '0%' : `${(value / total * 100).toFixed(1)}%`
+    const top = result.groups.filter(group => !group.other)
+
+    charts.push({
+      id: 'bar-1',
+      type: 'bar',
+      title: 'Category Performance',
+      description: `${numKey} by ${catKey}` +
+        (result.groupCount > top.length ? ` (top ${top.length} of ${result.groupCount.toLocaleString()} categories)` : ''),
+      data: aggregateRows(result),
+      xKey: catKey,
+      yKey: numKey,
+      insights: top.length === 0 ? [] : [
+        `${top[0].labels[0]} accounts for ${share(values[0])} of total ${numKey}`,
+        `Top ${Math.min(3, top.length)} categories account for ${share(values.slice(0, Math.min(3, top.length)).reduce((sum, value) => sum + value, 0))} of the total`,
+        `Totals over all ${dataset.rowCount.toLocaleString()} rows`
+      ]
+    })
+  }
+
+  // 3. Scatter plot for numerical correlation
+  if (numericalCols.length >= 2) {
+    const flaggedPoints = sampleData.filter((_, index) => flaggedRows.has(index)).length
+    const correlation = pairCorrelation(dataset, numericalCols[0], numericalCols[1])
+    charts.push({
+      id: 'scatter-1',
+      type: 'scatter',
+      title: 'Correlation Analysis',
+      description: `${numericalCols[0].name} vs ${numericalCols[1].name}`,
+      data: markOutliers(sampleData, (_, index) => flaggedRows.has(index)),
+      xKey: numericalCols[0].name,
+      yKey: numericalCols[1].name,
+      insights: [
+        Number.isNaN(correlation.value)
+          ? 'Too few rows with both values to measure a correlation'
+          : Math.abs(correlation.value) < 0.2
+            ? `No linear relationship (r=${correlation.value.toFixed(2)}) over ${correlation.n.toLocaleString()} rows`
+            : `${strength(correlation.value)} ${correlation.value > 0 ? 'positive' : 'negative'} correlation (r=${correlation.value.toFixed(2)}) over ${correlation.n.toLocaleString()} rows`,
+        ...(outliers ? [`${flaggedPoints} of ${sampleData.length} points flagged by ${OUTLIER_METHOD_LABELS[outliers.method]}`] : [])
+      ]
+    })
+  }
+
+  // 4. Distribution chart
+  if (numericalCols.length > 0) {
+    const numKey = numericalCols[0].name
+    const column = dataset.column(numKey)
+    const fenced = outliers?.columns.find(c => c.name === numKey)
+    const method = fenced && outliers ? outliers.method : 'iqr'
+    const outlierCount = fenced?.rows.length ??
+      (column ? flagValues(numericVector(column, dataset.rowCount, numericalCols[0]), 'iqr').size : 0)
+    const distributionData: DataRow[] = []
+    for (let i = 0; i < sampleSize; i++) {
+      distributionData.push({ index: i + 1, value: Number(dataset.value(numKey, i)) || 0 })
+    }
+
+    charts.push({
+      id: 'area-1',
+      type: 'area',
+      title: 'Distribution Pattern',
+      description: `${numKey} distribution across dataset`,
+      data: distributionData,
+      xKey: 'index',
+      yKey: 'value',
+      insights: [
+        ...distributionInsights(numericalCols[0]),
+        outlierCount === 0
+          ? `No outliers by ${OUTLIER_METHOD_LABELS[method]}`
+          : `${outlierCount.toLocaleString()} outlier${outlierCount === 1 ? '' : 's'} by ${OUTLIER_METHOD_LABELS[method]}`
+      ]
+    })
+  }
+
+  return charts
+}
+
+// Charts drawn from query results are capped so recharts stays responsive
+const MAX_RESULT_POINTS = 500
+
+const isNumeric = (value: unknown) => typeof value === 'number' && Number.isFinite(value)
+
+// Picks a chart for an arbitrary result set, e.g. the output of a SQL query:
+// the first non-numeric column becomes the x axis and the first numeric one the y axis
+export function chartFromRows(rows: DataRow[], columnNames: string[], title: string): ChartConfig | null {
+  if (rows.length === 0) return null
+  const sample = rows.slice(0, MAX_RESULT_POINTS)
+  const numeric = columnNames.filter(name => sample.some(row => isNumeric(row[name])) &&
+    sample.every(row => row[name] === null || row[name] === undefined || isNumeric(row[name])))
+  const labels = columnNames.filter(name => !numeric.includes(name))
+  if (numeric.length === 0) return null
+
+  const xKey = labels[0]
+  const temporal = xKey !== undefined && sample.some(row => row[xKey] instanceof Date)
+  const data = sample.map(row => {
+    const out: DataRow = { ...row }
+    for (const name of columnNames) {
+      const value = row[name]
+      // The x axis of a time chart is numeric; other dates become readable labels
+      if (value instanceof Date) out[name] = temporal && name === xKey ? value.getTime() : value.toISOString().slice(0, 10)
+    }
+    return out
+  })
+  const id = `query-${Date.now()}`
+  const description = rows.length > sample.length ? `First ${sample.length} of ${rows.length} rows` : `${rows.length} rows`
+
+  if (labels.length === 0) {
+    // Only numbers: scatter two measures, otherwise plot the single one by row
+    if (numeric.length >= 2) {
+      return { id, type: 'scatter', title, description, data, xKey: numeric[0], yKey: numeric[1] }
+    }
+    return {
+      id,
+      type: 'area',
+      title,
+      description,
+      data: data.map((row, index) => ({ index: index + 1, value: row[numeric[0]] })),
+      xKey: 'index',
+      yKey: 'value'
+    }
+  }
+
+  if (temporal) {
+    const points = data.filter(row => typeof row[xKey] === 'number').sort((a, b) => Number(a[xKey]) - Number(b[xKey]))
+    const frequency = detectFrequency(points.map(row => Number(row[xKey])))
+    return { id, type: 'line', title, description, data: points, xKey, yKey: numeric[0], timeAxis: { frequency } }
+  }
+  return { id, type: 'bar', title, description, data, xKey, yKey: numeric[0] }
+}
+
+// Most categories a chart built from an aggregate query draws
+const MAX_AGGREGATE_GROUPS = 50
+
+// Draws a chart from an aggregate query over the whole dataset, e.g. one a chat answer
+// asked for: the first group key is the x axis and each measure a series (scatter
+// plots put the first two measures on the axes). Dates are kept in time order;
+// other keys are ranked by the first measure and cut to the largest groups.
+export function aggregateChart(dataset: Dataset, columns: ColumnInfo[], chart: ChartConfig, query: AggregateQuery): ChartConfig | null {
+  const infos = new Map(columns.map(info => [info.name, info]))
+  const key = query.groupBy.find(candidate => dataset.column(candidate.column))
+  const measures = query.measures.filter(measure =>
+    dataset.column(measure.column) && supportsAggregation(infos.get(measure.column), measure.aggregation))
+  const scatter = chart.type === 'scatter'
+  if (!key || measures.length < (scatter ? 2 : 1)) return null
+
+  const temporal = dataset.column(key.column).kind === 'date'
+  const result = aggregate(dataset, columns, {
+    groupBy: [key],
+    measures,
+    sort: temporal ? undefined : query.sort ?? { measure: 0, descending: true },
+    limit: temporal ? undefined : Math.min(query.limit ?? MAX_AGGREGATE_GROUPS, MAX_AGGREGATE_GROUPS),
+    other: !temporal && !scatter && (query.other ?? chart.type === 'pie')
+  })
+  const groups = temporal ? result.groups.filter(group => group.keys[0] !== null).slice(-MAX_RESULT_POINTS) : result.groups
+  const data = aggregateRows({ ...result, groups })
+  const series = measures.map(measureName)
+  const shown = groups.filter(group => !group.other).length
+  const description = chart.description + (result.groupCount > shown && !temporal ? ` (top ${shown} of ${result.groupCount.toLocaleString()})` : '')
+
+  if (scatter) return { ...chart, description, data, xKey: series[0], yKey: series[1], series: undefined, timeAxis: undefined }
+  const frequency = key.bucket ?? infos.get(key.column)?.frequency ?? detectFrequency(groups.map(group => Number(group.keys[0])))
+  return {
+    ...chart,
+    description,
+    data,
+    xKey: key.column,
+    yKey: series[0],
+    colorKey: chart.type === 'pie' ? key.column : chart.colorKey,
+    series: chart.type === 'bar' && series.length > 1 ? series : undefined,
+    timeAxis: temporal && chart.type !== 'pie' ? { frequency } : undefined
+  }
+}
+
+// Scatter of one correlated pair, drawn from rows spread evenly over the dataset
+export function correlationChart(dataset: Dataset, columns: ColumnInfo[], correlation: Correlation, outliers?: OutlierReport): ChartConfig | null {
+  const xInfo = columns.find(c => c.name === correlation.x)
+  const yInfo = columns.find(c => c.name === correlation.y)
+  const xColumn = dataset.column(correlation.x)
+  const yColumn = dataset.column(correlation.y)
+  if (!xInfo || !yInfo || !xColumn || !yColumn) return null
+
+  const xs = numericVector(xColumn, dataset.rowCount, xInfo)
+  const ys = numericVector(yColumn, dataset.rowCount, yInfo)
+  const step = Math.max(1, correlation.n / MAX_RESULT_POINTS)
+  const flagged = new Set(outliers?.rows)
+  const data: DataRow[] = []
+  let complete = 0
+  for (let i = 0; i < dataset.rowCount && data.length < MAX_RESULT_POINTS; i++) {
+    if (!Number.isFinite(xs[i]) || !Number.isFinite(ys[i])) continue
+    if (complete++ >= data.length * step) {
+      data.push({ [correlation.x]: xs[i], [correlation.y]: ys[i], ...(flagged.has(i) ? { isOutlier: true } : {}) })
+    }
+  }
+
+  const label = CORRELATION_LABELS[correlation.method]
+  return {
+    id: `correlation-${Date.now()}`,
+    type: 'scatter',
+    title: `${correlation.x} vs ${correlation.y}`,
+    description: `${label} ${correlation.value.toFixed(2)} over ${correlation.n.toLocaleString()} rows` +
+      (correlation.n > data.length ? ` (${data.length} shown)` : ''),
+    data,
+    xKey: correlation.x,
+    yKey: correlation.y
+  }
+}
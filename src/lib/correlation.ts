@@ -0,0 +1,217 @@
+import { Dataset, DatasetColumn, cellValue } from "@/lib/dataset"
+import { ColumnInfo } from "@/lib/profiling"
+import { semanticNumber } from "@/lib/semantic-types"
+
+// Pairwise association between columns: Pearson and Spearman for numerical
+// pairs, Cramér's V for categorical pairs. Each pair only uses the rows where
+// both values are present, and reports how many that was.
+
+export type CorrelationMethod = 'pearson' | 'spearman' | 'cramers-v'
+
+export interface Correlation {
+  x: string
+  y: string
+  value: number
+  method: CorrelationMethod
+  // Rows where both columns have a value
+  n: number
+}
+
+export interface CorrelationMatrix {
+  columns: string[]
+  // One entry per unordered pair
+  pairs: Correlation[]
+}
+
+export type CorrelationSet = Record<CorrelationMethod, CorrelationMatrix>
+
+export const CORRELATION_LABELS: Record<CorrelationMethod, string> = {
+  pearson: 'Pearson',
+  spearman: 'Spearman',
+  'cramers-v': "Cramér's V"
+}
+
+// Keeps the matrix readable and the pairwise work bounded
+const MAX_COLUMNS = 25
+// Contingency tables beyond this many categories are too sparse to mean much
+const MAX_CATEGORIES = 100
+// Pairs need a few rows before a coefficient says anything
+const MIN_PAIRS = 3
+
+// One number per row, NaN where the cell is missing or not numeric
+export function numericVector(column: DatasetColumn, rowCount: number, info: ColumnInfo): Float64Array {
+  if (column.kind === 'number' || column.kind === 'date') return column.values
+  const values = new Float64Array(rowCount)
+  for (let i = 0; i < rowCount; i++) {
+    const value = cellValue(column, i)
+    values[i] = value === null ? NaN
+      : typeof value === 'string' ? semanticNumber(value, info.semanticType)
+      : Number(value)
+  }
+  return values
+}
+
+// One category code per row, -1 where the cell is missing
+function categoryVector(column: DatasetColumn, rowCount: number): { codes: Int32Array; levels: number } {
+  if (column.kind === 'category') return { codes: column.codes, levels: column.dictionary.length }
+  const lookup = new Map<string, number>()
+  const codes = new Int32Array(rowCount)
+  for (let i = 0; i < rowCount; i++) {
+    const value = cellValue(column, i)
+    if (value === null) {
+      codes[i] = -1
+      continue
+    }
+    const key = value instanceof Date ? value.toISOString() : String(value)
+    let code = lookup.get(key)
+    if (code === undefined) {
+      code = lookup.size
+      lookup.set(key, code)
+    }
+    codes[i] = code
+  }
+  return { codes, levels: lookup.size }
+}
+
+// NaN when either side is constant
+export function pearson(xs: ArrayLike<number>, ys: ArrayLike<number>): number {
+  const n = xs.length
+  let meanX = 0
+  let meanY = 0
+  for (let i = 0; i < n; i++) {
+    meanX += xs[i]
+    meanY += ys[i]
+  }
+  meanX /= n
+  meanY /= n
+  let covariance = 0
+  let varianceX = 0
+  let varianceY = 0
+  for (let i = 0; i < n; i++) {
+    const dx = xs[i] - meanX
+    const dy = ys[i] - meanY
+    covariance += dx * dy
+    varianceX += dx * dx
+    varianceY += dy * dy
+  }
+  return varianceX > 0 && varianceY > 0 ? covariance / Math.sqrt(varianceX * varianceY) : NaN
+}
+
+// Ranks starting at 1, with tied values sharing their average rank
+function ranks(values: Float64Array): Float64Array {
+  const order = Array.from(values.keys()).sort((a, b) => values[a] - values[b])
+  const result = new Float64Array(values.length)
+  for (let start = 0; start < order.length;) {
+    let end = start
+    while (end + 1 < order.length && values[order[end + 1]] === values[order[start]]) end++
+    const rank = (start + end) / 2 + 1
+    for (let k = start; k <= end; k++) result[order[k]] = rank
+    start = end + 1
+  }
+  return result
+}
+
+function cramersV(xs: Int32Array, ys: Int32Array, levelsX: number, levelsY: number): { value: number; n: number } {
+  const table = new Float64Array(levelsX * levelsY)
+  const rowTotals = new Float64Array(levelsX)
+  const columnTotals = new Float64Array(levelsY)
+  let n = 0
+  for (let i = 0; i < xs.length; i++) {
+    if (xs[i] === -1 || ys[i] === -1) continue
+    table[xs[i] * levelsY + ys[i]]++
+    rowTotals[xs[i]]++
+    columnTotals[ys[i]]++
+    n++
+  }
+  // Levels that never occur together with the other column do not count towards the degrees of freedom
+  const r = rowTotals.filter(total => total > 0).length
+  const c = columnTotals.filter(total => total > 0).length
+  if (n < MIN_PAIRS || r < 2 || c < 2) return { value: NaN, n }
+
+  let chiSquared = 0
+  for (let a = 0; a < levelsX; a++) {
+    if (rowTotals[a] === 0) continue
+    for (let b = 0; b < levelsY; b++) {
+      if (columnTotals[b] === 0) continue
+      const expected = (rowTotals[a] * columnTotals[b]) / n
+      const observed = table[a * levelsY + b]
+      chiSquared += (observed - expected) ** 2 / expected
+    }
+  }
+  return { value: Math.sqrt(chiSquared / n / Math.min(r - 1, c - 1)), n }
+}
+
+function numericPairs(dataset: Dataset, columns: ColumnInfo[]): { pearson: CorrelationMatrix; spearman: CorrelationMatrix } {
+  const names = columns.map(column => column.name)
+  const vectors = columns.map(info => numericVector(dataset.column(info.name)!, dataset.rowCount, info))
+  const pearsonPairs: Correlation[] = []
+  const spearmanPairs: Correlation[] = []
+  // Columns without gaps are ranked once and the ranks reused for every pair they are in;
+  // pairs with missing values have to rank the rows they share
+  const columnRanks = new Map<number, Float64Array>()
+  const ranksOf = (index: number) => {
+    let cached = columnRanks.get(index)
+    if (!cached) {
+      cached = ranks(vectors[index])
+      columnRanks.set(index, cached)
+    }
+    return cached
+  }
+
+  for (let a = 0; a < vectors.length; a++) {
+    for (let b = a + 1; b < vectors.length; b++) {
+      // Pairwise-complete rows only
+      const xs: number[] = []
+      const ys: number[] = []
+      for (let i = 0; i < dataset.rowCount; i++) {
+        const x = vectors[a][i]
+        const y = vectors[b][i]
+        if (Number.isFinite(x) && Number.isFinite(y)) {
+          xs.push(x)
+          ys.push(y)
+        }
+      }
+      const n = xs.length
+      if (n < MIN_PAIRS) continue
+      const x = Float64Array.from(xs)
+      const y = Float64Array.from(ys)
+      pearsonPairs.push({ x: names[a], y: names[b], value: pearson(x, y), method: 'pearson', n })
+      const spearman = n === dataset.rowCount ? pearson(ranksOf(a), ranksOf(b)) : pearson(ranks(x), ranks(y))
+      spearmanPairs.push({ x: names[a], y: names[b], value: spearman, method: 'spearman', n })
+    }
+  }
+
+  return {
+    pearson: { columns: names, pairs: pearsonPairs.filter(pair => !Number.isNaN(pair.value)) },
+    spearman: { columns: names, pairs: spearmanPairs.filter(pair => !Number.isNaN(pair.value)) }
+  }
+}
+
+function categoricalPairs(dataset: Dataset, columns: ColumnInfo[]): CorrelationMatrix {
+  const vectors = columns
+    .map(info => ({ name: info.name, ...categoryVector(dataset.column(info.name)!, dataset.rowCount) }))
+    .filter(vector => vector.levels >= 2 && vector.levels <= MAX_CATEGORIES)
+  const pairs: Correlation[] = []
+  for (let a = 0; a < vectors.length; a++) {
+    for (let b = a + 1; b < vectors.length; b++) {
+      const { value, n } = cramersV(vectors[a].codes, vectors[b].codes, vectors[a].levels, vectors[b].levels)
+      if (!Number.isNaN(value)) pairs.push({ x: vectors[a].name, y: vectors[b].name, value, method: 'cramers-v', n })
+    }
+  }
+  return { columns: vectors.map(vector => vector.name), pairs }
+}
+
+export function computeCorrelations(dataset: Dataset, columns: ColumnInfo[]): CorrelationSet {
+  const present = columns.filter(column => dataset.column(column.name))
+  const numerical = present.filter(column => column.type === 'numerical').slice(0, MAX_COLUMNS)
+  const categorical = present.filter(column => column.type === 'categorical').slice(0, MAX_COLUMNS)
+  return { ...numericPairs(dataset, numerical), 'cramers-v': categoricalPairs(dataset, categorical) }
+}
+
+// All pairs across methods, strongest association first
+export function strongestPairs(correlations: CorrelationSet, limit: number): Correlation[] {
+  return Object.values(correlations)
+    .flatMap(matrix => matrix.pairs)
+    .sort((a, b) => Math.abs(b.value) - Math.abs(a.value))
+    .slice(0, limit)
+}
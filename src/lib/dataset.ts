@@ -0,0 +1,296 @@
+import type { DateFormat } from "@/lib/date-parsing"
+
+// Columnar in-memory storage for an uploaded table.
+//
+// Numbers and dates live in Float64Arrays (NaN marks a missing value, dates are
+// epoch milliseconds), repeated strings are dictionary-encoded and only
+// high-cardinality text keeps one string per cell. Components that still think
+// in row objects use `rows()`, a lazy view that materializes rows on access.
+
+export type DataRow = Record<string, unknown>
+
+export type DatasetColumn =
+  | { name: string; kind: 'number'; values: Float64Array }
+  // `format` records how the values were parsed from text, when they were
+  | { name: string; kind: 'date'; values: Float64Array; format?: DateFormat }
+  | { name: string; kind: 'boolean'; values: Int8Array }
+  | { name: string; kind: 'category'; codes: Int32Array; dictionary: string[] }
+  | { name: string; kind: 'text'; values: (string | null)[] }
+
+export type ColumnKind = DatasetColumn['kind']
+
+// Plain, structured-cloneable form used to move a dataset out of the import worker
+export interface DatasetSnapshot {
+  rowCount: number
+  columns: DatasetColumn[]
+}
+
+// Strings stop being dictionary-encoded once most of them are distinct
+const MAX_DICTIONARY_SHARE = 0.5
+const MIN_DICTIONARY_LIMIT = 1000
+
+const isMissing = (value: unknown) =>
+  value === null || value === undefined || (typeof value === 'string' && value.trim() === '')
+
+// Picks the most compact representation for one column of parsed cell values
+export function buildColumn(name: string, raw: unknown[]): DatasetColumn {
+  const rowCount = raw.length
+  let numbers = 0
+  let dates = 0
+  let booleans = 0
+  let present = 0
+  for (const value of raw) {
+    if (isMissing(value)) continue
+    present++
+    if (typeof value === 'number') numbers++
+    else if (value instanceof Date) dates++
+    else if (typeof value === 'boolean') booleans++
+  }
+
+  if (present > 0 && numbers === present) {
+    const values = new Float64Array(rowCount)
+    raw.forEach((value, i) => { values[i] = isMissing(value) ? NaN : (value as number) })
+    return { name, kind: 'number', values }
+  }
+  if (present > 0 && dates === present) {
+    const values = new Float64Array(rowCount)
+    raw.forEach((value, i) => { values[i] = isMissing(value) ? NaN : (value as Date).getTime() })
+    return { name, kind: 'date', values }
+  }
+  if (present > 0 && booleans === present) {
+    const values = new Int8Array(rowCount)
+    raw.forEach((value, i) => { values[i] = isMissing(value) ? -1 : value ? 1 : 0 })
+    return { name, kind: 'boolean', values }
+  }
+
+  // Everything else is stored as strings, dictionary-encoded while that pays off
+  const limit = Math.max(MIN_DICTIONARY_LIMIT, rowCount * MAX_DICTIONARY_SHARE)
+  const lookup = new Map<string, number>()
+  const dictionary: string[] = []
+  const codes = new Int32Array(rowCount)
+  for (let i = 0; i < rowCount; i++) {
+    const value = raw[i]
+    if (isMissing(value)) {
+      codes[i] = -1
+      continue
+    }
+    const text = value instanceof Date ? value.toISOString() : String(value)
+    let code = lookup.get(text)
+    if (code === undefined) {
+      if (dictionary.length >= limit) {
+        return {
+          name,
+          kind: 'text',
+          values: raw.map(v => isMissing(v) ? null : v instanceof Date ? v.toISOString() : String(v))
+        }
+      }
+      code = dictionary.length
+      dictionary.push(text)
+      lookup.set(text, code)
+    }
+    codes[i] = code
+  }
+  return { name, kind: 'category', codes, dictionary }
+}
+
+// Collects parsed values column by column so no per-row objects are kept
+export class DatasetBuilder {
+  private readonly headers: string[]
+  private readonly buffers: unknown[][]
+
+  constructor(headers: string[]) {
+    this.headers = headers
+    this.buffers = headers.map(() => [])
+  }
+
+  addRow(values: ArrayLike<unknown>): void {
+    for (let c = 0; c < this.buffers.length; c++) {
+      this.buffers[c].push(values[c])
+    }
+  }
+
+  get rowCount(): number {
+    return this.buffers[0]?.length ?? 0
+  }
+
+  build(): Dataset {
+    const rowCount = this.rowCount
+    const columns = this.headers.map((header, c) => buildColumn(header, this.buffers[c]))
+    return new Dataset({ rowCount, columns })
+  }
+}
+
+export function cellValue(column: DatasetColumn, index: number): string | number | boolean | Date | null {
+  switch (column.kind) {
+    case 'number': {
+      const value = column.values[index]
+      return Number.isNaN(value) ? null : value
+    }
+    case 'date': {
+      const value = column.values[index]
+      return Number.isNaN(value) ? null : new Date(value)
+    }
+    case 'boolean': {
+      const value = column.values[index]
+      return value === -1 ? null : value === 1
+    }
+    case 'category': {
+      const code = column.codes[index]
+      return code === -1 ? null : column.dictionary[code]
+    }
+    case 'text':
+      return column.values[index]
+  }
+}
+
+export function isNullAt(column: DatasetColumn, index: number): boolean {
+  switch (column.kind) {
+    case 'number':
+    case 'date':
+      return Number.isNaN(column.values[index])
+    case 'boolean':
+      return column.values[index] === -1
+    case 'category':
+      return column.codes[index] === -1
+    case 'text':
+      return column.values[index] === null
+  }
+}
+
+// Non-missing values of a numeric or date column as a compact array
+export function presentNumbers(column: DatasetColumn): Float64Array {
+  if (column.kind !== 'number' && column.kind !== 'date') return new Float64Array(0)
+  const { values } = column
+  let count = 0
+  for (let i = 0; i < values.length; i++) if (!Number.isNaN(values[i])) count++
+  const out = new Float64Array(count)
+  let j = 0
+  for (let i = 0; i < values.length; i++) if (!Number.isNaN(values[i])) out[j++] = values[i]
+  return out
+}
+
+// The given rows of a column, in the given order, keeping its encoding
+export function takeRows(column: DatasetColumn, indices: ArrayLike<number>): DatasetColumn {
+  const count = indices.length
+  switch (column.kind) {
+    case 'number':
+    case 'date': {
+      const values = new Float64Array(count)
+      for (let i = 0; i < count; i++) values[i] = column.values[indices[i]]
+      return { ...column, values }
+    }
+    case 'boolean': {
+      const values = new Int8Array(count)
+      for (let i = 0; i < count; i++) values[i] = column.values[indices[i]]
+      return { ...column, values }
+    }
+    case 'category': {
+      // Values that no longer occur are dropped from the dictionary
+      const remap = new Int32Array(column.dictionary.length).fill(-1)
+      const dictionary: string[] = []
+      const codes = new Int32Array(count)
+      for (let i = 0; i < count; i++) {
+        const code = column.codes[indices[i]]
+        if (code !== -1 && remap[code] === -1) {
+          remap[code] = dictionary.length
+          dictionary.push(column.dictionary[code])
+        }
+        codes[i] = code === -1 ? -1 : remap[code]
+      }
+      return { ...column, codes, dictionary }
+    }
+    case 'text': {
+      const values: (string | null)[] = new Array(count)
+      for (let i = 0; i < count; i++) values[i] = column.values[indices[i]]
+      return { ...column, values }
+    }
+  }
+}
+
+export class Dataset {
+  readonly rowCount: number
+  readonly columns: DatasetColumn[]
+  private readonly byName: Map<string, DatasetColumn>
+  private rowView: DataRow[] | null = null
+
+  constructor(snapshot: DatasetSnapshot) {
+    this.rowCount = snapshot.rowCount
+    this.columns = snapshot.columns
+    this.byName = new Map(snapshot.columns.map(column => [column.name, column]))
+  }
+
+  static fromRows(headers: string[], rows: DataRow[]): Dataset {
+    const builder = new DatasetBuilder(headers)
+    for (const row of rows) builder.addRow(headers.map(header => row[header]))
+    return builder.build()
+  }
+
+  get columnNames(): string[] {
+    return this.columns.map(column => column.name)
+  }
+
+  column(name: string): DatasetColumn | undefined {
+    return this.byName.get(name)
+  }
+
+  value(name: string, index: number) {
+    const column = this.byName.get(name)
+    return column ? cellValue(column, index) : undefined
+  }
+
+  row(index: number): DataRow {
+    const row: DataRow = {}
+    for (const column of this.columns) row[column.name] = cellValue(column, index)
+    return row
+  }
+
+  head(count: number): DataRow[] {
+    const rows: DataRow[] = []
+    for (let i = 0; i < Math.min(count, this.rowCount); i++) rows.push(this.row(i))
+    return rows
+  }
+
+  // Array-compatible view for code that still expects `any[]` of row objects.
+  // Rows are built on first access and cached, so reading a sample stays cheap.
+  rows(): DataRow[] {
+    if (this.rowView) return this.rowView
+
+    const rowCount = this.rowCount
+    const cache: DataRow[] = new Array(rowCount)
+    const toIndex = (prop: string | symbol) => {
+      if (typeof prop !== 'string') return -1
+      const index = Number(prop)
+      return Number.isInteger(index) && index >= 0 && index < rowCount && String(index) === prop ? index : -1
+    }
+
+    this.rowView = new Proxy(cache, {
+      get: (target, prop, receiver) => {
+        const index = toIndex(prop)
+        if (index === -1) return Reflect.get(target, prop, receiver)
+        return target[index] ?? (target[index] = this.row(index))
+      },
+      has: (target, prop) => toIndex(prop) !== -1 || Reflect.has(target, prop),
+      // Keep consumers from writing into the view; datasets are immutable
+      set: () => false
+    })
+    return this.rowView
+  }
+
+  // A new dataset holding only the given rows
+  take(indices: ArrayLike<number>): Dataset {
+    return new Dataset({ rowCount: indices.length, columns: this.columns.map(column => takeRows(column, indices)) })
+  }
+
+  toSnapshot(): DatasetSnapshot {
+    return { rowCount: this.rowCount, columns: this.columns }
+  }
+
+  // Buffers that can be transferred instead of copied when posting a snapshot
+  transferables(): ArrayBuffer[] {
+    return this.columns.flatMap(column => {
+      if (column.kind === 'number' || column.kind === 'date' || column.kind === 'boolean') return [column.values.buffer as ArrayBuffer]
+      if (column.kind === 'category') return [column.codes.buffer as ArrayBuffer]
+      return []
+    })
+  }
+}
@@ -0,0 +1,290 @@
+import type { DatasetColumn } from "@/lib/dataset"
+
+// Date/time parsing with one inferred format per column, so "03/04/2024" is
+// read the same way in every row. Timestamps are epoch milliseconds in UTC:
+// explicit offsets ("Z", "+02:00") are honoured, and values without one are
+// read as UTC so labels show the wall-clock time that was written.
+
+export type DateFormat =
+  | 'iso'            // 2024-03-15, 2024-03, 2024-03-15T10:30:00Z
+  | 'ymd'            // 2024/03/15, 2024.03.15
+  | 'mdy'            // 03/15/2024
+  | 'dmy'            // 15/03/2024, 15.03.2024
+  | 'month-name'     // Jan 2024, 15 Jan 2024, January 15, 2024
+  | 'quarter'        // 2024-Q3, Q3 2024
+  | 'year'           // 2024, only for columns named like a year
+  | 'epoch-seconds'
+  | 'epoch-millis'
+  | 'excel-serial'   // days since 1899-12-30
+
+export type Frequency =
+  | 'secondly'
+  | 'minutely'
+  | 'hourly'
+  | 'daily'
+  | 'weekly'
+  | 'monthly'
+  | 'quarterly'
+  | 'yearly'
+  | 'irregular'
+
+export const DATE_FORMAT_LABELS: Record<DateFormat, string> = {
+  iso: 'ISO 8601',
+  ymd: 'YYYY/MM/DD',
+  mdy: 'MM/DD/YYYY',
+  dmy: 'DD/MM/YYYY',
+  'month-name': 'Month name',
+  quarter: 'Quarter',
+  year: 'Year',
+  'epoch-seconds': 'Unix seconds',
+  'epoch-millis': 'Unix milliseconds',
+  'excel-serial': 'Excel serial'
+}
+
+const DAY = 86_400_000
+// Distinct values checked before a whole column is converted
+const SAMPLE_SIZE = 1000
+
+const TIME = String.raw`(?:[T\s]+(\d{1,2}):(\d{2})(?::(\d{2})(?:[.,](\d+))?)?\s*([ap]\.?m\.?)?)?\s*(Z|UTC|GMT|[+-]\d{2}:?\d{2})?`
+const ISO = new RegExp(String.raw`^(\d{4})-(\d{1,2})(?:-(\d{1,2})${TIME})?$`, 'i')
+const YMD = new RegExp(String.raw`^(\d{4})[/.](\d{1,2})[/.](\d{1,2})${TIME}$`, 'i')
+const DAY_MONTH = new RegExp(String.raw`^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4}|\d{2})${TIME}$`, 'i')
+const QUARTER_FIRST = /^(\d{4})\s*[-/ ]?\s*Q([1-4])$/i
+const QUARTER_LAST = /^Q([1-4])\s*[-/ ]?\s*(\d{4})$/i
+const DAY_MONTH_NAME = /^(\d{1,2})(?:st|nd|rd|th)?[\s-]+([a-z]{3,9})\.?,?[\s-]+(\d{4})$/i
+const MONTH_NAME_DAY = /^([a-z]{3,9})\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})$/i
+const MONTH_NAME_YEAR = /^([a-z]{3,9})\.?[\s-]+(\d{4})$/i
+
+const MONTHS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december'
+]
+
+// Numbers are only read as dates when the column name says so
+const TIME_NAME = /(date|time|timestamp|created|updated|modified|_at$|_on$|^day$|period)/i
+const YEAR_NAME = /(^year$|^yr$|[_\s]year$|^year[_\s])/i
+
+// 1-based month for "Mar", "March" or "Sept"; -1 for anything else
+function monthNumber(name: string): number {
+  const lower = name.toLowerCase()
+  if (lower.length < 3) return -1
+  return MONTHS.findIndex(month => month.startsWith(lower) || (lower === 'sept' && month === 'september')) + 1 || -1
+}
+
+function offsetMinutes(zone: string | undefined): number {
+  if (!zone || /^(z|utc|gmt)$/i.test(zone)) return 0
+  const sign = zone.startsWith('-') ? -1 : 1
+  const digits = zone.slice(1).replace(':', '')
+  return sign * (Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2)))
+}
+
+// Builds a UTC timestamp from calendar parts, rejecting impossible dates like 2024-02-31
+// `time` holds the captures of TIME: hour, minute, second, fraction, am/pm and zone
+function fromParts(year: number, month: number, day: number, time: (string | undefined)[] = []): number {
+  const [hour, minute, second, fraction, meridiem, zone] = time
+  if (month < 1 || month > 12 || day < 1) return NaN
+  let h = hour ? Number(hour) : 0
+  if (meridiem) {
+    if (h < 1 || h > 12) return NaN
+    h = (h % 12) + (meridiem.toLowerCase().startsWith('p') ? 12 : 0)
+  }
+  const m = minute ? Number(minute) : 0
+  const s = second ? Number(second) : 0
+  if (h > 23 || m > 59 || s > 59) return NaN
+  const ms = fraction ? Math.round(Number(`0.${fraction}`) * 1000) : 0
+  const timestamp = Date.UTC(year, month - 1, day, h, m, s, ms)
+  if (new Date(timestamp).getUTCDate() !== day) return NaN
+  return timestamp - offsetMinutes(zone) * 60_000
+}
+
+const fullYear = (year: string) => year.length === 2 ? (Number(year) < 50 ? 2000 : 1900) + Number(year) : Number(year)
+
+// Parses one value with a known format; NaN when it does not fit
+export function parseDate(value: string | number, format: DateFormat): number {
+  if (typeof value === 'number') {
+    switch (format) {
+      case 'epoch-seconds': return value * 1000
+      case 'epoch-millis': return value
+      // Serial 60 is Excel's phantom 1900-02-29; the epoch below is right for everything after it
+      case 'excel-serial': return Math.round((value - 25569) * DAY)
+      case 'year': return Number.isInteger(value) ? Date.UTC(value, 0, 1) : NaN
+      default: return parseDate(String(value), format)
+    }
+  }
+
+  const text = value.trim()
+  let match: RegExpExecArray | null
+  switch (format) {
+    case 'iso':
+      if (!(match = ISO.exec(text))) return NaN
+      return fromParts(Number(match[1]), Number(match[2]), match[3] ? Number(match[3]) : 1, match.slice(4, 10))
+    case 'ymd':
+      if (!(match = YMD.exec(text))) return NaN
+      return fromParts(Number(match[1]), Number(match[2]), Number(match[3]), match.slice(4, 10))
+    case 'mdy':
+    case 'dmy': {
+      if (!(match = DAY_MONTH.exec(text))) return NaN
+      const [first, second] = [Number(match[1]), Number(match[2])]
+      const [month, day] = format === 'mdy' ? [first, second] : [second, first]
+      return fromParts(fullYear(match[3]), month, day, match.slice(4, 10))
+    }
+    case 'quarter': {
+      const first = QUARTER_FIRST.exec(text)
+      const last = first ? null : QUARTER_LAST.exec(text)
+      if (!first && !last) return NaN
+      const [year, quarter] = first ? [Number(first[1]), Number(first[2])] : [Number(last![2]), Number(last![1])]
+      return Date.UTC(year, (quarter - 1) * 3, 1)
+    }
+    case 'month-name': {
+      if ((match = DAY_MONTH_NAME.exec(text))) return fromParts(Number(match[3]), monthNumber(match[2]), Number(match[1]))
+      if ((match = MONTH_NAME_DAY.exec(text))) return fromParts(Number(match[3]), monthNumber(match[1]), Number(match[2]))
+      if ((match = MONTH_NAME_YEAR.exec(text))) return fromParts(Number(match[2]), monthNumber(match[1]), 1)
+      return NaN
+    }
+    case 'year':
+      return /^\d{4}$/.test(text) ? Date.UTC(Number(text), 0, 1) : NaN
+    default:
+      return text === '' || isNaN(Number(text)) ? NaN : parseDate(Number(text), format)
+  }
+}
+
+const TEXT_FORMATS: DateFormat[] = ['iso', 'ymd', 'quarter', 'month-name']
+
+// Picks the single format that reads every sampled value, or undefined when none does.
+// Slash dates are day-first only when some value cannot be month-first.
+export function inferTextFormat(values: string[]): DateFormat | undefined {
+  if (values.length === 0) return undefined
+  for (const format of TEXT_FORMATS) {
+    if (values.every(value => !Number.isNaN(parseDate(value, format)))) return format
+  }
+  if (values.every(value => !Number.isNaN(parseDate(value, 'mdy')))) return 'mdy'
+  if (values.every(value => !Number.isNaN(parseDate(value, 'dmy')))) return 'dmy'
+  return undefined
+}
+
+export function inferNumericFormat(name: string, min: number, max: number, integers: boolean): DateFormat | undefined {
+  if (YEAR_NAME.test(name)) return integers && min >= 1800 && max <= 2200 ? 'year' : undefined
+  if (!TIME_NAME.test(name)) return undefined
+  if (min >= 1e11 && max < 1e13) return 'epoch-millis'
+  if (min >= 1e8 && max < 1e10) return 'epoch-seconds'
+  if (min >= 20000 && max < 80000) return 'excel-serial'
+  return undefined
+}
+
+function sampleStrings(column: DatasetColumn): string[] {
+  if (column.kind === 'category') return column.dictionary.slice(0, SAMPLE_SIZE)
+  if (column.kind !== 'text') return []
+  const sample = new Set<string>()
+  for (const value of column.values) {
+    if (value !== null) sample.add(value)
+    if (sample.size >= SAMPLE_SIZE) break
+  }
+  return [...sample]
+}
+
+// Converts a text or numeric column whose values are all dates into a date column.
+// Returns null when the column is not (entirely) dates, so nothing is ever lost.
+export function parseDateColumn(column: DatasetColumn): DatasetColumn | null {
+  if (column.kind === 'number') {
+    let min = Infinity
+    let max = -Infinity
+    let integers = true
+    for (const value of column.values) {
+      if (Number.isNaN(value)) continue
+      if (value < min) min = value
+      if (value > max) max = value
+      if (!Number.isInteger(value)) integers = false
+    }
+    if (min === Infinity) return null
+    const format = inferNumericFormat(column.name, min, max, integers)
+    if (!format) return null
+    return { name: column.name, kind: 'date', format, values: column.values.map(value => parseDate(value, format)) }
+  }
+
+  if (column.kind !== 'category' && column.kind !== 'text') return null
+  const format = inferTextFormat(sampleStrings(column))
+  if (!format) return null
+
+  if (column.kind === 'category') {
+    const parsed = column.dictionary.map(value => parseDate(value, format))
+    if (parsed.some(Number.isNaN)) return null
+    const values = new Float64Array(column.codes.length)
+    column.codes.forEach((code, i) => { values[i] = code === -1 ? NaN : parsed[code] })
+    return { name: column.name, kind: 'date', format, values }
+  }
+
+  const values = new Float64Array(column.values.length)
+  for (let i = 0; i < column.values.length; i++) {
+    const value = column.values[i]
+    values[i] = value === null ? NaN : parseDate(value, format)
+    if (value !== null && Number.isNaN(values[i])) return null
+  }
+  return { name: column.name, kind: 'date', format, values }
+}
+
+// Typical spacing of distinct timestamps, named by calendar period
+export function detectFrequency(timestamps: ArrayLike<number>): Frequency {
+  const distinct = [...new Set(Array.from(timestamps))].sort((a, b) => a - b)
+  if (distinct.length < 3) return 'irregular'
+  const gaps = distinct.slice(1).map((value, i) => value - distinct[i]).sort((a, b) => a - b)
+  const gap = gaps[Math.floor(gaps.length / 2)]
+  const days = gap / DAY
+
+  if (days >= 364 && days <= 366) return 'yearly'
+  if (days >= 89 && days <= 92) return 'quarterly'
+  if (days >= 28 && days <= 31) return 'monthly'
+  if (days === 7) return 'weekly'
+  if (days === 1) return 'daily'
+  if (gap === 3_600_000) return 'hourly'
+  if (gap === 60_000) return 'minutely'
+  if (gap === 1000) return 'secondly'
+  return 'irregular'
+}
+
+// Start of the period a timestamp falls in, for bucketing a time series
+export function periodStart(time: number, frequency: Frequency): number {
+  const date = new Date(time)
+  const year = date.getUTCFullYear()
+  const month = date.getUTCMonth()
+  switch (frequency) {
+    case 'yearly': return Date.UTC(year, 0, 1)
+    case 'quarterly': return Date.UTC(year, month - (month % 3), 1)
+    case 'monthly': return Date.UTC(year, month, 1)
+    // Weeks start on Monday
+    case 'weekly': return Date.UTC(year, month, date.getUTCDate() - ((date.getUTCDay() + 6) % 7))
+    case 'daily': return Date.UTC(year, month, date.getUTCDate())
+    case 'hourly': return time - (time % 3_600_000)
+    case 'minutely': return time - (time % 60_000)
+    case 'secondly': return time - (time % 1000)
+    case 'irregular': return time
+  }
+}
+
+// Moves a timestamp forward by whole periods; irregular series step by days
+export function addPeriods(time: number, frequency: Frequency, count: number): number {
+  const date = new Date(time)
+  switch (frequency) {
+    case 'yearly': return date.setUTCFullYear(date.getUTCFullYear() + count)
+    case 'quarterly': return date.setUTCMonth(date.getUTCMonth() + count * 3)
+    case 'monthly': return date.setUTCMonth(date.getUTCMonth() + count)
+    case 'weekly': return time + count * 7 * DAY
+    case 'hourly': return time + count * 3_600_000
+    case 'minutely': return time + count * 60_000
+    case 'secondly': return time + count * 1000
+    default: return time + count * DAY
+  }
+}
+
+export function formatDateLabel(time: number, frequency: Frequency = 'daily'): string {
+  const iso = new Date(time).toISOString()
+  switch (frequency) {
+    case 'yearly': return iso.slice(0, 4)
+    case 'quarterly': return `${iso.slice(0, 4)}-Q${Math.floor(new Date(time).getUTCMonth() / 3) + 1}`
+    case 'monthly': return iso.slice(0, 7)
+    case 'daily':
+    case 'weekly': return iso.slice(0, 10)
+    case 'secondly': return `${iso.slice(0, 10)} ${iso.slice(11, 19)}`
+    default:
+      return time % DAY === 0 ? iso.slice(0, 10) : `${iso.slice(0, 10)} ${iso.slice(11, 16)}`
+  }
+}
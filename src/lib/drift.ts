@@ -0,0 +1,239 @@
+import { Dataset, DatasetColumn, cellValue } from "@/lib/dataset"
+import { ColumnInfo, ColumnType } from "@/lib/profiling"
+import { numericVector } from "@/lib/correlation"
+import { quantile } from "@/lib/statistics"
+
+// Comparison of a dataset against a pinned baseline profile. The baseline
+// keeps no rows, only the column profiles plus a small sketch per column
+// (quantiles for numbers and dates, value counts otherwise), so it can be
+// saved in the browser and compared with next week's upload of the same export.
+
+export type NumericSketch = { kind: 'numeric'; count: number; quantiles: number[] }
+export type CategoricalSketch = { kind: 'categorical'; count: number; counts: Record<string, number> }
+export type ColumnSketch = NumericSketch | CategoricalSketch
+
+export interface BaselineProfile {
+  name: string
+  // ISO timestamp of when the baseline was pinned
+  pinnedAt: string
+  rowCount: number
+  columns: ColumnInfo[]
+  sketches: Record<string, ColumnSketch>
+}
+
+export type DriftLevel = 'none' | 'moderate' | 'significant'
+
+export interface Change {
+  before: number
+  after: number
+}
+
+export interface ColumnDrift {
+  name: string
+  type: ColumnType
+  nullRate: Change
+  cardinality: Change
+  // Numerical columns only
+  mean?: Change
+  // Population stability index over the baseline's bins or categories
+  psi?: number
+  // Two-sample Kolmogorov-Smirnov statistic and its asymptotic p-value, numbers and dates only
+  ks?: number
+  ksPValue?: number
+  level: DriftLevel
+}
+
+export interface ProfileComparison {
+  rowCount: Change
+  added: ColumnInfo[]
+  removed: ColumnInfo[]
+  retyped: { name: string; before: ColumnType; after: ColumnType }[]
+  columns: ColumnDrift[]
+}
+
+// 101 points: every percentile plus the extremes
+const QUANTILE_POINTS = 101
+// Categories kept per column; the rest are pooled
+const MAX_CATEGORIES = 50
+const OTHER = '\u0000other'
+const PSI_BINS = 10
+// Conventional PSI reading: below 0.1 stable, 0.1 to 0.25 some shift, above 0.25 a real change
+const PSI_MODERATE = 0.1
+const PSI_SIGNIFICANT = 0.25
+// With thousands of rows KS finds tiny shifts significant, so the statistic must also be large
+const KS_ALPHA = 0.001
+const KS_MIN_STATISTIC = 0.1
+// Keeps empty bins from making the logarithm in PSI infinite
+const EPSILON = 1e-4
+
+const isNumeric = (info: ColumnInfo) => info.type === 'numerical' || info.type === 'temporal'
+
+function presentSorted(column: DatasetColumn, rowCount: number, info: ColumnInfo): Float64Array {
+  return numericVector(column, rowCount, info).filter(value => !Number.isNaN(value)).sort()
+}
+
+function categoryCounts(column: DatasetColumn, rowCount: number): Map<string, number> {
+  const counts = new Map<string, number>()
+  for (let i = 0; i < rowCount; i++) {
+    const value = cellValue(column, i)
+    if (value === null) continue
+    const key = value instanceof Date ? value.toISOString() : String(value)
+    counts.set(key, (counts.get(key) ?? 0) + 1)
+  }
+  return counts
+}
+
+function sketchColumn(column: DatasetColumn, rowCount: number, info: ColumnInfo): ColumnSketch {
+  if (isNumeric(info)) {
+    const sorted = presentSorted(column, rowCount, info)
+    const quantiles = sorted.length === 0 ? [] : Array.from({ length: QUANTILE_POINTS }, (_, i) => quantile(sorted, i / (QUANTILE_POINTS - 1)))
+    return { kind: 'numeric', count: sorted.length, quantiles }
+  }
+  const entries = [...categoryCounts(column, rowCount).entries()].sort((a, b) => b[1] - a[1])
+  // No prototype, so categories such as "constructor" start from zero like any other
+  const counts: Record<string, number> = Object.create(null)
+  let count = 0
+  entries.forEach(([value, n], i) => {
+    const key = i < MAX_CATEGORIES ? value : OTHER
+    counts[key] = (counts[key] ?? 0) + n
+    count += n
+  })
+  return { kind: 'categorical', count, counts }
+}
+
+export function createBaseline(name: string, dataset: Dataset, columns: ColumnInfo[]): BaselineProfile {
+  const sketches: Record<string, ColumnSketch> = {}
+  for (const info of columns) {
+    const column = dataset.column(info.name)
+    if (column) sketches[info.name] = sketchColumn(column, dataset.rowCount, info)
+  }
+  return { name, pinnedAt: new Date().toISOString(), rowCount: dataset.rowCount, columns, sketches }
+}
+
+function psi(expected: number[], actual: number[]): number {
+  let total = 0
+  for (let i = 0; i < expected.length; i++) {
+    const e = Math.max(expected[i], EPSILON)
+    const a = Math.max(actual[i], EPSILON)
+    total += (a - e) * Math.log(a / e)
+  }
+  return total
+}
+
+// Share of the sketched distribution at or below x, interpolated between quantile points
+function sketchCdf(quantiles: number[], x: number): number {
+  const last = quantiles.length - 1
+  if (x < quantiles[0]) return 0
+  if (x >= quantiles[last]) return 1
+  let lo = 0
+  let hi = last
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1
+    if (quantiles[mid] <= x) lo = mid
+    else hi = mid
+  }
+  const span = quantiles[hi] - quantiles[lo]
+  return (lo + (span > 0 ? (x - quantiles[lo]) / span : 1)) / last
+}
+
+// Asymptotic Kolmogorov distribution with Stephens' small-sample correction
+function ksPValue(statistic: number, n: number, m: number): number {
+  const en = Math.sqrt((n * m) / (n + m))
+  const lambda = (en + 0.12 + 0.11 / en) * statistic
+  // The series does not converge near zero, where the p-value is 1 anyway
+  if (lambda < 0.2) return 1
+  let sum = 0
+  for (let k = 1; k <= 100; k++) {
+    const term = 2 * (k % 2 === 1 ? 1 : -1) * Math.exp(-2 * k * k * lambda * lambda)
+    sum += term
+    if (Math.abs(term) < 1e-10) break
+  }
+  return Math.min(1, Math.max(0, sum))
+}
+
+function numericDrift(baseline: NumericSketch, current: NumericSketch): Pick<ColumnDrift, 'psi' | 'ks' | 'ksPValue'> {
+  if (baseline.quantiles.length === 0 || current.quantiles.length === 0) return {}
+  // Bins are the baseline's deciles, so each holds a tenth of the baseline
+  const edges = Array.from({ length: PSI_BINS - 1 }, (_, i) => baseline.quantiles[Math.round(((i + 1) * (QUANTILE_POINTS - 1)) / PSI_BINS)])
+  const shares = (quantiles: number[]) => {
+    const cdf = edges.map(edge => sketchCdf(quantiles, edge))
+    return [...cdf, 1].map((value, i) => value - (i === 0 ? 0 : cdf[i - 1]))
+  }
+  let ks = 0
+  for (const x of [...baseline.quantiles, ...current.quantiles]) {
+    ks = Math.max(ks, Math.abs(sketchCdf(baseline.quantiles, x) - sketchCdf(current.quantiles, x)))
+  }
+  return {
+    psi: psi(shares(baseline.quantiles), shares(current.quantiles)),
+    ks,
+    ksPValue: ksPValue(ks, baseline.count, current.count)
+  }
+}
+
+function categoricalPsi(baseline: CategoricalSketch, current: CategoricalSketch): number | undefined {
+  if (baseline.count === 0 || current.count === 0) return undefined
+  // Values the baseline did not keep, including new ones, count as "other"
+  const keys = new Set([...Object.keys(baseline.counts), OTHER])
+  const actual = new Map<string, number>()
+  for (const [value, n] of Object.entries(current.counts)) {
+    const key = keys.has(value) ? value : OTHER
+    actual.set(key, (actual.get(key) ?? 0) + n)
+  }
+  const ordered = [...keys]
+  return psi(
+    ordered.map(key => (baseline.counts[key] ?? 0) / baseline.count),
+    ordered.map(key => (actual.get(key) ?? 0) / current.count)
+  )
+}
+
+function driftLevel(drift: Pick<ColumnDrift, 'psi' | 'ks' | 'ksPValue'>): DriftLevel {
+  const ksShift = drift.ks !== undefined && drift.ksPValue < KS_ALPHA && drift.ks >= KS_MIN_STATISTIC
+  if ((drift.psi ?? 0) >= PSI_SIGNIFICANT || ksShift) return 'significant'
+  return (drift.psi ?? 0) >= PSI_MODERATE ? 'moderate' : 'none'
+}
+
+const nullRate = (info: ColumnInfo, rowCount: number) => rowCount > 0 ? info.nullCount / rowCount : 0
+
+export function compareToBaseline(baseline: BaselineProfile, dataset: Dataset, columns: ColumnInfo[]): ProfileComparison {
+  const before = new Map(baseline.columns.map(info => [info.name, info]))
+  const after = new Map(columns.map(info => [info.name, info]))
+
+  const retyped: ProfileComparison['retyped'] = []
+  const drifts: ColumnDrift[] = []
+  for (const info of columns) {
+    const old = before.get(info.name)
+    const column = dataset.column(info.name)
+    if (!old || !column) continue
+    if (old.type !== info.type) {
+      retyped.push({ name: info.name, before: old.type, after: info.type })
+      continue
+    }
+    const sketch = baseline.sketches[info.name]
+    const current = sketchColumn(column, dataset.rowCount, info)
+    const drift = sketch?.kind === 'numeric' && current.kind === 'numeric'
+      ? numericDrift(sketch, current)
+      : sketch?.kind === 'categorical' && current.kind === 'categorical'
+        ? { psi: categoricalPsi(sketch, current) }
+        : {}
+    const means = old.stats?.mean !== undefined && info.stats?.mean !== undefined
+      ? { mean: { before: old.stats.mean, after: info.stats.mean } }
+      : {}
+    drifts.push({
+      name: info.name,
+      type: info.type,
+      nullRate: { before: nullRate(old, baseline.rowCount), after: nullRate(info, dataset.rowCount) },
+      cardinality: { before: old.uniqueCount, after: info.uniqueCount },
+      ...means,
+      ...drift,
+      level: driftLevel(drift)
+    })
+  }
+
+  return {
+    rowCount: { before: baseline.rowCount, after: dataset.rowCount },
+    added: columns.filter(info => !before.has(info.name)),
+    removed: baseline.columns.filter(info => !after.has(info.name)),
+    retyped,
+    columns: drifts
+  }
+}
@@ -0,0 +1,226 @@
+import { Dataset, DatasetColumn, buildColumn, cellValue, isNullAt } from "@/lib/dataset"
+
+// Exact and near-duplicate rows. Near duplicates are found by comparing the
+// chosen key columns of rows that sort close to each other (the "sorted
+// neighbourhood" method), which keeps the work linear-ish instead of comparing
+// every pair of rows.
+
+export type MatchMethod = 'exact' | 'normalized' | 'edit-distance' | 'token-set'
+
+export type MergeStrategy = 'keep-first' | 'keep-last' | 'merge'
+
+export interface MatchOptions {
+  method: MatchMethod
+  // Columns compared between rows; all columns when empty
+  keys: string[]
+  // Minimum similarity (0 to 1) for the fuzzy methods
+  threshold: number
+}
+
+export interface DuplicateCluster {
+  // Row indices in ascending order
+  rows: number[]
+  // Lowest similarity between two rows that were linked into the cluster
+  similarity: number
+}
+
+export interface DeduplicationResult {
+  dataset: Dataset
+  removedRows: number
+}
+
+export const MATCH_METHOD_LABELS: Record<MatchMethod, string> = {
+  exact: 'Exact',
+  normalized: 'Normalized text',
+  'edit-distance': 'Edit distance',
+  'token-set': 'Token set'
+}
+
+export const MERGE_STRATEGY_LABELS: Record<MergeStrategy, string> = {
+  'keep-first': 'Keep first',
+  'keep-last': 'Keep last',
+  merge: 'Merge (fill gaps from the others)'
+}
+
+// Rows compared with each row in every sort order
+const WINDOW = 10
+// Long values are cut before the quadratic edit distance
+const MAX_COMPARED_LENGTH = 100
+
+// Lower case, no accents, punctuation or repeated spaces: "  Müller-Smith, J. " -> "muller smith j"
+export function normalizeText(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+}
+
+export function editSimilarity(a: string, b: string): number {
+  if (a === b) return 1
+  a = a.slice(0, MAX_COMPARED_LENGTH)
+  b = b.slice(0, MAX_COMPARED_LENGTH)
+  if (a.length === 0 || b.length === 0) return 0
+  // Levenshtein distance with two rolling rows
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+    }
+    previous = current
+  }
+  return 1 - previous[b.length] / Math.max(a.length, b.length)
+}
+
+// Jaccard similarity of the word sets, so word order and repeats do not matter
+export function tokenSetSimilarity(a: string, b: string): number {
+  const left = new Set(a.split(' ').filter(Boolean))
+  const right = new Set(b.split(' ').filter(Boolean))
+  if (left.size === 0 && right.size === 0) return 1
+  let shared = 0
+  for (const token of left) if (right.has(token)) shared++
+  return shared / (left.size + right.size - shared)
+}
+
+function cellText(column: DatasetColumn, row: number): string {
+  const value = cellValue(column, row)
+  if (value === null) return ''
+  return value instanceof Date ? value.toISOString() : String(value)
+}
+
+// Groups rows whose keys are identical; singletons are dropped
+function groupByKey(rowCount: number, keyOf: (row: number) => string): DuplicateCluster[] {
+  const groups = new Map<string, number[]>()
+  for (let row = 0; row < rowCount; row++) {
+    const key = keyOf(row)
+    const group = groups.get(key)
+    if (group) group.push(row)
+    else groups.set(key, [row])
+  }
+  return [...groups.values()].filter(rows => rows.length > 1).map(rows => ({ rows, similarity: 1 }))
+}
+
+function keyColumns(dataset: Dataset, keys: string[]): DatasetColumn[] {
+  const named = keys.map(name => dataset.column(name)).filter((column): column is DatasetColumn => column !== undefined)
+  return named.length > 0 ? named : dataset.columns
+}
+
+// Clusters of rows that are identical across every column
+export function exactDuplicates(dataset: Dataset): DuplicateCluster[] {
+  return findDuplicates(dataset, { method: 'exact', keys: [], threshold: 1 })
+}
+
+// Rows beyond the first in each cluster, i.e. the rows deduplication would remove
+export function duplicateRowCount(clusters: DuplicateCluster[]): number {
+  return clusters.reduce((sum, cluster) => sum + cluster.rows.length - 1, 0)
+}
+
+export function findDuplicates(dataset: Dataset, options: MatchOptions): DuplicateCluster[] {
+  const columns = keyColumns(dataset, options.keys)
+  const { rowCount } = dataset
+
+  if (options.method === 'exact') {
+    return groupByKey(rowCount, row => columns.map(column => cellText(column, row)).join('\u0000'))
+  }
+  const texts = columns.map(column => Array.from({ length: rowCount }, (_, row) => normalizeText(cellText(column, row))))
+  if (options.method === 'normalized') {
+    return groupByKey(rowCount, row => texts.map(values => values[row]).join('\u0000'))
+  }
+
+  const compare = options.method === 'edit-distance' ? editSimilarity : tokenSetSimilarity
+  const similarity = (a: number, b: number) => {
+    let total = 0
+    for (const values of texts) total += compare(values[a], values[b])
+    return total / texts.length
+  }
+
+  // Union-find over rows, remembering the weakest link that joined each cluster
+  const parent = Int32Array.from({ length: rowCount }, (_, i) => i)
+  const weakest = new Float64Array(rowCount).fill(1)
+  const find = (row: number): number => {
+    while (parent[row] !== row) {
+      parent[row] = parent[parent[row]]
+      row = parent[row]
+    }
+    return row
+  }
+  const link = (a: number, b: number, score: number) => {
+    const rootA = find(a)
+    const rootB = find(b)
+    if (rootA === rootB) return
+    const root = Math.min(rootA, rootB)
+    const other = Math.max(rootA, rootB)
+    parent[other] = root
+    weakest[root] = Math.min(weakest[root], weakest[other], score)
+  }
+
+  // Two orders: the text as written, and its words sorted, so reordered names still meet
+  const joined = (row: number) => texts.map(values => values[row]).join(' ')
+  const orders = [
+    joined,
+    (row: number) => joined(row).split(' ').sort().join(' ')
+  ]
+  for (const keyOf of orders) {
+    const keys = Array.from({ length: rowCount }, (_, row) => keyOf(row))
+    const sorted = Int32Array.from({ length: rowCount }, (_, i) => i).sort((a, b) => keys[a] < keys[b] ? -1 : keys[a] > keys[b] ? 1 : a - b)
+    for (let i = 0; i < sorted.length; i++) {
+      for (let j = i + 1; j < Math.min(sorted.length, i + 1 + WINDOW); j++) {
+        const a = sorted[i]
+        const b = sorted[j]
+        if (find(a) === find(b)) continue
+        const score = similarity(a, b)
+        if (score >= options.threshold) link(a, b, score)
+      }
+    }
+  }
+
+  const clusters = new Map<number, number[]>()
+  for (let row = 0; row < rowCount; row++) {
+    const root = find(row)
+    const members = clusters.get(root)
+    if (members) members.push(row)
+    else clusters.set(root, [row])
+  }
+  return [...clusters.entries()]
+    .filter(([, rows]) => rows.length > 1)
+    .map(([root, rows]) => ({ rows, similarity: weakest[root] }))
+    .sort((a, b) => b.rows.length - a.rows.length || a.rows[0] - b.rows[0])
+}
+
+// One row per cluster. Merging keeps the first row and fills its empty cells
+// from the other rows of the cluster, in row order.
+export function deduplicate(dataset: Dataset, clusters: DuplicateCluster[], strategy: MergeStrategy): DeduplicationResult {
+  const removed = new Set<number>()
+  const kept: { row: number; others: number[] }[] = []
+  for (const { rows } of clusters) {
+    const row = strategy === 'keep-last' ? rows[rows.length - 1] : rows[0]
+    const others = rows.filter(other => other !== row)
+    others.forEach(other => removed.add(other))
+    kept.push({ row, others })
+  }
+
+  let source = dataset
+  if (strategy === 'merge') {
+    const columns = dataset.columns.map(column => {
+      const fills: [number, number][] = []
+      for (const { row, others } of kept) {
+        if (!isNullAt(column, row)) continue
+        const donor = others.find(other => !isNullAt(column, other))
+        if (donor !== undefined) fills.push([row, donor])
+      }
+      if (fills.length === 0) return column
+      const raw = Array.from({ length: dataset.rowCount }, (_, i) => cellValue(column, i))
+      for (const [row, donor] of fills) raw[row] = raw[donor]
+      const rebuilt = buildColumn(column.name, raw)
+      return rebuilt.kind === 'date' && column.kind === 'date' ? { ...rebuilt, format: column.format } : rebuilt
+    })
+    source = new Dataset({ rowCount: dataset.rowCount, columns })
+  }
+
+  const keep: number[] = []
+  for (let i = 0; i < dataset.rowCount; i++) if (!removed.has(i)) keep.push(i)
+  return { dataset: source.take(keep), removedRows: removed.size }
+}
@@ -0,0 +1,561 @@
+import { Dataset, DatasetColumn, buildColumn, cellValue } from "@/lib/dataset"
+
+// Calculated columns. A formula is a small expression language (arithmetic,
+// comparisons, text, date and conditional functions) that is parsed once and
+// compiled into closures over the columnar dataset; there is no access to
+// JavaScript, so formulas typed by users cannot run arbitrary code.
+//
+// Missing values propagate: arithmetic, comparisons and most functions return
+// null when an input is null or has the wrong type, and null counts as false
+// in conditions. `coalesce` and `isnull` handle missing values explicitly.
+
+export interface CalculatedColumn {
+  name: string
+  expression: string
+}
+
+export type FormulaValue = number | string | boolean | Date | null
+
+export class FormulaError extends Error {
+  // Offset in the expression the error points at
+  readonly position: number
+
+  constructor(message: string, position: number) {
+    super(message)
+    this.name = 'FormulaError'
+    this.position = position
+  }
+}
+
+type Token = { type: 'number' | 'string' | 'name' | 'column' | 'symbol' | 'end'; text: string; position: number }
+
+type FormulaNode =
+  | { kind: 'literal'; value: FormulaValue }
+  | { kind: 'column'; name: string; position: number }
+  | { kind: 'unary'; operator: string; operand: FormulaNode }
+  | { kind: 'binary'; operator: string; left: FormulaNode; right: FormulaNode }
+  | { kind: 'call'; name: string; args: FormulaNode[]; position: number }
+
+type Evaluator = (row: number) => FormulaValue
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const SYMBOLS = ['==', '!=', '<>', '<=', '>=', '&&', '||', '+', '-', '*', '/', '%', '^', '&', '=', '<', '>', '!', '(', ')', ',']
+const KEYWORD_OPERATORS: Record<string, string> = { and: '&&', or: '||', not: '!' }
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+  while (i < expression.length) {
+    const char = expression[i]
+    if (/\s/.test(char)) {
+      i++
+      continue
+    }
+    const start = i
+    if (/[0-9.]/.test(char)) {
+      const match = /^(\d+\.?\d*|\.\d+)(e[+-]?\d+)?/i.exec(expression.slice(i))
+      if (!match) throw new FormulaError(`Unexpected "${char}"`, i)
+      tokens.push({ type: 'number', text: match[0], position: start })
+      i += match[0].length
+      continue
+    }
+    if (char === '"' || char === "'") {
+      // Quotes are escaped by doubling them, as in SQL
+      let text = ''
+      i++
+      for (;;) {
+        if (i >= expression.length) throw new FormulaError('Unclosed text', start)
+        if (expression[i] === char) {
+          if (expression[i + 1] !== char) break
+          i++
+        }
+        text += expression[i++]
+      }
+      i++
+      tokens.push({ type: 'string', text, position: start })
+      continue
+    }
+    if (char === '[') {
+      const end = expression.indexOf(']', i)
+      if (end === -1) throw new FormulaError('Unclosed column name', start)
+      tokens.push({ type: 'column', text: expression.slice(i + 1, end), position: start })
+      i = end + 1
+      continue
+    }
+    if (/[\p{L}_]/u.test(char)) {
+      const match = /^[\p{L}_][\p{L}\p{N}_]*/u.exec(expression.slice(i))
+      tokens.push({ type: 'name', text: match[0], position: start })
+      i += match[0].length
+      continue
+    }
+    const symbol = SYMBOLS.find(candidate => expression.startsWith(candidate, i))
+    if (!symbol) throw new FormulaError(`Unexpected "${char}"`, i)
+    tokens.push({ type: 'symbol', text: symbol, position: start })
+    i += symbol.length
+  }
+  tokens.push({ type: 'end', text: '', position: expression.length })
+  return tokens
+}
+
+// Recursive descent, lowest precedence first:
+// or, and, not, comparison, & (concatenation), + -, * / %, unary minus, ^
+function parse(tokens: Token[]): FormulaNode {
+  let index = 0
+  const peek = () => tokens[index]
+  // Keywords are matched case-insensitively and mapped onto their symbols
+  const operatorAt = (token: Token) =>
+    token.type === 'symbol' ? token.text : token.type === 'name' ? KEYWORD_OPERATORS[token.text.toLowerCase()] : undefined
+  const accept = (...operators: string[]) => {
+    const operator = operatorAt(peek())
+    if (operator && operators.includes(operator)) {
+      index++
+      return operator
+    }
+    return null
+  }
+  const expect = (symbol: string) => {
+    if (!accept(symbol)) throw new FormulaError(`Expected "${symbol}"`, peek().position)
+  }
+
+  const binary = (next: () => FormulaNode, operators: string[]) => (): FormulaNode => {
+    let left = next()
+    for (let operator = accept(...operators); operator; operator = accept(...operators)) {
+      left = { kind: 'binary', operator, left, right: next() }
+    }
+    return left
+  }
+
+  const primary = (): FormulaNode => {
+    const token = peek()
+    index++
+    switch (token.type) {
+      case 'number':
+        return { kind: 'literal', value: Number(token.text) }
+      case 'string':
+        return { kind: 'literal', value: token.text }
+      case 'column':
+        return { kind: 'column', name: token.text, position: token.position }
+      case 'name': {
+        const word = token.text.toLowerCase()
+        if (accept('(')) {
+          const args: FormulaNode[] = []
+          if (!accept(')')) {
+            do args.push(or())
+            while (accept(','))
+            expect(')')
+          }
+          return { kind: 'call', name: word, args, position: token.position }
+        }
+        if (word === 'true' || word === 'false') return { kind: 'literal', value: word === 'true' }
+        if (word === 'null') return { kind: 'literal', value: null }
+        return { kind: 'column', name: token.text, position: token.position }
+      }
+      case 'symbol':
+        if (token.text === '(') {
+          const inner = or()
+          expect(')')
+          return inner
+        }
+        throw new FormulaError(`Unexpected "${token.text}"`, token.position)
+      case 'end':
+        throw new FormulaError('The formula ends too early', token.position)
+    }
+  }
+
+  // Right-associative, and binds tighter than unary minus: -2^2 is -4
+  const power = (): FormulaNode => {
+    const base = primary()
+    return accept('^') ? { kind: 'binary', operator: '^', left: base, right: unary() } : base
+  }
+  const unary = (): FormulaNode => {
+    if (accept('-')) return { kind: 'unary', operator: '-', operand: unary() }
+    if (accept('+')) return unary()
+    return power()
+  }
+  const multiplicative = binary(unary, ['*', '/', '%'])
+  const additive = binary(multiplicative, ['+', '-'])
+  const concatenation = binary(additive, ['&'])
+  const comparison = binary(concatenation, ['=', '==', '!=', '<>', '<', '<=', '>', '>='])
+  const not = (): FormulaNode => accept('!') ? { kind: 'unary', operator: '!', operand: not() } : comparison()
+  const and = binary(not, ['&&'])
+  const or = binary(and, ['||'])
+
+  const node = or()
+  if (peek().type !== 'end') throw new FormulaError(`Unexpected "${peek().text}"`, peek().position)
+  return node
+}
+
+// --- Coercions -------------------------------------------------------------
+
+const finite = (value: number): number | null => Number.isFinite(value) ? value : null
+
+function toNumber(value: FormulaValue): number | null {
+  if (typeof value === 'number') return finite(value)
+  if (typeof value === 'boolean') return value ? 1 : 0
+  if (typeof value === 'string' && value.trim() !== '') return finite(Number(value))
+  return null
+}
+
+function toText(value: FormulaValue): string | null {
+  if (value === null) return null
+  if (value instanceof Date) {
+    const iso = value.toISOString()
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso
+  }
+  return String(value)
+}
+
+function toDate(value: FormulaValue): Date | null {
+  if (value instanceof Date) return value
+  if (typeof value === 'string') {
+    const time = Date.parse(value)
+    return Number.isNaN(time) ? null : new Date(time)
+  }
+  return null
+}
+
+function truthy(value: FormulaValue): boolean {
+  if (value === null) return false
+  if (typeof value === 'string') return value !== ''
+  if (value instanceof Date) return true
+  return value !== 0 && value !== false
+}
+
+// Numbers compare as numbers (numeric text included), dates as dates, anything else as text
+function compare(left: FormulaValue, right: FormulaValue): number | null {
+  if (left === null || right === null) return null
+  if (left instanceof Date || right instanceof Date) {
+    const a = toDate(left)
+    const b = toDate(right)
+    return a && b ? a.getTime() - b.getTime() : null
+  }
+  if (typeof left === 'number' || typeof right === 'number' || (typeof left === 'boolean' && typeof right === 'boolean')) {
+    const a = toNumber(left)
+    const b = toNumber(right)
+    if (a !== null && b !== null) return a - b
+  }
+  const a = toText(left)
+  const b = toText(right)
+  return a < b ? -1 : a > b ? 1 : 0
+}
+
+function arithmetic(operator: string, left: FormulaValue, right: FormulaValue): FormulaValue {
+  // Date arithmetic works in days: date - date is a number of days, date ± n moves the date
+  if (left instanceof Date && (operator === '+' || operator === '-')) {
+    if (right instanceof Date) return operator === '-' ? (left.getTime() - right.getTime()) / DAY_MS : null
+    const days = toNumber(right)
+    return days === null ? null : new Date(left.getTime() + (operator === '+' ? days : -days) * DAY_MS)
+  }
+  if (right instanceof Date && operator === '+') return arithmetic('+', right, left)
+  const a = toNumber(left)
+  const b = toNumber(right)
+  if (a === null || b === null) return null
+  switch (operator) {
+    case '+': return finite(a + b)
+    case '-': return finite(a - b)
+    case '*': return finite(a * b)
+    case '/': return b === 0 ? null : finite(a / b)
+    case '%': return b === 0 ? null : finite(a % b)
+    case '^': return finite(a ** b)
+  }
+  return null
+}
+
+// --- Functions -------------------------------------------------------------
+
+interface FormulaFunction {
+  // Argument count; max is Infinity for variadic functions
+  min: number
+  max: number
+  signature: string
+  description: string
+  apply: (args: FormulaValue[]) => FormulaValue
+}
+
+type FunctionCategory = 'Logic' | 'Math' | 'Text' | 'Date'
+
+const numeric = (fn: (value: number) => number) => ([value]: FormulaValue[]) => {
+  const number = toNumber(value)
+  return number === null ? null : finite(fn(number))
+}
+
+const textual = (fn: (value: string) => FormulaValue) => ([value]: FormulaValue[]) => {
+  const text = toText(value)
+  return text === null ? null : fn(text)
+}
+
+const datePart = (fn: (value: Date) => number) => ([value]: FormulaValue[]) => {
+  const date = toDate(value)
+  return date === null ? null : fn(date)
+}
+
+const formatBound = (value: number) => Number(value.toPrecision(12)).toLocaleString('en-US', { useGrouping: false })
+
+function monthsBetween(start: Date, end: Date): number {
+  let months = (end.getUTCFullYear() - start.getUTCFullYear()) * 12 + end.getUTCMonth() - start.getUTCMonth()
+  // Only whole months count, as with Excel's DATEDIF
+  const shifted = new Date(start.getTime())
+  shifted.setUTCMonth(start.getUTCMonth() + months)
+  if (months > 0 && shifted > end) months--
+  if (months < 0 && shifted < end) months++
+  return months
+}
+
+const FUNCTIONS: Record<string, FormulaFunction & { category: FunctionCategory }> = {
+  if: {
+    category: 'Logic', min: 2, max: 3, signature: 'if(condition, then, else)',
+    description: 'then when the condition holds, otherwise else (or null)',
+    apply: ([condition, then, otherwise = null]) => truthy(condition) ? then : otherwise
+  },
+  coalesce: {
+    category: 'Logic', min: 1, max: Infinity, signature: 'coalesce(a, b, …)',
+    description: 'The first argument that is not null',
+    apply: args => args.find(value => value !== null) ?? null
+  },
+  isnull: {
+    category: 'Logic', min: 1, max: 1, signature: 'isnull(value)',
+    description: 'Whether the value is missing',
+    apply: ([value]) => value === null
+  },
+  round: {
+    category: 'Math', min: 1, max: 2, signature: 'round(number, digits)',
+    description: 'Rounds to the given number of decimals (default 0)',
+    apply: ([value, digits = 0]) => {
+      const number = toNumber(value)
+      const places = toNumber(digits)
+      if (number === null || places === null) return null
+      const factor = 10 ** Math.trunc(places)
+      return finite(Math.round(number * factor) / factor)
+    }
+  },
+  floor: { category: 'Math', min: 1, max: 1, signature: 'floor(number)', description: 'Rounds down', apply: numeric(Math.floor) },
+  ceil: { category: 'Math', min: 1, max: 1, signature: 'ceil(number)', description: 'Rounds up', apply: numeric(Math.ceil) },
+  abs: { category: 'Math', min: 1, max: 1, signature: 'abs(number)', description: 'Absolute value', apply: numeric(Math.abs) },
+  sqrt: { category: 'Math', min: 1, max: 1, signature: 'sqrt(number)', description: 'Square root', apply: numeric(Math.sqrt) },
+  ln: { category: 'Math', min: 1, max: 1, signature: 'ln(number)', description: 'Natural logarithm', apply: numeric(Math.log) },
+  log10: { category: 'Math', min: 1, max: 1, signature: 'log10(number)', description: 'Base-10 logarithm', apply: numeric(Math.log10) },
+  exp: { category: 'Math', min: 1, max: 1, signature: 'exp(number)', description: 'e raised to the number', apply: numeric(Math.exp) },
+  min: {
+    category: 'Math', min: 1, max: Infinity, signature: 'min(a, b, …)',
+    description: 'Smallest of the numbers, ignoring nulls',
+    apply: args => {
+      const numbers = args.map(toNumber).filter((value): value is number => value !== null)
+      return numbers.length > 0 ? Math.min(...numbers) : null
+    }
+  },
+  max: {
+    category: 'Math', min: 1, max: Infinity, signature: 'max(a, b, …)',
+    description: 'Largest of the numbers, ignoring nulls',
+    apply: args => {
+      const numbers = args.map(toNumber).filter((value): value is number => value !== null)
+      return numbers.length > 0 ? Math.max(...numbers) : null
+    }
+  },
+  bucket: {
+    category: 'Math', min: 2, max: 2, signature: 'bucket(number, width)',
+    description: 'The range of the given width the number falls in, e.g. bucket(age, 10) gives "30–40"',
+    apply: ([value, width]) => {
+      const number = toNumber(value)
+      const size = toNumber(width)
+      if (number === null || size === null || size <= 0) return null
+      const lower = Math.floor(number / size) * size
+      return `${formatBound(lower)}–${formatBound(lower + size)}`
+    }
+  },
+  len: { category: 'Text', min: 1, max: 1, signature: 'len(text)', description: 'Number of characters', apply: textual(text => text.length) },
+  lower: { category: 'Text', min: 1, max: 1, signature: 'lower(text)', description: 'Lowercase', apply: textual(text => text.toLowerCase()) },
+  upper: { category: 'Text', min: 1, max: 1, signature: 'upper(text)', description: 'Uppercase', apply: textual(text => text.toUpperCase()) },
+  trim: { category: 'Text', min: 1, max: 1, signature: 'trim(text)', description: 'Removes surrounding spaces', apply: textual(text => text.trim()) },
+  left: {
+    category: 'Text', min: 2, max: 2, signature: 'left(text, count)', description: 'The first characters',
+    apply: ([value, count]) => {
+      const text = toText(value)
+      const n = toNumber(count)
+      return text === null || n === null ? null : text.slice(0, Math.max(0, n))
+    }
+  },
+  right: {
+    category: 'Text', min: 2, max: 2, signature: 'right(text, count)', description: 'The last characters',
+    apply: ([value, count]) => {
+      const text = toText(value)
+      const n = toNumber(count)
+      return text === null || n === null ? null : n <= 0 ? '' : text.slice(-n)
+    }
+  },
+  mid: {
+    category: 'Text', min: 2, max: 3, signature: 'mid(text, start, count)',
+    description: 'Characters from a 1-based position, to the end when no count is given',
+    apply: ([value, start, count = null]) => {
+      const text = toText(value)
+      const from = toNumber(start)
+      const n = count === null ? Infinity : toNumber(count)
+      if (text === null || from === null || n === null) return null
+      const offset = Math.max(0, from - 1)
+      return text.slice(offset, offset + Math.max(0, n))
+    }
+  },
+  concat: {
+    category: 'Text', min: 1, max: Infinity, signature: 'concat(a, b, …)',
+    description: 'Joins the values as text, skipping nulls',
+    apply: args => args.map(toText).filter(text => text !== null).join('')
+  },
+  contains: {
+    category: 'Text', min: 2, max: 2, signature: 'contains(text, part)', description: 'Whether the text contains the part, ignoring case',
+    apply: ([value, part]) => {
+      const text = toText(value)
+      const needle = toText(part)
+      return text === null || needle === null ? null : text.toLowerCase().includes(needle.toLowerCase())
+    }
+  },
+  replace: {
+    category: 'Text', min: 3, max: 3, signature: 'replace(text, find, with)', description: 'Replaces every occurrence',
+    apply: ([value, find, replacement]) => {
+      const text = toText(value)
+      const needle = toText(find)
+      return text === null || !needle ? text : text.split(needle).join(toText(replacement) ?? '')
+    }
+  },
+  text: { category: 'Text', min: 1, max: 1, signature: 'text(value)', description: 'The value as text', apply: ([value]) => toText(value) },
+  number: { category: 'Text', min: 1, max: 1, signature: 'number(value)', description: 'The value as a number, or null', apply: ([value]) => toNumber(value) },
+  year: { category: 'Date', min: 1, max: 1, signature: 'year(date)', description: 'Year', apply: datePart(date => date.getUTCFullYear()) },
+  quarter: { category: 'Date', min: 1, max: 1, signature: 'quarter(date)', description: 'Quarter, 1 to 4', apply: datePart(date => Math.floor(date.getUTCMonth() / 3) + 1) },
+  month: { category: 'Date', min: 1, max: 1, signature: 'month(date)', description: 'Month, 1 to 12', apply: datePart(date => date.getUTCMonth() + 1) },
+  day: { category: 'Date', min: 1, max: 1, signature: 'day(date)', description: 'Day of the month', apply: datePart(date => date.getUTCDate()) },
+  weekday: { category: 'Date', min: 1, max: 1, signature: 'weekday(date)', description: 'Day of the week, 1 (Monday) to 7 (Sunday)', apply: datePart(date => (date.getUTCDay() + 6) % 7 + 1) },
+  hour: { category: 'Date', min: 1, max: 1, signature: 'hour(date)', description: 'Hour, 0 to 23', apply: datePart(date => date.getUTCHours()) },
+  date: {
+    category: 'Date', min: 1, max: 3, signature: 'date(year, month, day) or date(text)',
+    description: 'A date from its parts, or parsed from text',
+    apply: args => {
+      if (args.length === 1) return toDate(args[0])
+      const [year, month, day = 1] = args.map(toNumber)
+      return year === null || month === null || day === null ? null : new Date(Date.UTC(year, month - 1, day))
+    }
+  },
+  datediff: {
+    category: 'Date', min: 2, max: 3, signature: 'datediff(start, end, unit)',
+    description: 'Whole days, weeks, months or years from start to end (unit defaults to "day")',
+    apply: ([startValue, endValue, unitValue = 'day']) => {
+      const start = toDate(startValue)
+      const end = toDate(endValue)
+      if (!start || !end) return null
+      switch (toText(unitValue)?.toLowerCase().replace(/s$/, '')) {
+        case 'day': return Math.trunc((end.getTime() - start.getTime()) / DAY_MS)
+        case 'week': return Math.trunc((end.getTime() - start.getTime()) / (7 * DAY_MS))
+        case 'month': return monthsBetween(start, end)
+        case 'year': return Math.trunc(monthsBetween(start, end) / 12)
+        default: return null
+      }
+    }
+  },
+  today: {
+    category: 'Date', min: 0, max: 0, signature: 'today()', description: 'The current date',
+    apply: () => {
+      const now = new Date()
+      return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+    }
+  }
+}
+
+export const FORMULA_FUNCTIONS: { name: string; category: FunctionCategory; signature: string; description: string }[] =
+  Object.entries(FUNCTIONS).map(([name, fn]) => ({ name, category: fn.category, signature: fn.signature, description: fn.description }))
+
+// --- Compilation -----------------------------------------------------------
+
+function compileNode(node: FormulaNode, dataset: Dataset): Evaluator {
+  switch (node.kind) {
+    case 'literal': {
+      const { value } = node
+      return () => value
+    }
+    case 'column': {
+      const column: DatasetColumn | undefined = dataset.column(node.name)
+      if (!column) throw new FormulaError(`Unknown column "${node.name}"`, node.position)
+      return row => cellValue(column, row)
+    }
+    case 'unary': {
+      const operand = compileNode(node.operand, dataset)
+      if (node.operator === '!') return row => !truthy(operand(row))
+      return row => arithmetic('-', 0, operand(row))
+    }
+    case 'binary': {
+      const left = compileNode(node.left, dataset)
+      const right = compileNode(node.right, dataset)
+      switch (node.operator) {
+        case '&&': return row => truthy(left(row)) && truthy(right(row))
+        case '||': return row => truthy(left(row)) || truthy(right(row))
+        case '&': return row => (toText(left(row)) ?? '') + (toText(right(row)) ?? '')
+        case '=':
+        case '==': return row => { const order = compare(left(row), right(row)); return order === null ? null : order === 0 }
+        case '!=':
+        case '<>': return row => { const order = compare(left(row), right(row)); return order === null ? null : order !== 0 }
+        case '<': return row => { const order = compare(left(row), right(row)); return order === null ? null : order < 0 }
+        case '<=': return row => { const order = compare(left(row), right(row)); return order === null ? null : order <= 0 }
+        case '>': return row => { const order = compare(left(row), right(row)); return order === null ? null : order > 0 }
+        case '>=': return row => { const order = compare(left(row), right(row)); return order === null ? null : order >= 0 }
+        default: {
+          const { operator } = node
+          return row => arithmetic(operator, left(row), right(row))
+        }
+      }
+    }
+    case 'call': {
+      // Own keys only: "constructor" or "__proto__" must not reach Object.prototype
+      const fn = Object.prototype.hasOwnProperty.call(FUNCTIONS, node.name) ? FUNCTIONS[node.name] : undefined
+      if (!fn) throw new FormulaError(`Unknown function "${node.name}"`, node.position)
+      if (node.args.length < fn.min || node.args.length > fn.max) {
+        const expected = fn.min === fn.max ? `${fn.min}` : fn.max === Infinity ? `at least ${fn.min}` : `${fn.min} to ${fn.max}`
+        throw new FormulaError(`${node.name}() takes ${expected} argument${expected === '1' ? '' : 's'}`, node.position)
+      }
+      const args = node.args.map(arg => compileNode(arg, dataset))
+      return row => fn.apply(args.map(arg => arg(row)))
+    }
+  }
+}
+
+// Parses and checks a formula against the dataset's columns; throws a FormulaError
+export function compileFormula(expression: string, dataset: Dataset): Evaluator {
+  if (!expression.trim()) throw new FormulaError('The formula is empty', 0)
+  return compileNode(parse(tokenize(expression)), dataset)
+}
+
+// Columns the formula reads, in order of appearance; empty when it does not parse
+export function formulaColumns(expression: string): string[] {
+  let root: FormulaNode
+  try {
+    root = parse(tokenize(expression))
+  } catch {
+    return []
+  }
+  const names = new Set<string>()
+  const visit = (node: FormulaNode) => {
+    if (node.kind === 'column') names.add(node.name)
+    else if (node.kind === 'unary') visit(node.operand)
+    else if (node.kind === 'binary') { visit(node.left); visit(node.right) }
+    else if (node.kind === 'call') node.args.forEach(visit)
+  }
+  visit(root)
+  return [...names]
+}
+
+// Values of the first rows, for a live preview while the formula is typed
+export function previewFormula(expression: string, dataset: Dataset, rows: number): FormulaValue[] {
+  const evaluate = compileFormula(expression, dataset)
+  return Array.from({ length: Math.min(rows, dataset.rowCount) }, (_, row) => evaluate(row))
+}
+
+// The dataset with the calculated column added, or replaced when it already exists.
+// The column's storage (number, date, boolean or text) follows from its values.
+export function withCalculatedColumn(dataset: Dataset, formula: CalculatedColumn): Dataset {
+  const evaluate = compileFormula(formula.expression, dataset)
+  const values: FormulaValue[] = new Array(dataset.rowCount)
+  for (let row = 0; row < dataset.rowCount; row++) values[row] = evaluate(row)
+  const column = buildColumn(formula.name, values)
+  const exists = dataset.column(formula.name) !== undefined
+  return new Dataset({
+    rowCount: dataset.rowCount,
+    columns: exists
+      ? dataset.columns.map(existing => existing.name === formula.name ? column : existing)
+      : [...dataset.columns, column]
+  })
+}
@@ -0,0 +1,178 @@
+import { Dataset, DatasetColumn, cellValue, isNullAt } from "@/lib/dataset"
+import { ColumnInfo } from "@/lib/profiling"
+import { numericVector } from "@/lib/correlation"
+
+// Filtering, searching and sorting for the data grid. Everything works on row
+// indices over the columnar dataset, so a million rows never become objects;
+// the same filters can also produce a smaller dataset for the dashboard.
+
+export type ColumnFilter =
+  // Numerical columns, inclusive bounds
+  | { kind: 'range'; column: string; min: number; max: number }
+  // Categorical columns: the cell must be one of the values
+  | { kind: 'values'; column: string; values: string[] }
+  // Temporal columns, inclusive bounds in epoch milliseconds; null leaves a side open
+  | { kind: 'date-range'; column: string; from: number | null; to: number | null }
+  // Text columns, case-insensitive
+  | { kind: 'contains'; column: string; text: string }
+
+export type SortDirection = 'asc' | 'desc'
+
+export interface GridSort {
+  column: string
+  direction: SortDirection
+}
+
+export interface GridQuery {
+  filters: ColumnFilter[]
+  // Case-insensitive text searched in every searched column
+  search: string
+  sort: GridSort | null
+}
+
+export const EMPTY_GRID_QUERY: GridQuery = { filters: [], search: '', sort: null }
+
+// Distinct values offered by a multiselect filter
+const MAX_FILTER_VALUES = 200
+
+export function isFiltering(query: GridQuery): boolean {
+  return query.filters.length > 0 || query.search.trim() !== ''
+}
+
+// Display text of a cell; dates at midnight show as plain dates
+export function cellText(column: DatasetColumn, row: number): string {
+  const value = cellValue(column, row)
+  if (value === null) return ''
+  if (value instanceof Date) {
+    const iso = value.toISOString()
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso.replace('T', ' ').slice(0, 19)
+  }
+  return String(value)
+}
+
+// Most frequent values first, for the multiselect filter
+export function filterValues(column: DatasetColumn, rowCount: number): string[] {
+  const counts = new Map<string, number>()
+  for (let i = 0; i < rowCount; i++) {
+    if (isNullAt(column, i)) continue
+    const text = cellText(column, i)
+    counts.set(text, (counts.get(text) ?? 0) + 1)
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]).slice(0, MAX_FILTER_VALUES).map(([value]) => value)
+}
+
+// A test per row; filters on columns the dataset does not have are ignored
+function rowTest(filter: ColumnFilter, dataset: Dataset, infos: Map<string, ColumnInfo>): ((row: number) => boolean) | null {
+  const column = dataset.column(filter.column)
+  if (!column) return null
+  switch (filter.kind) {
+    case 'range': {
+      const info = infos.get(filter.column)
+      if (!info) return null
+      const values = numericVector(column, dataset.rowCount, info)
+      return row => values[row] >= filter.min && values[row] <= filter.max
+    }
+    case 'date-range': {
+      if (column.kind !== 'date') return null
+      const from = filter.from ?? -Infinity
+      const to = filter.to ?? Infinity
+      return row => column.values[row] >= from && column.values[row] <= to
+    }
+    case 'values': {
+      const allowed = new Set(filter.values)
+      if (column.kind === 'category') {
+        const codes = new Set(column.dictionary.flatMap((value, code) => allowed.has(value) ? [code] : []))
+        return row => codes.has(column.codes[row])
+      }
+      return row => !isNullAt(column, row) && allowed.has(cellText(column, row))
+    }
+    case 'contains': {
+      const needle = filter.text.toLowerCase()
+      if (!needle) return null
+      return textMatcher(column, needle)
+    }
+  }
+}
+
+// Category dictionaries are matched once, not once per row
+function textMatcher(column: DatasetColumn, needle: string): (row: number) => boolean {
+  if (column.kind === 'category') {
+    const hits = column.dictionary.map(value => value.toLowerCase().includes(needle))
+    return row => column.codes[row] !== -1 && hits[column.codes[row]]
+  }
+  if (column.kind === 'text') {
+    return row => column.values[row]?.toLowerCase().includes(needle) ?? false
+  }
+  return row => cellText(column, row).toLowerCase().includes(needle)
+}
+
+function filterRows(dataset: Dataset, columns: ColumnInfo[], query: GridQuery, searchColumns: string[]): number[] | null {
+  const infos = new Map(columns.map(info => [info.name, info]))
+  const tests = query.filters
+    .map(filter => rowTest(filter, dataset, infos))
+    .filter((test): test is (row: number) => boolean => test !== null)
+  const needle = query.search.trim().toLowerCase()
+  const searchers = needle
+    ? searchColumns.map(name => dataset.column(name)).filter((column): column is DatasetColumn => !!column).map(column => textMatcher(column, needle))
+    : []
+  if (tests.length === 0 && !needle) return null
+
+  const rows: number[] = []
+  for (let row = 0; row < dataset.rowCount; row++) {
+    if (!tests.every(test => test(row))) continue
+    if (needle && !searchers.some(search => search(row))) continue
+    rows.push(row)
+  }
+  return rows
+}
+
+// Sort key per row: numbers compare as numbers, everything else as text; missing cells sort last
+function sortRows(rows: Int32Array, column: DatasetColumn, info: ColumnInfo | undefined, rowCount: number, direction: SortDirection): Int32Array {
+  const sign = direction === 'asc' ? 1 : -1
+  const numeric = column.kind === 'number' || column.kind === 'date' || column.kind === 'boolean' || info?.type === 'numerical'
+  if (numeric) {
+    const keys = column.kind === 'boolean'
+      ? Float64Array.from(column.values, value => value === -1 ? NaN : value)
+      : info ? numericVector(column, rowCount, info) : Float64Array.from({ length: rowCount }, (_, i) => Number(cellValue(column, i)))
+    return rows.sort((a, b) => {
+      const x = keys[a]
+      const y = keys[b]
+      if (Number.isNaN(x) || Number.isNaN(y)) return Number.isNaN(x) ? (Number.isNaN(y) ? a - b : 1) : -1
+      return (x - y) * sign || a - b
+    })
+  }
+  if (column.kind === 'category') {
+    // Rank the dictionary once and sort on the ranks
+    const order = column.dictionary.map((_, code) => code).sort((a, b) => column.dictionary[a] < column.dictionary[b] ? -1 : column.dictionary[a] > column.dictionary[b] ? 1 : 0)
+    const rank = new Int32Array(column.dictionary.length)
+    order.forEach((code, position) => { rank[code] = position })
+    return rows.sort((a, b) => {
+      const x = column.codes[a]
+      const y = column.codes[b]
+      if (x === -1 || y === -1) return x === -1 ? (y === -1 ? a - b : 1) : -1
+      return (rank[x] - rank[y]) * sign || a - b
+    })
+  }
+  const texts = Array.from({ length: rowCount }, (_, i) => isNullAt(column, i) ? null : cellText(column, i))
+  return rows.sort((a, b) => {
+    const x = texts[a]
+    const y = texts[b]
+    if (x === null || y === null) return x === null ? (y === null ? a - b : 1) : -1
+    return (x < y ? -1 : x > y ? 1 : 0) * sign || a - b
+  })
+}
+
+// Row indices that pass the filters and search, in display order
+export function queryRows(dataset: Dataset, columns: ColumnInfo[], query: GridQuery, searchColumns = dataset.columnNames): Int32Array {
+  const filtered = filterRows(dataset, columns, query, searchColumns)
+  const rows = filtered ? Int32Array.from(filtered) : Int32Array.from({ length: dataset.rowCount }, (_, i) => i)
+  const column = query.sort ? dataset.column(query.sort.column) : undefined
+  if (!query.sort || !column) return rows
+  return sortRows(rows, column, columns.find(info => info.name === query.sort?.column), dataset.rowCount, query.sort.direction)
+}
+
+// The rows the grid shows, as a dataset of their own (order is kept as in the source)
+export function filterDataset(dataset: Dataset, columns: ColumnInfo[], query: GridQuery, searchColumns = dataset.columnNames): Dataset {
+  const rows = filterRows(dataset, columns, query, searchColumns)
+  return rows ? dataset.take(rows) : dataset
+}
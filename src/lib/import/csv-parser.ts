@@ -0,0 +1,252 @@
+// Streaming RFC 4180 CSV parser.
+//
+// Text is fed in arbitrary chunks through `push()` and records are emitted as
+// soon as they are complete, so the same parser works for a whole file read
+// with `file.text()` and for a chunked stream. Quoted fields may contain the
+// delimiter, escaped quotes ("") and line breaks; CRLF, LF and lone CR are all
+// accepted as record terminators and a leading UTF-8 BOM is dropped.
+
+export interface CsvParseOptions {
+  delimiter?: string
+  quote?: string
+  // When true the first record is used as the header row
+  header?: boolean
+  // When true records are emitted with whatever field count they have
+  ragged?: boolean
+}
+
+export interface CsvParseError {
+  // 1-based physical line on which the offending record starts
+  line: number
+  message: string
+}
+
+export interface CsvParserCallbacks {
+  onHeader?: (headers: string[]) => void
+  onRow: (fields: string[], line: number) => void
+  onError?: (error: CsvParseError) => void
+}
+
+export interface CsvTable {
+  headers: string[]
+  rows: string[][]
+  errors: CsvParseError[]
+}
+
+type ParserState = 'fieldStart' | 'unquoted' | 'quoted' | 'quoteInQuoted'
+
+// Blank and duplicate header cells would make row objects overwrite each other
+export function normalizeHeaders(raw: string[]): string[] {
+  const seen = new Map<string, number>()
+  return raw.map((cell, index) => {
+    const base = cell.trim() || `column_${index + 1}`
+    const count = seen.get(base) || 0
+    seen.set(base, count + 1)
+    return count === 0 ? base : `${base}_${count + 1}`
+  })
+}
+
+export class CsvParser {
+  private readonly delimiter: string
+  private readonly quote: string
+  private readonly header: boolean
+  private readonly ragged: boolean
+  private readonly callbacks: CsvParserCallbacks
+
+  private state: ParserState = 'fieldStart'
+  private field = ''
+  private fieldQuoted = false
+  private fields: string[] = []
+  private line = 1
+  private recordLine = 1
+  private skipLF = false
+  private started = false
+  private width = -1
+
+  constructor(options: CsvParseOptions, callbacks: CsvParserCallbacks) {
+    this.delimiter = options.delimiter ?? ','
+    this.quote = options.quote ?? '"'
+    this.header = options.header ?? true
+    this.ragged = options.ragged ?? false
+    this.callbacks = callbacks
+  }
+
+  push(chunk: string): void {
+    let i = 0
+    if (!this.started && chunk.length > 0) {
+      this.started = true
+      if (chunk.charCodeAt(0) === 0xfeff) i = 1
+    }
+
+    const { delimiter, quote } = this
+    const length = chunk.length
+
+    while (i < length) {
+      const ch = chunk[i]
+
+      // Second half of a CRLF pair; the record was already closed at the CR
+      if (this.skipLF) {
+        this.skipLF = false
+        if (ch === '\n') {
+          i++
+          continue
+        }
+      }
+
+      switch (this.state) {
+        case 'fieldStart':
+          if (ch === quote) {
+            this.state = 'quoted'
+            this.fieldQuoted = true
+            i++
+          } else if (ch === delimiter) {
+            this.endField()
+            i++
+          } else if (ch === '\n' || ch === '\r') {
+            this.endRecord(ch)
+            i++
+          } else {
+            this.state = 'unquoted'
+          }
+          break
+
+        case 'unquoted': {
+          let j = i
+          while (j < length) {
+            const c = chunk[j]
+            if (c === delimiter || c === '\n' || c === '\r') break
+            j++
+          }
+          this.field += chunk.slice(i, j)
+          i = j
+          if (j < length) {
+            const c = chunk[j]
+            if (c === delimiter) this.endField()
+            else this.endRecord(c)
+            i++
+          }
+          break
+        }
+
+        case 'quoted': {
+          const next = chunk.indexOf(quote, i)
+          const end = next === -1 ? length : next
+          const text = chunk.slice(i, end)
+          this.field += text
+          this.line += countLineBreaks(text)
+          if (next === -1) {
+            i = length
+          } else {
+            this.state = 'quoteInQuoted'
+            i = next + 1
+          }
+          break
+        }
+
+        case 'quoteInQuoted':
+          if (ch === quote) {
+            // Escaped quote ("") inside a quoted field
+            this.field += quote
+            this.state = 'quoted'
+            i++
+          } else if (ch === delimiter) {
+            this.endField()
+            i++
+          } else if (ch === '\n' || ch === '\r') {
+            this.endRecord(ch)
+            i++
+          } else {
+            // Keep the stray text rather than dropping data, but flag the record
+            this.reportError(`Unexpected character '${ch}' after closing quote`)
+            this.state = 'unquoted'
+          }
+          break
+      }
+    }
+  }
+
+  finish(): void {
+    if (this.state === 'quoted') {
+      this.reportError('Unterminated quoted field at end of file')
+    }
+    if (this.fields.length > 0 || this.field !== '' || this.fieldQuoted) {
+      this.endRecord('')
+    }
+  }
+
+  private endField(): void {
+    this.fields.push(this.field)
+    this.field = ''
+    this.fieldQuoted = false
+    this.state = 'fieldStart'
+  }
+
+  private endRecord(terminator: string): void {
+    const isBlankLine = this.fields.length === 0 && this.field === '' && !this.fieldQuoted
+    if (!isBlankLine) {
+      this.endField()
+      this.emit(this.fields, this.recordLine)
+    }
+
+    this.fields = []
+    this.field = ''
+    this.fieldQuoted = false
+    this.state = 'fieldStart'
+    if (terminator === '\r') this.skipLF = true
+    if (terminator !== '') this.line++
+    this.recordLine = this.line
+  }
+
+  private emit(fields: string[], line: number): void {
+    if (this.width === -1) {
+      this.width = fields.length
+      if (this.header) {
+        this.callbacks.onHeader?.(normalizeHeaders(fields))
+        return
+      }
+    }
+
+    if (this.ragged) {
+      this.callbacks.onRow(fields, line)
+    } else if (fields.length < this.width) {
+      this.reportError(`Expected ${this.width} fields but found ${fields.length}; missing values left empty`, line)
+      while (fields.length < this.width) fields.push('')
+      this.callbacks.onRow(fields, line)
+    } else if (fields.length > this.width) {
+      this.reportError(`Expected ${this.width} fields but found ${fields.length}; row skipped`, line)
+    } else {
+      this.callbacks.onRow(fields, line)
+    }
+  }
+
+  private reportError(message: string, line = this.recordLine): void {
+    this.callbacks.onError?.({ line, message })
+  }
+}
+
+function countLineBreaks(text: string): number {
+  let count = 0
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if (ch === '\n') count++
+    else if (ch === '\r' && text[i + 1] !== '\n') count++
+  }
+  return count
+}
+
+export function parseCsv(text: string, options: CsvParseOptions = {}): CsvTable {
+  const table: CsvTable = { headers: [], rows: [], errors: [] }
+  const parser = new CsvParser(options, {
+    onHeader: headers => { table.headers = headers },
+    onRow: fields => { table.rows.push(fields) },
+    onError: error => { table.errors.push(error) }
+  })
+  parser.push(text)
+  parser.finish()
+
+  // Without a header row, columns are named positionally
+  if (!(options.header ?? true) && table.rows.length > 0) {
+    table.headers = normalizeHeaders(table.rows[0].map(() => ''))
+  }
+  return table
+}
@@ -0,0 +1,221 @@
+import { CsvParser } from "@/lib/import/csv-parser"
+
+// Guesses the dialect of a delimited text file (encoding, delimiter, quote
+// character, header row and number format) from a sample of its first bytes.
+
+export type TextEncodingName = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252'
+
+export interface NumberFormat {
+  decimal: '.' | ','
+  thousands: '' | ',' | '.' | ' ' | "'"
+}
+
+export interface CsvImportOptions extends NumberFormat {
+  encoding: TextEncodingName
+  delimiter: string
+  quote: string
+  header: boolean
+}
+
+export const SNIFF_SAMPLE_BYTES = 64 * 1024
+
+export const DELIMITER_CANDIDATES = [',', ';', '\t', '|']
+
+export const DEFAULT_IMPORT_OPTIONS: CsvImportOptions = {
+  encoding: 'utf-8',
+  delimiter: ',',
+  quote: '"',
+  header: true,
+  decimal: '.',
+  thousands: ''
+}
+
+export function detectEncoding(bytes: Uint8Array): TextEncodingName {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8'
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le'
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be'
+
+  // A sample may end in the middle of a multi-byte sequence, so ignore the tail
+  const sample = bytes.length >= SNIFF_SAMPLE_BYTES ? bytes.subarray(0, bytes.length - 4) : bytes
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(sample)
+    return 'utf-8'
+  } catch {
+    // Not valid UTF-8; legacy Windows exports are by far the most common case
+    return 'windows-1252'
+  }
+}
+
+export function decodeBytes(bytes: Uint8Array, encoding: TextEncodingName): string {
+  return new TextDecoder(encoding).decode(bytes)
+}
+
+function sampleRecords(text: string, delimiter: string, quote: string, truncated: boolean, limit = 50): string[][] {
+  const records: string[][] = []
+  const parser = new CsvParser({ delimiter, quote, header: false }, {
+    onRow: fields => { records.push(fields) }
+  })
+  // Ragged-row errors are expected while trying the wrong delimiter
+  parser.push(text)
+  parser.finish()
+  // The last record of a truncated sample is usually incomplete
+  const complete = truncated ? records.slice(0, -1) : records
+  return complete.slice(0, limit)
+}
+
+function recordWidths(text: string, delimiter: string, quote: string): number[] {
+  const widths: number[] = []
+  const parser = new CsvParser({ delimiter, quote, header: false, ragged: true }, {
+    onRow: fields => { widths.push(fields.length) }
+  })
+  parser.push(text)
+  parser.finish()
+  return widths.slice(0, 50)
+}
+
+export function detectDelimiter(text: string, quote = '"'): string {
+  let best = DELIMITER_CANDIDATES[0]
+  let bestScore = -1
+
+  for (const delimiter of DELIMITER_CANDIDATES) {
+    const widths = recordWidths(text, delimiter, quote)
+    if (widths.length === 0) continue
+
+    const counts = new Map<number, number>()
+    widths.forEach(w => counts.set(w, (counts.get(w) || 0) + 1))
+    const [modeWidth, modeCount] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0]
+    if (modeWidth < 2) continue
+
+    // Consistent field counts matter most; wider splits break ties
+    const score = modeCount / widths.length + modeWidth / 1000
+    if (score > bestScore) {
+      bestScore = score
+      best = delimiter
+    }
+  }
+  return best
+}
+
+export function detectQuote(text: string, delimiter: string): string {
+  const escaped = delimiter === '|' ? '\\|' : delimiter
+  const opens = (q: string) => (text.match(new RegExp(`(^|${escaped}|\\n)${q}`, 'g')) || []).length
+  return opens("'") > opens('"') ? "'" : '"'
+}
+
+const NUMERIC_LIKE = /^[-+]?[\d.,' \u00a0]*\d[\d.,' \u00a0]*$/
+
+export function detectNumberFormat(records: string[][]): NumberFormat {
+  let commaDecimal = 0
+  let dotDecimal = 0
+  const thousandsVotes = new Map<NumberFormat['thousands'], number>()
+  const vote = (sep: NumberFormat['thousands']) => thousandsVotes.set(sep, (thousandsVotes.get(sep) || 0) + 1)
+
+  for (const record of records) {
+    for (const raw of record) {
+      const value = raw.trim()
+      if (!NUMERIC_LIKE.test(value) || !/[.,]/.test(value)) continue
+
+      const lastDot = value.lastIndexOf('.')
+      const lastComma = value.lastIndexOf(',')
+      if (lastDot !== -1 && lastComma !== -1) {
+        // Whichever separator comes last is the decimal mark
+        if (lastComma > lastDot) {
+          commaDecimal++
+          vote('.')
+        } else {
+          dotDecimal++
+          vote(',')
+        }
+      } else if (lastComma !== -1) {
+        const groups = value.split(',')
+        if (groups.length === 2 && groups[1].length !== 3) commaDecimal++
+        else if (groups.slice(1).every(g => g.length === 3)) vote(',')
+      } else {
+        const groups = value.split('.')
+        if (groups.length > 2 && groups.slice(1).every(g => g.length === 3)) {
+          vote('.')
+          commaDecimal++
+        } else {
+          dotDecimal++
+        }
+      }
+      if (/\d[ \u00a0]\d{3}/.test(value)) vote(' ')
+      if (/\d'\d{3}/.test(value)) vote("'")
+    }
+  }
+
+  const decimal: NumberFormat['decimal'] = commaDecimal > dotDecimal ? ',' : '.'
+  const thousands = [...thousandsVotes.entries()]
+    .filter(([sep]) => sep !== decimal)
+    .sort((a, b) => b[1] - a[1])[0]?.[0] ?? ''
+  return { decimal, thousands }
+}
+
+function looksNumeric(value: string, format: NumberFormat): boolean {
+  return value.trim() !== '' && parseNumber(value, format) !== null
+}
+
+export function detectHeader(records: string[][], format: NumberFormat): boolean {
+  if (records.length < 2) return true
+  const [first, ...body] = records
+
+  // A column whose body is numeric but whose first cell is not is a strong signal
+  for (let col = 0; col < first.length; col++) {
+    const bodyValues = body.map(r => r[col] ?? '').filter(v => v.trim() !== '')
+    if (bodyValues.length === 0) continue
+    const numericShare = bodyValues.filter(v => looksNumeric(v, format)).length / bodyValues.length
+    if (numericShare > 0.8 && !looksNumeric(first[col] ?? '', format)) return true
+  }
+
+  // Otherwise accept the first row when its cells are distinct labels that never reappear below
+  const cells = first.map(c => c.trim())
+  if (cells.some(c => c === '' || looksNumeric(c, format))) return false
+  if (new Set(cells).size !== cells.length) return false
+  return cells.every((cell, col) => !body.some(r => (r[col] ?? '').trim() === cell))
+}
+
+// `truncated` tells whether the file goes on past the sample; without it, a sample that fills
+// SNIFF_SAMPLE_BYTES is taken to be cut off
+export function sniffCsv(bytes: Uint8Array, truncated = bytes.length >= SNIFF_SAMPLE_BYTES): CsvImportOptions {
+  const encoding = detectEncoding(bytes)
+  const text = decodeBytes(bytes, encoding)
+
+  const delimiter = detectDelimiter(text)
+  const quote = detectQuote(text, delimiter)
+  const records = sampleRecords(text, delimiter, quote, truncated)
+  const numberFormat = detectNumberFormat(records.slice(1))
+  const header = detectHeader(records, numberFormat)
+
+  return { encoding, delimiter, quote, header, ...numberFormat }
+}
+
+// Plain decimal notation only; Number() alone would also take "0x1F", "0b101" and "Infinity"
+const DECIMAL_NUMBER = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/
+
+export function parseNumber(value: string, format: NumberFormat): number | null {
+  let text = value.trim()
+  if (text === '') return null
+  if (format.thousands) {
+    const sep = format.thousands === ' ' ? /[ \u00a0]/g : new RegExp(`\\${format.thousands}`, 'g')
+    text = text.replace(sep, '')
+  }
+  if (format.decimal === ',') {
+    if (text.includes('.')) return null
+    text = text.replace(',', '.')
+  }
+  if (!DECIMAL_NUMBER.test(text)) return null
+  const num = Number(text)
+  return Number.isFinite(num) ? num : null
+}
+
+// Digits after a leading zero: zip codes, account numbers and IDs, where the zero matters
+const LEADING_ZERO = /^[+-]?0\d/
+
+// Converts a raw CSV field into the number/string cell value used by the rest of the app.
+// Values with a leading zero stay text, which keeps their whole column text as well.
+export function parseCellValue(raw: string, format: NumberFormat): number | string {
+  const value = raw.trim()
+  if (LEADING_ZERO.test(value)) return value
+  const num = parseNumber(value, format)
+  return num !== null ? num : value
+}
@@ -0,0 +1,122 @@
+import { CsvParser, CsvParseError } from "@/lib/import/csv-parser"
+import { CsvImportOptions, parseCellValue } from "@/lib/import/csv-sniffer"
+import { WorkbookImportOptions, readSheet, readWorkbook } from "@/lib/import/xlsx-reader"
+import { ArrayMode, flattenRecords, parseJsonDocument } from "@/lib/import/json-reader"
+import { Dataset, DatasetBuilder, DatasetSnapshot } from "@/lib/dataset"
+import { ColumnInfo, analyzeColumn } from "@/lib/profiling"
+import { parseDateColumn } from "@/lib/date-parsing"
+import { applyNullTokens } from "@/lib/missing-values"
+
+// A complete import (read, parse and profile) expressed as one cloneable
+// request so it can run inside the import worker.
+
+export type ImportRequest = (
+  | { format: 'csv'; file: File; options: CsvImportOptions }
+  | { format: 'workbook'; file: File; options: WorkbookImportOptions }
+  | { format: 'json'; file: File; arrays: ArrayMode }
+) & {
+  // Cell values read as missing, e.g. "N/A"
+  nullTokens: string[]
+}
+
+export interface ImportProgress {
+  phase: 'reading' | 'profiling'
+  rows: number
+  bytesRead: number
+  totalBytes: number
+}
+
+export interface ImportResult {
+  dataset: DatasetSnapshot
+  columns: ColumnInfo[]
+  // Lines that could not be parsed cleanly (ragged CSV rows, invalid NDJSON lines)
+  issues: CsvParseError[]
+}
+
+export type ImportWorkerMessage =
+  | { type: 'progress'; progress: ImportProgress }
+  | { type: 'done'; result: ImportResult }
+  | { type: 'error'; message: string }
+
+type ProgressCallback = (progress: ImportProgress) => void
+
+interface ReadResult {
+  dataset: Dataset
+  issues: CsvParseError[]
+  sourcePaths: Record<string, string>
+}
+
+async function readCsv(file: File, options: CsvImportOptions, onProgress: ProgressCallback): Promise<ReadResult> {
+  const issues: CsvParseError[] = []
+  let builder = null as DatasetBuilder | null
+
+  const parser = new CsvParser(
+    { delimiter: options.delimiter, quote: options.quote, header: options.header },
+    {
+      onHeader: headers => { builder = new DatasetBuilder(headers) },
+      onRow: fields => {
+        // Headerless files are named positionally from the first row's width
+        builder ??= new DatasetBuilder(fields.map((_, index) => `column_${index + 1}`))
+        builder.addRow(fields.map(field => parseCellValue(field, options)))
+      },
+      onError: issue => { issues.push(issue) }
+    }
+  )
+
+  const reader = file.stream().getReader()
+  const decoder = new TextDecoder(options.encoding)
+  let bytesRead = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    bytesRead += value.byteLength
+    parser.push(decoder.decode(value, { stream: true }))
+    onProgress({ phase: 'reading', rows: builder?.rowCount ?? 0, bytesRead, totalBytes: file.size })
+  }
+  parser.push(decoder.decode())
+  parser.finish()
+
+  const dataset = builder ? builder.build() : new Dataset({ rowCount: 0, columns: [] })
+  return { dataset, issues, sourcePaths: {} }
+}
+
+async function readWorkbookFile(file: File, options: WorkbookImportOptions): Promise<ReadResult> {
+  const table = readSheet(readWorkbook(await file.arrayBuffer()), options)
+  return { dataset: Dataset.fromRows(table.headers, table.rows), issues: [], sourcePaths: {} }
+}
+
+async function readJson(file: File, arrays: ArrayMode): Promise<ReadResult> {
+  const jsonDocument = parseJsonDocument(await file.text())
+  const table = flattenRecords(jsonDocument.records, arrays, jsonDocument.recordPath)
+  return { dataset: Dataset.fromRows(table.headers, table.rows), issues: jsonDocument.errors, sourcePaths: table.sourcePaths }
+}
+
+export async function runImportJob(request: ImportRequest, onProgress: ProgressCallback): Promise<ImportResult> {
+  const { file } = request
+  onProgress({ phase: 'reading', rows: 0, bytesRead: 0, totalBytes: file.size })
+
+  const { dataset: read, issues, sourcePaths } =
+    request.format === 'csv' ? await readCsv(file, request.options, onProgress)
+    : request.format === 'workbook' ? await readWorkbookFile(file, request.options)
+    : await readJson(file, request.arrays)
+
+  if (read.columns.length === 0) {
+    throw new Error('The file does not contain a header row')
+  }
+
+  // Placeholders go first, so numbers or dates with "N/A" gaps still get their type
+  const raw = applyNullTokens(read, request.nullTokens).dataset
+
+  // Columns whose values are all dates (in one format) are stored as timestamps
+  const dataset = new Dataset({
+    rowCount: raw.rowCount,
+    columns: raw.columns.map(column => parseDateColumn(column) ?? column)
+  })
+
+  const columns = dataset.columns.map(column => {
+    onProgress({ phase: 'profiling', rows: dataset.rowCount, bytesRead: file.size, totalBytes: file.size })
+    return { ...analyzeColumn(column, dataset.rowCount), sourcePath: sourcePaths[column.name] }
+  })
+
+  return { dataset: dataset.toSnapshot(), columns, issues }
+}
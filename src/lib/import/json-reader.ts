@@ -0,0 +1,141 @@
+// JSON and newline-delimited JSON ingestion. Nested objects are flattened into
+// dotted column names (customer.address.city) and every column remembers the
+// JSON path it was read from so the profile can show where a field came from.
+
+export type JsonFormat = 'json' | 'ndjson'
+
+export type ArrayMode = 'explode' | 'stringify'
+
+export type JsonCell = string | number | boolean | null
+
+export interface JsonParseError {
+  line: number
+  message: string
+}
+
+export interface JsonDocument {
+  format: JsonFormat
+  records: unknown[]
+  // JSON path of a single record, e.g. "$[*]" or "$.data[*]" for wrapped API responses
+  recordPath: string
+  errors: JsonParseError[]
+}
+
+export interface FlattenedTable {
+  headers: string[]
+  rows: Record<string, JsonCell>[]
+  // Column name -> JSON path, e.g. "items.sku" -> "$.items[*].sku"
+  sourcePaths: Record<string, string>
+}
+
+// Exploding several sibling arrays multiplies rows; refuse pathological records
+const MAX_ROWS_PER_RECORD = 10000
+
+const JSON_EXTENSIONS = ['.json', '.ndjson', '.jsonl']
+
+export function isJsonFile(file: File): boolean {
+  const name = file.name.toLowerCase()
+  return JSON_EXTENSIONS.some(ext => name.endsWith(ext))
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+export function parseJsonDocument(text: string): JsonDocument {
+  const trimmed = text.replace(/^\uFEFF/, '').trim()
+
+  try {
+    const parsed: unknown = JSON.parse(trimmed)
+    if (Array.isArray(parsed)) {
+      return { format: 'json', records: parsed, recordPath: '$[*]', errors: [] }
+    }
+    if (isPlainObject(parsed)) {
+      // API dumps usually wrap the records: { "data": [ ... ], "meta": { ... } }
+      const wrapped = Object.entries(parsed).find(([, value]) => Array.isArray(value) && value.some(isPlainObject))
+      if (wrapped) {
+        return { format: 'json', records: wrapped[1] as unknown[], recordPath: `$.${wrapped[0]}[*]`, errors: [] }
+      }
+      return { format: 'json', records: [parsed], recordPath: '$', errors: [] }
+    }
+    return { format: 'json', records: [parsed], recordPath: '$', errors: [] }
+  } catch {
+    // Not a single JSON value; fall back to one record per line
+  }
+
+  const records: unknown[] = []
+  const errors: JsonParseError[] = []
+  trimmed.split(/\r\n|\n|\r/).forEach((line, index) => {
+    if (!line.trim()) return
+    try {
+      records.push(JSON.parse(line))
+    } catch (error) {
+      errors.push({ line: index + 1, message: error instanceof Error ? error.message : 'Invalid JSON' })
+    }
+  })
+
+  if (records.length === 0) {
+    throw new Error(errors[0] ? `Invalid JSON on line ${errors[0].line}: ${errors[0].message}` : 'The file is empty')
+  }
+  return { format: 'ndjson', records, recordPath: '$', errors }
+}
+
+function flattenValue(
+  value: unknown,
+  column: string,
+  path: string,
+  arrays: ArrayMode,
+  sourcePaths: Map<string, string>
+): Record<string, JsonCell>[] {
+  if (Array.isArray(value)) {
+    if (arrays === 'stringify') {
+      const name = column || 'value'
+      sourcePaths.set(name, path)
+      return [{ [name]: value.length === 0 ? null : JSON.stringify(value) }]
+    }
+    // An empty array keeps its parent row; the exploded fields are simply absent
+    if (value.length === 0) return [{}]
+    return value.flatMap(item => flattenValue(item, column, `${path}[*]`, arrays, sourcePaths))
+  }
+
+  if (isPlainObject(value)) {
+    const entries = Object.entries(value)
+    if (entries.length === 0) {
+      sourcePaths.set(column, path)
+      return [{ [column]: null }]
+    }
+
+    let rows: Record<string, JsonCell>[] = [{}]
+    for (const [key, child] of entries) {
+      const childRows = flattenValue(child, column ? `${column}.${key}` : key, `${path}.${key}`, arrays, sourcePaths)
+      if (rows.length * childRows.length > MAX_ROWS_PER_RECORD) {
+        throw new Error(`Exploding the arrays under ${path} would create more than ${MAX_ROWS_PER_RECORD} rows; import arrays as text instead`)
+      }
+      rows = rows.flatMap(row => childRows.map(childRow => ({ ...row, ...childRow })))
+    }
+    return rows
+  }
+
+  const name = column || 'value'
+  sourcePaths.set(name, path)
+  if (value === undefined || value === null) return [{ [name]: null }]
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return [{ [name]: value }]
+  }
+  return [{ [name]: String(value) }]
+}
+
+export function flattenRecords(records: unknown[], arrays: ArrayMode, recordPath = '$'): FlattenedTable {
+  const sourcePaths = new Map<string, string>()
+  const rows = records.flatMap(record => flattenValue(record, '', recordPath, arrays, sourcePaths))
+
+  // Columns appear in the order they were first seen; absent fields become null
+  const headers = [...sourcePaths.keys()]
+  const filled = rows.map(row => {
+    // Own keys only, and no prototype, so fields named "constructor" or "__proto__" are plain cells
+    const full: Record<string, JsonCell> = Object.create(null)
+    headers.forEach(header => { full[header] = Object.prototype.hasOwnProperty.call(row, header) ? row[header] ?? null : null })
+    return full
+  })
+
+  return { headers, rows: filled, sourcePaths: Object.fromEntries(sourcePaths) }
+}
@@ -0,0 +1,108 @@
+import * as XLSX from "xlsx"
+import { normalizeHeaders } from "@/lib/import/csv-parser"
+
+// Excel workbook ingestion. Cells keep their native types: numbers stay
+// numbers, booleans stay booleans and date-formatted cells become Date objects.
+
+export type CellValue = string | number | boolean | Date | null
+
+export interface SheetSummary {
+  name: string
+  // Used range in A1 notation, e.g. "A1:F120"; empty for blank sheets
+  range: string
+  rowCount: number
+  columnCount: number
+}
+
+export interface WorkbookImportOptions {
+  sheet: string
+  // Optional A1-style range such as "B3:H500"; defaults to the sheet's used range
+  range?: string
+  header: boolean
+}
+
+export interface SheetTable {
+  headers: string[]
+  rows: Record<string, CellValue>[]
+}
+
+const WORKBOOK_EXTENSIONS = ['.xlsx', '.xlsm', '.xls']
+
+export function isWorkbookFile(file: File): boolean {
+  const name = file.name.toLowerCase()
+  return WORKBOOK_EXTENSIONS.some(ext => name.endsWith(ext))
+}
+
+export function readWorkbook(buffer: ArrayBuffer): XLSX.WorkBook {
+  return XLSX.read(buffer, { type: 'array', cellDates: true })
+}
+
+export function listSheets(workbook: XLSX.WorkBook): SheetSummary[] {
+  return workbook.SheetNames.map(name => {
+    const ref = workbook.Sheets[name]?.['!ref']
+    if (!ref) return { name, range: '', rowCount: 0, columnCount: 0 }
+    const { s, e } = XLSX.utils.decode_range(ref)
+    return {
+      name,
+      range: ref,
+      rowCount: e.r - s.r + 1,
+      columnCount: e.c - s.c + 1
+    }
+  })
+}
+
+export function isValidRange(range: string): boolean {
+  return /^\$?[A-Z]{1,3}\$?\d+(:\$?[A-Z]{1,3}\$?\d+)?$/i.test(range.trim())
+}
+
+export function readSheet(workbook: XLSX.WorkBook, options: WorkbookImportOptions, limit?: number): SheetTable {
+  const sheet = workbook.Sheets[options.sheet]
+  if (!sheet) throw new Error(`Sheet "${options.sheet}" does not exist in this workbook`)
+
+  const range = options.range?.trim()
+  if (range && !isValidRange(range)) {
+    throw new Error(`"${range}" is not a valid cell range (expected something like A1:F200)`)
+  }
+
+  const matrix = XLSX.utils.sheet_to_json<CellValue[]>(sheet, {
+    header: 1,
+    range: boundedRange(range ? range.toUpperCase() : sheet['!ref'], limit === undefined ? undefined : limit + (options.header ? 1 : 0)),
+    raw: true,
+    defval: null,
+    blankrows: false
+  })
+  if (matrix.length === 0) return { headers: [], rows: [] }
+
+  // A loop rather than Math.max(...): spreading a few hundred thousand rows overflows the stack
+  let width = 0
+  for (const cells of matrix) width = Math.max(width, cells.length)
+  const headers = options.header
+    ? normalizeHeaders(Array.from({ length: width }, (_, i) => formatHeaderCell(matrix[0][i])))
+    : normalizeHeaders(Array.from({ length: width }, () => ''))
+  const body = options.header ? matrix.slice(1) : matrix
+
+  const rows = (limit !== undefined ? body.slice(0, limit) : body).map(cells => {
+    const row: Record<string, CellValue> = {}
+    headers.forEach((header, index) => {
+      const value = cells[index]
+      row[header] = typeof value === 'string' ? value.trim() : value ?? null
+    })
+    return row
+  })
+
+  return { headers, rows }
+}
+
+// Cuts a range down to its first rows, so a preview does not convert the whole sheet
+function boundedRange(range: string | undefined, rows: number | undefined): string | undefined {
+  if (!range || rows === undefined) return range
+  const bounds = XLSX.utils.decode_range(range)
+  bounds.e.r = Math.min(bounds.e.r, bounds.s.r + rows - 1)
+  return XLSX.utils.encode_range(bounds)
+}
+
+function formatHeaderCell(value: CellValue | undefined): string {
+  if (value === null || value === undefined) return ''
+  if (value instanceof Date) return value.toISOString().slice(0, 10)
+  return String(value)
+}
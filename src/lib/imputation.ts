@@ -0,0 +1,170 @@
+import { Dataset, DatasetColumn, buildColumn, cellValue, isNullAt, presentNumbers } from "@/lib/dataset"
+import { quantile } from "@/lib/statistics"
+
+// Fills or drops missing values column by column and returns a new dataset;
+// the original is left untouched so it stays available in the workspace.
+
+export type ImputeMethod = 'drop' | 'constant' | 'mean' | 'median' | 'mode' | 'forward-fill'
+
+export interface ImputeStrategy {
+  method: ImputeMethod
+  // Fill value for 'constant', as typed by the user
+  value?: string
+}
+
+export type ImputationPlan = Record<string, ImputeStrategy>
+
+export interface ImputationResult {
+  dataset: Dataset
+  filled: number
+  droppedRows: number
+}
+
+export const IMPUTE_METHOD_LABELS: Record<ImputeMethod, string> = {
+  drop: 'Drop rows',
+  constant: 'Constant',
+  mean: 'Mean',
+  median: 'Median',
+  mode: 'Most frequent',
+  'forward-fill': 'Forward fill'
+}
+
+// Mean and median only make sense for values stored as numbers or dates
+export function imputeMethods(column: DatasetColumn): ImputeMethod[] {
+  const numeric = column.kind === 'number' || column.kind === 'date'
+  return numeric
+    ? ['drop', 'constant', 'mean', 'median', 'mode', 'forward-fill']
+    : ['drop', 'constant', 'mode', 'forward-fill']
+}
+
+type Cell = ReturnType<typeof cellValue>
+
+function modeOf(column: DatasetColumn, rowCount: number): Cell {
+  const counts = new Map<string, { value: Cell; count: number }>()
+  let best: { value: Cell; count: number } | null = null
+  for (let i = 0; i < rowCount; i++) {
+    const value = cellValue(column, i)
+    if (value === null) continue
+    const key = value instanceof Date ? String(value.getTime()) : `${typeof value}:${value}`
+    const entry = counts.get(key) ?? { value, count: 0 }
+    entry.count++
+    counts.set(key, entry)
+    if (!best || entry.count > best.count) best = entry
+  }
+  return best?.value ?? null
+}
+
+// Reads a typed constant the way the column stores its values
+function constantFor(column: DatasetColumn, text: string): Cell {
+  switch (column.kind) {
+    case 'number': {
+      const number = Number(text)
+      if (text.trim() === '' || Number.isNaN(number)) throw new Error(`"${text}" is not a number (column ${column.name})`)
+      return number
+    }
+    case 'date': {
+      const time = Date.parse(text)
+      if (Number.isNaN(time)) throw new Error(`"${text}" is not a date (column ${column.name})`)
+      return new Date(time)
+    }
+    case 'boolean':
+      if (!/^(true|false)$/i.test(text.trim())) throw new Error(`Use true or false to fill column ${column.name}`)
+      return text.trim().toLowerCase() === 'true'
+    default:
+      return text
+  }
+}
+
+function fillValue(column: DatasetColumn, rowCount: number, strategy: ImputeStrategy): Cell {
+  switch (strategy.method) {
+    case 'constant':
+      return constantFor(column, strategy.value ?? '')
+    case 'mode':
+      return modeOf(column, rowCount)
+    case 'mean':
+    case 'median': {
+      const values = presentNumbers(column)
+      if (values.length === 0) return null
+      const result = strategy.method === 'mean'
+        ? values.reduce((sum, value) => sum + value, 0) / values.length
+        : quantile(values.sort(), 0.5)
+      return column.kind === 'date' ? new Date(Math.round(result)) : result
+    }
+    default:
+      return null
+  }
+}
+
+// `order` lists the row indices in the order values carry forward, e.g. by time
+function imputeColumn(column: DatasetColumn, rowCount: number, strategy: ImputeStrategy, order: ArrayLike<number>): { column: DatasetColumn; filled: number } {
+  const raw: Cell[] = new Array(rowCount)
+  for (let i = 0; i < rowCount; i++) raw[i] = cellValue(column, i)
+
+  let filled = 0
+  if (strategy.method === 'forward-fill') {
+    let previous: Cell = null
+    for (let k = 0; k < order.length; k++) {
+      const i = order[k]
+      if (raw[i] === null) {
+        if (previous !== null) {
+          raw[i] = previous
+          filled++
+        }
+      } else {
+        previous = raw[i]
+      }
+    }
+  } else {
+    const value = fillValue(column, rowCount, strategy)
+    if (value !== null) {
+      for (let i = 0; i < rowCount; i++) {
+        if (raw[i] === null) {
+          raw[i] = value
+          filled++
+        }
+      }
+    }
+  }
+
+  const rebuilt = buildColumn(column.name, raw)
+  // Keep how dates were parsed; filling never changes what a column holds
+  if (rebuilt.kind === 'date' && column.kind === 'date') return { column: { ...rebuilt, format: column.format }, filled }
+  return { column: rebuilt, filled }
+}
+
+// Row order for forward fill: by the time column when there is one, so gaps
+// take the latest earlier observation rather than the previous line of the file
+function fillOrder(dataset: Dataset, timeColumn?: string): Int32Array {
+  const order = Int32Array.from({ length: dataset.rowCount }, (_, i) => i)
+  const time = timeColumn ? dataset.column(timeColumn) : undefined
+  if (time?.kind !== 'date') return order
+  const values = time.values
+  // Rows without a timestamp keep their place at the end
+  return order.sort((a, b) => (Number.isNaN(values[a]) ? Infinity : values[a]) - (Number.isNaN(values[b]) ? Infinity : values[b]) || a - b)
+}
+
+export function imputeDataset(dataset: Dataset, plan: ImputationPlan, timeColumn?: string): ImputationResult {
+  const order = fillOrder(dataset, timeColumn)
+  let filled = 0
+  const columns = dataset.columns.map(column => {
+    const strategy = plan[column.name]
+    if (!strategy || strategy.method === 'drop') return column
+    const result = imputeColumn(column, dataset.rowCount, strategy, order)
+    filled += result.filled
+    return result.column
+  })
+
+  // Rows are dropped on the original values, so a fill elsewhere cannot rescue them
+  const dropColumns = dataset.columns.filter(column => plan[column.name]?.method === 'drop')
+  const keep: number[] = []
+  for (let i = 0; i < dataset.rowCount; i++) {
+    if (!dropColumns.some(column => isNullAt(column, i))) keep.push(i)
+  }
+
+  const imputed = new Dataset({ rowCount: dataset.rowCount, columns })
+  return {
+    dataset: keep.length === dataset.rowCount ? imputed : imputed.take(keep),
+    filled,
+    droppedRows: dataset.rowCount - keep.length
+  }
+}
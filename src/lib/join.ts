@@ -0,0 +1,177 @@
+import { Dataset, DatasetBuilder, DatasetColumn, cellValue, isNullAt } from "@/lib/dataset"
+
+// Hash joins between two datasets on one or more key columns. Keys are
+// compared by value, so 42 in a numeric column matches "42" in a text column.
+
+export type JoinType = 'inner' | 'left' | 'full'
+
+export interface JoinSpec {
+  type: JoinType
+  leftKeys: string[]
+  rightKeys: string[]
+}
+
+export interface JoinStats {
+  leftRows: number
+  rightRows: number
+  // Rows on each side whose key has at least one partner on the other side
+  matchedLeft: number
+  matchedRight: number
+  // Left rows that match more than one right row and so fan out
+  duplicatedLeft: number
+  outputRows: number
+}
+
+export interface JoinResult {
+  dataset: Dataset
+  stats: JoinStats
+}
+
+const KEY_SEPARATOR = '\u0000'
+
+function keyPart(column: DatasetColumn, index: number): string {
+  const value = cellValue(column, index)
+  return value instanceof Date ? String(value.getTime()) : String(value)
+}
+
+// Composite key for a row, or null when any key cell is missing (nulls never match)
+function rowKey(columns: DatasetColumn[], index: number): string | null {
+  const parts: string[] = []
+  for (const column of columns) {
+    if (isNullAt(column, index)) return null
+    parts.push(keyPart(column, index))
+  }
+  return parts.join(KEY_SEPARATOR)
+}
+
+function keyColumns(dataset: Dataset, names: string[]): DatasetColumn[] {
+  return names.map(name => {
+    const column = dataset.column(name)
+    if (!column) throw new Error(`Unknown key column "${name}"`)
+    return column
+  })
+}
+
+function indexRows(columns: DatasetColumn[], rowCount: number): Map<string, number[]> {
+  const index = new Map<string, number[]>()
+  for (let i = 0; i < rowCount; i++) {
+    const key = rowKey(columns, i)
+    if (key === null) continue
+    const rows = index.get(key)
+    if (rows) rows.push(i)
+    else index.set(key, [i])
+  }
+  return index
+}
+
+// Keys filled in from the right side of a full join take the left column's type,
+// so "42" from a text key does not turn a numeric key column into text
+function fillKey(leftColumn: DatasetColumn, value: ReturnType<typeof cellValue>) {
+  if (leftColumn.kind === 'number' && typeof value === 'string' && Number.isFinite(Number(value))) return Number(value)
+  return value
+}
+
+function validateSpec(spec: JoinSpec) {
+  if (spec.leftKeys.length === 0 || spec.leftKeys.length !== spec.rightKeys.length) {
+    throw new Error('Choose the same number of key columns on both sides')
+  }
+}
+
+// Key-match statistics without building the joined table, for the join builder preview
+export function joinStats(left: Dataset, right: Dataset, spec: JoinSpec): JoinStats {
+  validateSpec(spec)
+  const leftColumns = keyColumns(left, spec.leftKeys)
+  const rightIndex = indexRows(keyColumns(right, spec.rightKeys), right.rowCount)
+
+  let matchedLeft = 0
+  let duplicatedLeft = 0
+  let pairs = 0
+  const matchedKeys = new Set<string>()
+  for (let i = 0; i < left.rowCount; i++) {
+    const key = rowKey(leftColumns, i)
+    const partners = key === null ? undefined : rightIndex.get(key)
+    if (!partners) continue
+    matchedLeft++
+    pairs += partners.length
+    if (partners.length > 1) duplicatedLeft++
+    matchedKeys.add(key as string)
+  }
+
+  let matchedRight = 0
+  for (const key of matchedKeys) matchedRight += rightIndex.get(key)?.length ?? 0
+
+  const unmatchedLeft = left.rowCount - matchedLeft
+  const unmatchedRight = right.rowCount - matchedRight
+  const outputRows = spec.type === 'inner' ? pairs
+    : spec.type === 'left' ? pairs + unmatchedLeft
+    : pairs + unmatchedLeft + unmatchedRight
+
+  return {
+    leftRows: left.rowCount,
+    rightRows: right.rowCount,
+    matchedLeft,
+    matchedRight,
+    duplicatedLeft,
+    outputRows
+  }
+}
+
+// Right-hand columns that clash with a left name get the right dataset's name as a suffix
+function outputNames(left: Dataset, rightNames: string[], rightLabel: string): string[] {
+  const taken = new Set(left.columnNames)
+  return rightNames.map(name => {
+    let candidate = taken.has(name) ? `${name}_${rightLabel}` : name
+    for (let n = 2; taken.has(candidate); n++) candidate = `${name}_${rightLabel}_${n}`
+    taken.add(candidate)
+    return candidate
+  })
+}
+
+export function joinDatasets(left: Dataset, right: Dataset, spec: JoinSpec, rightLabel = 'right'): JoinResult {
+  const stats = joinStats(left, right, spec)
+  const leftKeyColumns = keyColumns(left, spec.leftKeys)
+  const rightKeyColumns = keyColumns(right, spec.rightKeys)
+  const rightIndex = indexRows(rightKeyColumns, right.rowCount)
+
+  // Right key columns are folded into the left ones; full joins fill them from the right side
+  const rightColumns = right.columns.filter(column => !spec.rightKeys.includes(column.name))
+  const rightNames = outputNames(left, rightColumns.map(column => column.name), rightLabel)
+  const leftKeyPositions = spec.leftKeys.map(name => left.columnNames.indexOf(name))
+  const width = left.columns.length + rightColumns.length
+
+  const builder = new DatasetBuilder([...left.columnNames, ...rightNames])
+  const values: unknown[] = new Array(width)
+  const emit = (leftIndex: number, rightIndex: number) => {
+    for (let c = 0; c < left.columns.length; c++) {
+      values[c] = leftIndex === -1 ? null : cellValue(left.columns[c], leftIndex)
+    }
+    if (leftIndex === -1) {
+      leftKeyPositions.forEach((position, k) => {
+        values[position] = fillKey(leftKeyColumns[k], cellValue(rightKeyColumns[k], rightIndex))
+      })
+    }
+    for (let c = 0; c < rightColumns.length; c++) {
+      values[left.columns.length + c] = rightIndex === -1 ? null : cellValue(rightColumns[c], rightIndex)
+    }
+    builder.addRow(values)
+  }
+
+  const matchedRight = new Uint8Array(right.rowCount)
+  for (let i = 0; i < left.rowCount; i++) {
+    const key = rowKey(leftKeyColumns, i)
+    const partners = key === null ? undefined : rightIndex.get(key)
+    if (partners) {
+      for (const j of partners) {
+        matchedRight[j] = 1
+        emit(i, j)
+      }
+    } else if (spec.type !== 'inner') {
+      emit(i, -1)
+    }
+  }
+  if (spec.type === 'full') {
+    for (let j = 0; j < right.rowCount; j++) if (!matchedRight[j]) emit(-1, j)
+  }
+
+  return { dataset: builder.build(), stats }
+}
@@ -0,0 +1,143 @@
+import { Dataset, DatasetColumn, buildColumn, cellValue, isNullAt } from "@/lib/dataset"
+import { parseDateColumn } from "@/lib/date-parsing"
+
+// Missing values beyond empty cells: placeholder tokens such as "N/A" that
+// exports use for "no value", and which columns tend to be missing together.
+
+export const DEFAULT_NULL_TOKENS = ['N/A', 'NA', 'null', 'none', 'nil', 'NaN', '-', '--', '?']
+
+export interface NullTokenResult {
+  dataset: Dataset
+  // Columns that had at least one token replaced
+  changed: string[]
+  replaced: number
+}
+
+export interface MissingColumn {
+  name: string
+  missing: number
+}
+
+// Two columns that are both missing in some rows
+export interface MissingPair {
+  x: string
+  y: string
+  both: number
+  // Pearson correlation of the two missing-value indicators
+  correlation: number
+}
+
+// A combination of columns that is missing in the same rows
+export interface MissingPattern {
+  columns: string[]
+  rows: number
+}
+
+export interface MissingnessReport {
+  rowCount: number
+  completeRows: number
+  columns: MissingColumn[]
+  pairs: MissingPair[]
+  patterns: MissingPattern[]
+}
+
+const MAX_PATTERNS = 10
+const NUMBER_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/
+
+// Tokens match whole cells, ignoring case and surrounding whitespace
+export function parseNullTokens(text: string): string[] {
+  return [...new Set(text.split(',').map(token => token.trim()).filter(Boolean))]
+}
+
+// Rebuilds a string column with the tokens read as missing. Once the tokens are
+// gone, columns of numbers or dates get the type they would have had without them.
+function replaceTokens(column: DatasetColumn, rowCount: number, tokens: Set<string>): { column: DatasetColumn; replaced: number } {
+  if (column.kind !== 'category' && column.kind !== 'text') return { column, replaced: 0 }
+  const strings = column.kind === 'category' ? column.dictionary : column.values
+  if (!strings.some(value => value !== null && tokens.has(value.trim().toLowerCase()))) return { column, replaced: 0 }
+
+  const raw: (string | null)[] = []
+  let replaced = 0
+  for (let i = 0; i < rowCount; i++) {
+    const value = cellValue(column, i) as string | null
+    if (value !== null && tokens.has(value.trim().toLowerCase())) {
+      raw.push(null)
+      replaced++
+    } else {
+      raw.push(value)
+    }
+  }
+  const numeric = raw.every(value => value === null || NUMBER_PATTERN.test(value.trim()))
+  const rebuilt = buildColumn(column.name, numeric ? raw.map(value => value === null ? null : Number(value)) : raw)
+  return { column: parseDateColumn(rebuilt) ?? rebuilt, replaced }
+}
+
+export function applyNullTokens(dataset: Dataset, tokens: string[]): NullTokenResult {
+  const lookup = new Set(tokens.map(token => token.trim().toLowerCase()))
+  const changed: string[] = []
+  let replaced = 0
+  const columns = dataset.columns.map(column => {
+    const result = replaceTokens(column, dataset.rowCount, lookup)
+    if (result.replaced > 0) {
+      changed.push(column.name)
+      replaced += result.replaced
+    }
+    return result.column
+  })
+  return { dataset: replaced > 0 ? new Dataset({ rowCount: dataset.rowCount, columns }) : dataset, changed, replaced }
+}
+
+export function analyzeMissingness(dataset: Dataset): MissingnessReport {
+  const { rowCount } = dataset
+  const withMissing = dataset.columns
+    .map(column => {
+      const mask = new Uint8Array(rowCount)
+      let missing = 0
+      for (let i = 0; i < rowCount; i++) {
+        if (isNullAt(column, i)) {
+          mask[i] = 1
+          missing++
+        }
+      }
+      return { name: column.name, missing, mask }
+    })
+    .filter(column => column.missing > 0)
+
+  const pairs: MissingPair[] = []
+  for (let a = 0; a < withMissing.length; a++) {
+    for (let b = a + 1; b < withMissing.length; b++) {
+      const x = withMissing[a]
+      const y = withMissing[b]
+      let both = 0
+      for (let i = 0; i < rowCount; i++) both += x.mask[i] & y.mask[i]
+      if (both === 0) continue
+      // Phi coefficient of the two indicators, from their 2x2 table
+      const px = x.missing / rowCount
+      const py = y.missing / rowCount
+      const spread = Math.sqrt(px * (1 - px) * py * (1 - py))
+      const correlation = spread > 0 ? (both / rowCount - px * py) / spread : 1
+      pairs.push({ x: x.name, y: y.name, both, correlation })
+    }
+  }
+
+  // Patterns are keyed by the positions of the missing columns
+  const patterns = new Map<string, number>()
+  let completeRows = 0
+  for (let i = 0; i < rowCount; i++) {
+    let key = ''
+    for (let c = 0; c < withMissing.length; c++) if (withMissing[c].mask[i]) key += `${c},`
+    if (key === '') completeRows++
+    else patterns.set(key, (patterns.get(key) ?? 0) + 1)
+  }
+
+  return {
+    rowCount,
+    completeRows,
+    columns: withMissing.map(({ name, missing }) => ({ name, missing })).sort((a, b) => b.missing - a.missing),
+    pairs: pairs.sort((a, b) => b.correlation - a.correlation),
+    patterns: [...patterns.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_PATTERNS)
+      .map(([key, rows]) => ({ columns: key.split(',').filter(Boolean).map(c => withMissing[Number(c)].name), rows }))
+  }
+}
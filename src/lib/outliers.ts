@@ -0,0 +1,218 @@
+import { Dataset } from "@/lib/dataset"
+import { ColumnInfo } from "@/lib/profiling"
+import { numericVector } from "@/lib/correlation"
+import { quantile } from "@/lib/statistics"
+
+// Outlier detection for numerical columns. The univariate methods reduce to
+// fences per column; the isolation forest scores whole rows across all
+// numerical columns, so it also finds unusual combinations of ordinary values.
+
+export type OutlierMethod = 'iqr' | 'zscore' | 'modified-zscore' | 'isolation-forest'
+
+export interface ColumnOutliers {
+  name: string
+  lower: number
+  upper: number
+  rows: number[]
+}
+
+export interface OutlierReport {
+  method: OutlierMethod
+  // Fences per column; empty for the isolation forest
+  columns: ColumnOutliers[]
+  // Flagged row indices in ascending order
+  rows: number[]
+  // Anomaly score per row (0 to 1) for the isolation forest
+  scores?: Float64Array
+}
+
+export const OUTLIER_METHOD_LABELS: Record<OutlierMethod, string> = {
+  iqr: 'IQR fences',
+  zscore: 'Z-score',
+  'modified-zscore': 'Modified z-score',
+  'isolation-forest': 'Isolation forest'
+}
+
+const IQR_FACTOR = 1.5
+const Z_LIMIT = 3
+// Iglewicz and Hoaglin's cut-off; 0.6745 scales the MAD to a standard deviation
+const MODIFIED_Z_LIMIT = 3.5
+const MAD_SCALE = 0.6745
+const FOREST_TREES = 100
+const FOREST_SAMPLE = 256
+const FOREST_THRESHOLD = 0.6
+// Same bound as the correlation matrix, for the same reason
+const MAX_FOREST_COLUMNS = 25
+
+function present(values: ArrayLike<number>): Float64Array {
+  const out: number[] = []
+  for (let i = 0; i < values.length; i++) if (Number.isFinite(values[i])) out.push(values[i])
+  return Float64Array.from(out)
+}
+
+// [lower, upper] bounds outside which a value is an outlier, or null when the
+// values are too uniform to tell
+function fences(values: ArrayLike<number>, method: Exclude<OutlierMethod, 'isolation-forest'>): [number, number] | null {
+  const sorted = present(values).sort()
+  if (sorted.length < 3) return null
+  if (method === 'iqr') {
+    const q1 = quantile(sorted, 0.25)
+    const q3 = quantile(sorted, 0.75)
+    const spread = q3 - q1
+    return spread > 0 ? [q1 - IQR_FACTOR * spread, q3 + IQR_FACTOR * spread] : null
+  }
+  if (method === 'zscore') {
+    const mean = sorted.reduce((sum, value) => sum + value, 0) / sorted.length
+    const variance = sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (sorted.length - 1)
+    const std = Math.sqrt(variance)
+    return std > 0 ? [mean - Z_LIMIT * std, mean + Z_LIMIT * std] : null
+  }
+  const median = quantile(sorted, 0.5)
+  const deviations = sorted.map(value => Math.abs(value - median)).sort()
+  const mad = quantile(deviations, 0.5)
+  const reach = (MODIFIED_Z_LIMIT * mad) / MAD_SCALE
+  return mad > 0 ? [median - reach, median + reach] : null
+}
+
+// Small seeded generator so the forest, and the rows it flags, are the same on every run
+function random(seed: number): () => number {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+// Average path length of an unsuccessful search in a binary search tree of n points
+function averagePath(n: number): number {
+  if (n <= 1) return 0
+  if (n === 2) return 1
+  return 2 * (Math.log(n - 1) + 0.5772156649) - (2 * (n - 1)) / n
+}
+
+type IsolationNode =
+  | { kind: 'leaf'; size: number }
+  | { kind: 'split'; feature: number; split: number; left: IsolationNode; right: IsolationNode }
+
+function buildTree(features: Float64Array[], rows: number[], depth: number, limit: number, next: () => number): IsolationNode {
+  if (depth >= limit || rows.length <= 1) return { kind: 'leaf', size: rows.length }
+  // Only features that still vary within this node can split it
+  const candidates: { feature: number; min: number; max: number }[] = []
+  features.forEach((values, feature) => {
+    let min = Infinity
+    let max = -Infinity
+    for (const row of rows) {
+      if (values[row] < min) min = values[row]
+      if (values[row] > max) max = values[row]
+    }
+    if (max > min) candidates.push({ feature, min, max })
+  })
+  if (candidates.length === 0) return { kind: 'leaf', size: rows.length }
+
+  const { feature, min, max } = candidates[Math.floor(next() * candidates.length)]
+  const split = min + next() * (max - min)
+  const values = features[feature]
+  return {
+    kind: 'split',
+    feature,
+    split,
+    left: buildTree(features, rows.filter(row => values[row] < split), depth + 1, limit, next),
+    right: buildTree(features, rows.filter(row => values[row] >= split), depth + 1, limit, next)
+  }
+}
+
+function pathLength(node: IsolationNode, features: Float64Array[], row: number, depth = 0): number {
+  if (node.kind === 'leaf') return depth + averagePath(node.size)
+  const next = features[node.feature][row] < node.split ? node.left : node.right
+  return pathLength(next, features, row, depth + 1)
+}
+
+// Anomaly score per row following Liu, Ting and Zhou: close to 1 for rows that
+// are isolated in few splits, around 0.5 or below for ordinary rows
+export function isolationScores(features: Float64Array[], rowCount: number): Float64Array {
+  const scores = new Float64Array(rowCount)
+  if (features.length === 0 || rowCount < 3) return scores
+
+  // Gaps are filled with the column median so incomplete rows can still be scored
+  const filled = features.map(values => {
+    const median = quantile(present(values).sort(), 0.5)
+    return values.map(value => Number.isFinite(value) ? value : median)
+  })
+
+  const next = random(rowCount)
+  const sampleSize = Math.min(FOREST_SAMPLE, rowCount)
+  const limit = Math.ceil(Math.log2(sampleSize))
+  const trees: IsolationNode[] = []
+  for (let t = 0; t < FOREST_TREES; t++) {
+    // Floyd's algorithm: a sample without replacement in sampleSize draws
+    const sample = new Set<number>()
+    for (let j = rowCount - sampleSize; j < rowCount; j++) {
+      const pick = Math.floor(next() * (j + 1))
+      sample.add(sample.has(pick) ? j : pick)
+    }
+    trees.push(buildTree(filled, [...sample], 0, limit, next))
+  }
+
+  const normalizer = averagePath(sampleSize)
+  for (let row = 0; row < rowCount; row++) {
+    let total = 0
+    for (const tree of trees) total += pathLength(tree, filled, row)
+    scores[row] = Math.pow(2, -(total / trees.length) / normalizer)
+  }
+  return scores
+}
+
+// Indices of the values flagged by a method, for series that are not dataset columns
+export function flagValues(values: ArrayLike<number>, method: OutlierMethod): Set<number> {
+  const flagged = new Set<number>()
+  if (method === 'isolation-forest') {
+    const scores = isolationScores([Float64Array.from(values)], values.length)
+    scores.forEach((score, i) => { if (score >= FOREST_THRESHOLD) flagged.add(i) })
+    return flagged
+  }
+  const bounds = fences(values, method)
+  if (!bounds) return flagged
+  for (let i = 0; i < values.length; i++) {
+    if (values[i] < bounds[0] || values[i] > bounds[1]) flagged.add(i)
+  }
+  return flagged
+}
+
+export function detectOutliers(dataset: Dataset, columns: ColumnInfo[], method: OutlierMethod): OutlierReport {
+  const numerical = columns.filter(column => column.type === 'numerical' && dataset.column(column.name))
+  const vectors = numerical.map(info => numericVector(dataset.column(info.name)!, dataset.rowCount, info))
+
+  if (method === 'isolation-forest') {
+    const scores = isolationScores(vectors.slice(0, MAX_FOREST_COLUMNS), dataset.rowCount)
+    const rows: number[] = []
+    scores.forEach((score, i) => { if (score >= FOREST_THRESHOLD) rows.push(i) })
+    return { method, columns: [], rows, scores }
+  }
+
+  const flagged = new Set<number>()
+  const perColumn: ColumnOutliers[] = []
+  numerical.forEach((info, c) => {
+    const bounds = fences(vectors[c], method)
+    if (!bounds) return
+    const rows: number[] = []
+    const values = vectors[c]
+    for (let i = 0; i < values.length; i++) {
+      if (values[i] < bounds[0] || values[i] > bounds[1]) {
+        rows.push(i)
+        flagged.add(i)
+      }
+    }
+    perColumn.push({ name: info.name, lower: bounds[0], upper: bounds[1], rows })
+  })
+  return { method, columns: perColumn, rows: [...flagged].sort((a, b) => a - b) }
+}
+
+// The dataset without the flagged rows, for charts that should ignore them
+export function withoutOutliers(dataset: Dataset, report: OutlierReport): Dataset {
+  if (report.rows.length === 0) return dataset
+  const flagged = new Set(report.rows)
+  const keep: number[] = []
+  for (let i = 0; i < dataset.rowCount; i++) if (!flagged.has(i)) keep.push(i)
+  return dataset.take(keep)
+}
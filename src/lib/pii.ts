@@ -0,0 +1,243 @@
+import type { ColumnInfo } from "@/lib/profiling"
+import type { ChartConfig } from "@/lib/auto-charts"
+
+// Personally identifiable information. Profiling flags columns that look like
+// PII; every path that sends or writes data out of the browser (the chat
+// prompt, exports) passes rows through a per-column policy first.
+
+export type PiiKind = 'email' | 'phone' | 'credit-card' | 'national-id' | 'ip-address' | 'person-name' | 'street-address'
+
+export type PiiPolicy = 'send' | 'hash' | 'mask' | 'drop'
+
+// Effective policy per column name; columns that are not listed are sent as they are
+export type PiiPolicies = Record<string, PiiPolicy>
+
+export interface Redaction {
+  column: string
+  policy: Exclude<PiiPolicy, 'send'>
+  // Cells that were changed or removed
+  cells: number
+}
+
+export const PII_KIND_LABELS: Record<PiiKind, string> = {
+  email: 'Email address',
+  phone: 'Phone number',
+  'credit-card': 'Card number',
+  'national-id': 'National ID',
+  'ip-address': 'IP address',
+  'person-name': 'Person name',
+  'street-address': 'Street address'
+}
+
+export const PII_POLICY_LABELS: Record<PiiPolicy, string> = {
+  send: 'Send as is',
+  hash: 'Hash',
+  mask: 'Mask',
+  drop: 'Drop'
+}
+
+// What a flagged column gets until the user picks something else. Hashes keep
+// values joinable and countable; numbers that are secrets by themselves are dropped.
+export const DEFAULT_PII_POLICIES: Record<PiiKind, PiiPolicy> = {
+  email: 'mask',
+  phone: 'mask',
+  'credit-card': 'drop',
+  'national-id': 'drop',
+  'ip-address': 'hash',
+  'person-name': 'hash',
+  'street-address': 'mask'
+}
+
+// Share of sampled values that must match for a column to be flagged by its values alone
+const MATCH_SHARE = 0.8
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const PHONE = /^\+?\d{0,3}[\s.-]?\(?\d{2,4}\)?[\s.-]\d{3,4}[\s.-]?\d{3,4}$/
+const CARD = /^\d{4}([\s-]?\d{4}){2}[\s-]?\d{1,7}$/
+const SSN = /^\d{3}-\d{2}-\d{4}$/
+const IPV4 = /^(25[0-5]|2[0-4]\d|1?\d?\d)(\.(25[0-5]|2[0-4]\d|1?\d?\d)){3}$/
+const IPV6 = /^[0-9a-f]{0,4}(:[0-9a-f]{0,4}){2,7}$/i
+const STREET = /^\d+[a-z]?\s+(\S+\s+)+(st|street|rd|road|ave|avenue|blvd|boulevard|ln|lane|dr|drive|ct|court|way|pl|place)\.?\b/i
+
+const NAME_COLUMN = /^(((first|last|full|given|middle|family|sur|customer|contact|employee|patient|user|person)[_\s-]?name)|name|surname|forename)$/i
+const PHONE_COLUMN = /(phone|mobile|cell|fax|tel)(_?(no|number))?$/i
+const NATIONAL_ID_COLUMN = /(ssn|social_?security|national_?id|passport|tax_?id|nin)$/i
+const ADDRESS_COLUMN = /(^|_)(street|address|addr)(_?line_?\d)?$/i
+const EMAIL_COLUMN = /(^|_)e-?mail(_?address)?$/i
+
+// Card numbers carry a Luhn check digit, which tells them apart from other long numbers
+function luhn(digits: string): boolean {
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 1) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+  return sum % 10 === 0
+}
+
+const isCard = (value: string) => CARD.test(value) && luhn(value.replace(/\D/g, ''))
+
+const share = (values: string[], test: (value: string) => boolean) =>
+  values.length > 0 && values.filter(value => test(value.trim())).length / values.length >= MATCH_SHARE
+
+// Flags a column from its name and a sample of its distinct values
+export function detectPii(name: string, values: (string | number | boolean)[]): PiiKind | undefined {
+  const strings = values.filter((value): value is string => typeof value === 'string')
+  const key = name.trim()
+
+  if (share(strings, value => EMAIL.test(value)) || (EMAIL_COLUMN.test(key) && strings.length > 0)) return 'email'
+  if (share(strings, value => SSN.test(value)) || NATIONAL_ID_COLUMN.test(key)) return 'national-id'
+  if (share(strings, isCard)) return 'credit-card'
+  if (share(strings, value => IPV4.test(value) || IPV6.test(value))) return 'ip-address'
+  // Digits alone are too common to call a phone number without the column name agreeing
+  if (share(strings, value => PHONE.test(value)) || PHONE_COLUMN.test(key)) return 'phone'
+  if (share(strings, value => STREET.test(value)) || (ADDRESS_COLUMN.test(key) && strings.length > 0)) return 'street-address'
+  if (NAME_COLUMN.test(key) && strings.length > 0) return 'person-name'
+  return undefined
+}
+
+// Flagged columns get their default policy unless the user chose one for that column name
+export function resolvePolicies(columns: ColumnInfo[], chosen: PiiPolicies): PiiPolicies {
+  const policies: PiiPolicies = {}
+  for (const column of columns) {
+    const policy = chosen[column.name] ?? (column.pii ? DEFAULT_PII_POLICIES[column.pii] : 'send')
+    if (policy !== 'send') policies[column.name] = policy
+  }
+  return policies
+}
+
+// cyrb53: a fast, stable 53-bit string hash. Not a cryptographic hash, but
+// enough to keep values apart without revealing them in a prompt or an export.
+export function hashValue(value: string): string {
+  let h1 = 0xdeadbeef
+  let h2 = 0x41c6ce57
+  for (let i = 0; i < value.length; i++) {
+    const code = value.charCodeAt(i)
+    h1 = Math.imul(h1 ^ code, 2654435761)
+    h2 = Math.imul(h2 ^ code, 1597334677)
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+  return `#${(4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0')}`
+}
+
+// Keeps just enough to recognise a value: "j***@example.com", "*******4567", "A***"
+export function maskValue(value: string): string {
+  const at = value.indexOf('@')
+  if (at > 0) return `${value[0]}***${value.slice(at)}`
+  const digits = value.replace(/\D/g, '').length
+  if (digits >= 6 && digits >= value.replace(/\s/g, '').length * 0.6) {
+    // Mostly digits (phones, card numbers): only the last four stay
+    let seen = 0
+    return value.replace(/\d/g, digit => ++seen > digits - 4 ? digit : '*')
+  }
+  return value.length <= 1 ? '*' : `${value[0]}***`
+}
+
+// A value as it leaves the browser under a policy; null when it is dropped
+export function redactValue(text: string, policy: PiiPolicy): string | null {
+  switch (policy) {
+    case 'send': return text
+    case 'hash': return hashValue(text)
+    case 'mask': return maskValue(text)
+    case 'drop': return null
+  }
+}
+
+function redactCell(value: unknown, policy: PiiPolicy): unknown {
+  if (value === null || value === undefined || value === '') return value
+  return redactValue(value instanceof Date ? value.toISOString() : String(value), policy)
+}
+
+// Applies the policies to row objects; returns new rows and what was redacted
+export function redactRows<T extends Record<string, unknown>>(rows: T[], policies: PiiPolicies): { rows: Record<string, unknown>[]; redactions: Redaction[] } {
+  const counts = new Map<string, number>()
+  const redacted = rows.map(row => {
+    const copy: Record<string, unknown> = { ...row }
+    for (const [column, policy] of Object.entries(policies)) {
+      if (policy === 'send' || !(column in copy)) continue
+      const value = copy[column]
+      if (policy === 'drop') delete copy[column]
+      else copy[column] = redactCell(value, policy)
+      if (value !== null && value !== undefined && value !== '') counts.set(column, (counts.get(column) ?? 0) + 1)
+    }
+    return copy
+  })
+  const redactions = Object.entries(policies)
+    .filter(([column, policy]) => policy !== 'send' && counts.has(column))
+    .map(([column, policy]) => ({ column, policy: policy as Redaction['policy'], cells: counts.get(column) ?? 0 }))
+  return { rows: redacted, redactions }
+}
+
+const LABEL_SEPARATOR = ' / '
+const DROPPED_LABEL = '[redacted]'
+// Shorter values are not replaced inside free text, where they would match parts of words
+const MIN_TEXT_REPLACEMENT = 3
+
+// A chart label built from one or more columns, each part under its column's policy;
+// a label that does not split into one part per column takes the first policy as a whole
+function redactLabel(text: string, columns: string[], policies: PiiPolicies): string {
+  const parts = text.split(LABEL_SEPARATOR)
+  if (parts.length === columns.length) {
+    return parts.map((part, i) => policies[columns[i]] ? redactValue(part, policies[columns[i]]) ?? DROPPED_LABEL : part).join(LABEL_SEPARATOR)
+  }
+  const policy = columns.map(column => policies[column]).find(Boolean)
+  return policy ? redactValue(text, policy) ?? DROPPED_LABEL : text
+}
+
+// Applies the policies to everything a chart shows: the x labels, series names and
+// any column of the data under a policy, and the same values wherever they appear in
+// the title, description or insights. Charts without personal data come back as is.
+export function redactChart(chart: ChartConfig, policies: PiiPolicies): ChartConfig {
+  const active = Object.keys(policies).filter(column => policies[column] !== 'send')
+  if (active.length === 0) return chart
+  const xColumns = chart.labelColumns?.x ?? [chart.xKey]
+  const seriesColumns = chart.labelColumns?.series ?? []
+  const touches = (columns: string[]) => columns.some(column => active.includes(column))
+  const replacements = new Map<string, string>()
+  const replace = (value: unknown, columns: string[]) => {
+    if (value === null || value === undefined || value === '') return value
+    const text = value instanceof Date ? value.toISOString() : String(value)
+    const redacted = redactLabel(text, columns, policies)
+    if (redacted !== text) replacements.set(text, redacted)
+    return redacted
+  }
+
+  // Series are named after column groups, so their names are keys of the data rows
+  const seriesNames = new Map<string, string>()
+  if (touches(seriesColumns)) chart.series?.forEach(name => seriesNames.set(name, replace(name, seriesColumns) as string))
+  const redactX = touches(xColumns)
+  const data = chart.data.map(row => {
+    const copy: Record<string, unknown> = {}
+    for (const [key, value] of Object.entries(row)) {
+      const target = seriesNames.get(key) ?? key
+      if (key === chart.xKey) copy[target] = redactX ? replace(value, xColumns) : value
+      else copy[target] = active.includes(key) ? replace(value, [key]) : value
+    }
+    return copy
+  })
+  if (replacements.size === 0) return chart
+
+  const values = [...replacements.keys()].filter(text => text.length >= MIN_TEXT_REPLACEMENT).sort((a, b) => b.length - a.length)
+  const redactText = (text: string) => values.reduce((out, value) => out.split(value).join(replacements.get(value)), text)
+  const rename = (name: string | undefined) => name === undefined ? name : seriesNames.get(name) ?? name
+  return {
+    ...chart,
+    title: redactText(chart.title),
+    description: redactText(chart.description),
+    insights: chart.insights?.map(redactText),
+    data,
+    yKey: rename(chart.yKey),
+    series: chart.series?.map(rename)
+  }
+}
+
+// "email masked, ssn dropped"
+export function describeRedactions(redactions: Redaction[]): string {
+  const verbs: Record<Redaction['policy'], string> = { hash: 'hashed', mask: 'masked', drop: 'dropped' }
+  return redactions.map(redaction => `${redaction.column} ${verbs[redaction.policy]}`).join(', ')
+}
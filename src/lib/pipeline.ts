@@ -0,0 +1,416 @@
+import { Dataset, DatasetColumn, buildColumn, cellValue } from "@/lib/dataset"
+import { parseDateColumn } from "@/lib/date-parsing"
+import { IMPUTE_METHOD_LABELS, ImputationPlan, imputeDataset } from "@/lib/imputation"
+import { MATCH_METHOD_LABELS, MERGE_STRATEGY_LABELS, MatchOptions, MergeStrategy, deduplicate, findDuplicates } from "@/lib/duplicates"
+import { compileFormula, withCalculatedColumn } from "@/lib/formula"
+import { ColumnInfo, analyzeColumn } from "@/lib/profiling"
+
+// A transformation pipeline: the cleaning applied to a dataset as a list of
+// plain, serializable steps that are replayed on the uploaded data. Steps can
+// be disabled or reordered, the list has an undo/redo history, and the list
+// itself is a recipe that can be saved and run again on a later upload.
+
+export type CastType = 'number' | 'date' | 'boolean' | 'text'
+
+export type TextCase = 'none' | 'lower' | 'upper' | 'title'
+
+export type PipelineStep = { id: string; enabled: boolean } & (
+  // Keeps the rows for which the formula is true
+  | { kind: 'filter'; expression: string }
+  | { kind: 'rename'; column: string; to: string }
+  | { kind: 'cast'; column: string; to: CastType }
+  | { kind: 'impute'; plan: ImputationPlan; timeColumn?: string }
+  | { kind: 'dedupe'; match: MatchOptions; strategy: MergeStrategy }
+  // A calculated column
+  | { kind: 'derive'; name: string; expression: string }
+  | { kind: 'drop'; columns: string[] }
+  // Splits on the separator into the named columns; the last one takes the rest of the text
+  | { kind: 'split'; column: string; separator: string; into: string[] }
+  | { kind: 'normalize'; column: string; trim: boolean; case: TextCase }
+)
+
+export type StepKind = PipelineStep['kind']
+
+// What running a step did; disabled steps are reported as skipped
+export interface StepResult {
+  id: string
+  status: 'ok' | 'skipped' | 'error'
+  rowCount: number
+  message?: string
+}
+
+export interface PipelineRun {
+  dataset: Dataset
+  results: StepResult[]
+}
+
+// Step lists before and after the current one, most recent last
+export interface PipelineHistory {
+  steps: PipelineStep[]
+  past: PipelineStep[][]
+  future: PipelineStep[][]
+}
+
+// Saved or downloaded form of a step list
+export interface PipelineRecipe {
+  schema: typeof RECIPE_SCHEMA
+  version: typeof RECIPE_VERSION
+  // Columns of the data the recipe was built on
+  columns: string[]
+  steps: PipelineStep[]
+}
+
+export const RECIPE_SCHEMA = 'insightbrew-recipe'
+export const RECIPE_VERSION = 1
+
+export const STEP_KIND_LABELS: Record<StepKind, string> = {
+  filter: 'Filter rows',
+  rename: 'Rename column',
+  cast: 'Change type',
+  impute: 'Fill missing values',
+  dedupe: 'Remove duplicates',
+  derive: 'Calculated column',
+  drop: 'Drop columns',
+  split: 'Split column',
+  normalize: 'Trim / change case'
+}
+
+export const CAST_TYPE_LABELS: Record<CastType, string> = {
+  number: 'Number',
+  date: 'Date',
+  boolean: 'Boolean',
+  text: 'Text'
+}
+
+export const TEXT_CASE_LABELS: Record<TextCase, string> = {
+  none: 'Keep case',
+  lower: 'lowercase',
+  upper: 'UPPERCASE',
+  title: 'Title Case'
+}
+
+const MAX_HISTORY = 100
+const NUMBER_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/
+const TRUE_WORDS = new Set(['true', 't', 'yes', 'y', '1'])
+const FALSE_WORDS = new Set(['false', 'f', 'no', 'n', '0'])
+
+export const EMPTY_HISTORY: PipelineHistory = { steps: [], past: [], future: [] }
+
+let nextStepId = 1
+
+export function createStepId(): string {
+  return `step-${Date.now()}-${nextStepId++}`
+}
+
+export function describeStep(step: PipelineStep): string {
+  switch (step.kind) {
+    case 'filter': return `Keep rows where ${step.expression}`
+    case 'rename': return `Rename ${step.column} to ${step.to}`
+    case 'cast': return `Convert ${step.column} to ${CAST_TYPE_LABELS[step.to].toLowerCase()}`
+    case 'impute': return `Fill missing values in ${Object.keys(step.plan).join(', ')}`
+    case 'dedupe': return `Remove duplicates${step.match.keys.length > 0 ? ` by ${step.match.keys.join(', ')}` : ''}`
+    case 'derive': return `${step.name} = ${step.expression}`
+    case 'drop': return `Drop ${step.columns.join(', ')}`
+    case 'split': return `Split ${step.column} on "${step.separator}" into ${step.into.join(', ')}`
+    case 'normalize': {
+      const parts = [step.trim ? 'trim' : '', step.case !== 'none' ? TEXT_CASE_LABELS[step.case] : ''].filter(Boolean)
+      return `${parts.join(' and ') || 'Normalize'} ${step.column}`
+    }
+  }
+}
+
+// --- History -----------------------------------------------------------------
+
+export function commitSteps(history: PipelineHistory, steps: PipelineStep[]): PipelineHistory {
+  return { steps, past: [...history.past, history.steps].slice(-MAX_HISTORY), future: [] }
+}
+
+export function undoSteps(history: PipelineHistory): PipelineHistory {
+  if (history.past.length === 0) return history
+  return {
+    steps: history.past[history.past.length - 1],
+    past: history.past.slice(0, -1),
+    future: [history.steps, ...history.future]
+  }
+}
+
+export function redoSteps(history: PipelineHistory): PipelineHistory {
+  if (history.future.length === 0) return history
+  return { steps: history.future[0], past: [...history.past, history.steps], future: history.future.slice(1) }
+}
+
+// --- Steps -------------------------------------------------------------------
+
+function requireColumn(dataset: Dataset, name: string): DatasetColumn {
+  const column = dataset.column(name)
+  if (!column) throw new Error(`Column "${name}" does not exist`)
+  return column
+}
+
+function replaceColumns(dataset: Dataset, replacements: Map<string, DatasetColumn>, added: DatasetColumn[] = []): Dataset {
+  return new Dataset({
+    rowCount: dataset.rowCount,
+    columns: [...dataset.columns.map(column => replacements.get(column.name) ?? column), ...added]
+  })
+}
+
+// Text values become numbers, or dates, when every one of them reads as such
+function inferColumn(name: string, raw: (string | null)[]): DatasetColumn {
+  const present = raw.filter((value): value is string => value !== null && value.trim() !== '')
+  const numeric = present.length > 0 && present.every(value => NUMBER_PATTERN.test(value.trim()))
+  const column = buildColumn(name, numeric ? raw.map(value => value === null || value.trim() === '' ? null : Number(value)) : raw)
+  return parseDateColumn(column) ?? column
+}
+
+function textAt(column: DatasetColumn, row: number): string | null {
+  const value = cellValue(column, row)
+  if (value === null) return null
+  return value instanceof Date ? value.toISOString() : String(value)
+}
+
+// Cells that could not be converted become missing; the count is reported
+function castColumn(column: DatasetColumn, rowCount: number, to: CastType): { column: DatasetColumn; lost: number } {
+  const raw: (number | boolean | string | Date | null)[] = new Array(rowCount)
+  let lost = 0
+  const convert = (fn: (value: ReturnType<typeof cellValue>) => number | boolean | string | Date | null) => {
+    for (let row = 0; row < rowCount; row++) {
+      const value = cellValue(column, row)
+      raw[row] = value === null ? null : fn(value)
+      if (value !== null && raw[row] === null) lost++
+    }
+  }
+
+  switch (to) {
+    case 'number':
+      if (column.kind === 'number') return { column, lost: 0 }
+      convert(value => {
+        if (typeof value === 'number') return value
+        if (typeof value === 'boolean') return value ? 1 : 0
+        if (value instanceof Date) return value.getTime()
+        // Thousands separators are dropped: "1,250.5" reads as 1250.5
+        const text = value.trim().replace(/,(?=\d{3}(\D|$))/g, '')
+        return NUMBER_PATTERN.test(text) ? Number(text) : null
+      })
+      break
+    case 'date': {
+      if (column.kind === 'date') return { column, lost: 0 }
+      const parsed = parseDateColumn(column)
+      if (parsed) return { column: parsed, lost: 0 }
+      convert(value => {
+        if (value instanceof Date) return value
+        if (typeof value !== 'string') return null
+        const time = Date.parse(value)
+        return Number.isNaN(time) ? null : new Date(time)
+      })
+      break
+    }
+    case 'boolean':
+      if (column.kind === 'boolean') return { column, lost: 0 }
+      convert(value => {
+        const word = String(value).trim().toLowerCase()
+        return TRUE_WORDS.has(word) ? true : FALSE_WORDS.has(word) ? false : null
+      })
+      break
+    case 'text':
+      if (column.kind === 'category' || column.kind === 'text') return { column, lost: 0 }
+      for (let row = 0; row < rowCount; row++) raw[row] = textAt(column, row)
+      break
+  }
+  const rebuilt = buildColumn(column.name, raw)
+  return { column: rebuilt, lost }
+}
+
+const titleCase = (text: string) => text.toLowerCase().replace(/(^|[\s\-'])(\p{L})/gu, (_, before: string, letter: string) => before + letter.toUpperCase())
+
+function normalizeText(text: string, trim: boolean, textCase: TextCase): string {
+  const trimmed = trim ? text.trim().replace(/\s+/g, ' ') : text
+  switch (textCase) {
+    case 'lower': return trimmed.toLowerCase()
+    case 'upper': return trimmed.toUpperCase()
+    case 'title': return titleCase(trimmed)
+    case 'none': return trimmed
+  }
+}
+
+function applyStep(dataset: Dataset, step: PipelineStep): { dataset: Dataset; message?: string } {
+  switch (step.kind) {
+    case 'filter': {
+      const keep = compileFormula(step.expression, dataset)
+      const rows: number[] = []
+      for (let row = 0; row < dataset.rowCount; row++) {
+        const value = keep(row)
+        if (value !== null && value !== false && value !== 0 && value !== '') rows.push(row)
+      }
+      return { dataset: dataset.take(rows), message: `${(dataset.rowCount - rows.length).toLocaleString()} rows removed` }
+    }
+    case 'rename': {
+      const column = requireColumn(dataset, step.column)
+      const to = step.to.trim()
+      if (!to) throw new Error('The new name is empty')
+      if (to !== step.column && dataset.column(to)) throw new Error(`Column "${to}" already exists`)
+      return { dataset: replaceColumns(dataset, new Map([[step.column, { ...column, name: to }]])) }
+    }
+    case 'cast': {
+      const { column, lost } = castColumn(requireColumn(dataset, step.column), dataset.rowCount, step.to)
+      return {
+        dataset: replaceColumns(dataset, new Map([[step.column, column]])),
+        message: lost > 0 ? `${lost.toLocaleString()} values could not be converted and are now missing` : undefined
+      }
+    }
+    case 'impute': {
+      Object.keys(step.plan).forEach(name => requireColumn(dataset, name))
+      const { dataset: imputed, filled, droppedRows } = imputeDataset(dataset, step.plan, step.timeColumn)
+      return { dataset: imputed, message: `${filled.toLocaleString()} cells filled, ${droppedRows.toLocaleString()} rows dropped` }
+    }
+    case 'dedupe': {
+      step.match.keys.forEach(name => requireColumn(dataset, name))
+      const { dataset: deduplicated, removedRows } = deduplicate(dataset, findDuplicates(dataset, step.match), step.strategy)
+      return { dataset: deduplicated, message: `${removedRows.toLocaleString()} rows removed` }
+    }
+    case 'derive':
+      return { dataset: withCalculatedColumn(dataset, { name: step.name, expression: step.expression }) }
+    case 'drop': {
+      step.columns.forEach(name => requireColumn(dataset, name))
+      const dropped = new Set(step.columns)
+      return { dataset: new Dataset({ rowCount: dataset.rowCount, columns: dataset.columns.filter(column => !dropped.has(column.name)) }) }
+    }
+    case 'split': {
+      const column = requireColumn(dataset, step.column)
+      if (!step.separator) throw new Error('The separator is empty')
+      const taken = step.into.find(name => name !== step.column && dataset.column(name))
+      if (taken) throw new Error(`Column "${taken}" already exists`)
+      const parts: (string | null)[][] = step.into.map(() => new Array(dataset.rowCount).fill(null))
+      for (let row = 0; row < dataset.rowCount; row++) {
+        const text = textAt(column, row)
+        if (text === null) continue
+        const pieces = text.split(step.separator)
+        step.into.forEach((_, index) => {
+          const piece = index === step.into.length - 1 ? pieces.slice(index).join(step.separator) : pieces[index]
+          parts[index][row] = piece === undefined || piece.trim() === '' ? null : piece.trim()
+        })
+      }
+      const built = step.into.map((name, index) => inferColumn(name, parts[index]))
+      const replaced = built.find(part => part.name === step.column)
+      return {
+        dataset: replaceColumns(
+          dataset,
+          new Map(replaced ? [[step.column, replaced]] : []),
+          built.filter(part => part.name !== step.column)
+        )
+      }
+    }
+    case 'normalize': {
+      const column = requireColumn(dataset, step.column)
+      if (column.kind !== 'category' && column.kind !== 'text') throw new Error(`${step.column} is not a text column`)
+      const normalize = (text: string) => normalizeText(text, step.trim, step.case)
+      const raw = column.kind === 'category'
+        ? Array.from(column.codes, code => code === -1 ? null : column.dictionary[code])
+        : column.values
+      const updated = buildColumn(column.name, raw.map(value => value === null ? null : normalize(value)))
+      return { dataset: replaceColumns(dataset, new Map([[step.column, updated]])) }
+    }
+  }
+}
+
+// Runs the enabled steps in order. A step that fails (e.g. its column was
+// dropped earlier) is reported and skipped, so one broken step does not lose the rest.
+export function runPipeline(source: Dataset, steps: PipelineStep[]): PipelineRun {
+  let dataset = source
+  const results = steps.map((step): StepResult => {
+    if (!step.enabled) return { id: step.id, status: 'skipped', rowCount: dataset.rowCount }
+    try {
+      const applied = applyStep(dataset, step)
+      dataset = applied.dataset
+      return { id: step.id, status: 'ok', rowCount: dataset.rowCount, message: applied.message }
+    } catch (error) {
+      return { id: step.id, status: 'error', rowCount: dataset.rowCount, message: error instanceof Error ? error.message : String(error) }
+    }
+  })
+  return { dataset, results }
+}
+
+// Profiles the pipeline output. Columns the steps left untouched keep their profile,
+// type overrides carry over by name and calculated columns remember their formula.
+export function profileOutput(output: Dataset, previous: Dataset, previousColumns: ColumnInfo[], steps: PipelineStep[]): ColumnInfo[] {
+  const infos = new Map(previousColumns.map(info => [info.name, info]))
+  const formulas = new Map(
+    steps.flatMap(step => step.enabled && step.kind === 'derive' ? [[step.name, step.expression] as const] : [])
+  )
+  return output.columns.map(column => {
+    const info = infos.get(column.name)
+    if (info && previous.column(column.name) === column && output.rowCount === previous.rowCount) return info
+    const override = info?.overridden ? { type: info.type, semanticType: info.semanticType } : undefined
+    return { ...analyzeColumn(column, output.rowCount, override), sourcePath: info?.sourcePath, formula: formulas.get(column.name) }
+  })
+}
+
+// --- Recipes -----------------------------------------------------------------
+
+export function createRecipe(columns: string[], steps: PipelineStep[]): PipelineRecipe {
+  return { schema: RECIPE_SCHEMA, version: RECIPE_VERSION, columns, steps }
+}
+
+// Own keys only, so names such as "toString" or "constructor" are not taken for options
+const isOption = (labels: Record<string, string>, value: unknown): boolean =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(labels, value)
+
+const isText = (value: unknown): value is string => typeof value === 'string'
+
+const isTextList = (value: unknown): value is string[] => Array.isArray(value) && value.every(isText)
+
+// Whether a value read from a file or from storage has every field its kind needs;
+// `id` and `enabled` are not checked, callers assign them afresh
+export function isPipelineStep(value: unknown): value is PipelineStep {
+  if (!value || typeof value !== 'object') return false
+  const step = value as Record<string, unknown>
+  if (!isOption(STEP_KIND_LABELS, step.kind)) return false
+  switch (step.kind as StepKind) {
+    case 'filter':
+      return isText(step.expression)
+    case 'rename':
+      return isText(step.column) && isText(step.to)
+    case 'cast':
+      return isText(step.column) && isOption(CAST_TYPE_LABELS, step.to)
+    case 'impute': {
+      const plan = step.plan as Record<string, { method?: unknown; value?: unknown }>
+      return !!plan && typeof plan === 'object' && !Array.isArray(plan) &&
+        Object.values(plan).every(strategy => !!strategy && isOption(IMPUTE_METHOD_LABELS, strategy.method) &&
+          (strategy.value === undefined || isText(strategy.value))) &&
+        (step.timeColumn === undefined || isText(step.timeColumn))
+    }
+    case 'dedupe': {
+      const match = step.match as Partial<Record<keyof MatchOptions, unknown>>
+      return !!match && isOption(MATCH_METHOD_LABELS, match.method) && isTextList(match.keys) &&
+        typeof match.threshold === 'number' && isOption(MERGE_STRATEGY_LABELS, step.strategy)
+    }
+    case 'derive':
+      return isText(step.name) && isText(step.expression)
+    case 'drop':
+      return isTextList(step.columns)
+    case 'split':
+      return isText(step.column) && isText(step.separator) && isTextList(step.into)
+    case 'normalize':
+      return isText(step.column) && typeof step.trim === 'boolean' && isOption(TEXT_CASE_LABELS, step.case)
+  }
+}
+
+// Reads a downloaded recipe; steps get fresh ids so they never clash with existing ones
+export function parseRecipe(text: string): PipelineRecipe {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch {
+    throw new Error('The file is not valid JSON')
+  }
+  const recipe = parsed as Partial<PipelineRecipe>
+  if (recipe?.schema !== RECIPE_SCHEMA) throw new Error('The file is not a transformation recipe')
+  if (recipe.version !== RECIPE_VERSION) throw new Error(`Recipe version ${recipe.version} is not supported`)
+  if (!Array.isArray(recipe.steps) || !recipe.steps.every(isPipelineStep)) {
+    throw new Error('The recipe contains unknown or incomplete steps')
+  }
+  return {
+    ...recipe as PipelineRecipe,
+    columns: Array.isArray(recipe.columns) ? recipe.columns : [],
+    steps: recipe.steps.map(step => ({ ...step, id: createStepId(), enabled: step.enabled !== false }))
+  }
+}
@@ -0,0 +1,165 @@
+import { Dataset } from "@/lib/dataset"
+import { ColumnInfo } from "@/lib/profiling"
+import { ChartConfig } from "@/lib/auto-charts"
+import { KeyValue, Measure, aggregate, measureLabel } from "@/lib/aggregation"
+
+// Pivot tables: rows and columns are grouped by the values of the chosen fields
+// and each cell aggregates the measures over the rows in that group. Row groups
+// with several fields get subtotals, and there are grand totals both ways. The
+// grouping itself is done by the aggregation engine.
+
+export interface PivotSpec {
+  rows: string[]
+  columns: string[]
+  values: Measure[]
+}
+
+export interface PivotRow {
+  // Group labels from the outermost field in; shorter for subtotals, empty for the grand total
+  labels: string[]
+  kind: 'leaf' | 'subtotal' | 'total'
+  // One value per measure for each column group, then per measure for the row's total
+  cells: (number | null)[]
+}
+
+export interface PivotTable {
+  spec: PivotSpec
+  // Labels of each column group, in display order
+  columnKeys: string[][]
+  rows: PivotRow[]
+  // Smallest and largest leaf value per measure, for conditional formatting
+  ranges: { min: number; max: number }[]
+  // Groups beyond the display limits were left out
+  truncatedRows: boolean
+  truncatedColumns: boolean
+}
+
+const MAX_ROW_GROUPS = 2000
+const MAX_COLUMN_GROUPS = 50
+const MAX_CHART_BARS = 50
+const SEPARATOR = '\u0000'
+const NULL_TOKEN = '\u0001'
+
+// A row or column group: its raw keys as text, for lookups, and its display labels
+interface Branch {
+  tokens: string[]
+  labels: string[]
+}
+
+const keyToken = (key: KeyValue) => key === null ? NULL_TOKEN : String(key)
+const keysToken = (keys: KeyValue[]) => keys.map(keyToken).join(SEPARATOR)
+
+export function buildPivot(dataset: Dataset, columns: ColumnInfo[], spec: PivotSpec): PivotTable {
+  const rowFields = spec.rows.filter(name => dataset.column(name))
+  const columnFields = spec.columns.filter(name => dataset.column(name))
+  const measureCount = spec.values.length
+  const groupBy = (names: string[]) => names.map(column => ({ column }))
+
+  // One aggregation per depth of row fields, each split by the column fields and
+  // once more across all columns for the row totals. Cells are looked up by the
+  // raw group keys: display labels can coincide, e.g. timestamps within a minute.
+  const cells = new Map<string, (number | null)[]>()
+  let leaves: Branch[] = []
+  const columnGroups: Branch[] = []
+  for (let depth = 0; depth <= rowFields.length; depth++) {
+    const prefix = rowFields.slice(0, depth)
+    const totals = aggregate(dataset, columns, { groupBy: groupBy(prefix), measures: spec.values })
+    for (const group of totals.groups) cells.set(`${depth}:${keysToken(group.keys)}`, group.values)
+    if (depth === rowFields.length) leaves = totals.groups.map(group => ({ tokens: group.keys.map(keyToken), labels: group.labels }))
+    if (columnFields.length === 0) continue
+    const split = aggregate(dataset, columns, { groupBy: groupBy([...prefix, ...columnFields]), measures: spec.values })
+    for (const group of split.groups) {
+      const columnToken = keysToken(group.keys.slice(depth))
+      cells.set(`${depth}:${keysToken(group.keys.slice(0, depth))}=${columnToken}`, group.values)
+      if (depth === 0) columnGroups.push({ tokens: [columnToken], labels: group.labels })
+    }
+  }
+
+  const shownColumns = columnGroups.slice(0, MAX_COLUMN_GROUPS)
+  // '' is the row total, last; without column fields it is the only group
+  const columnKeys = [...shownColumns.map(group => `=${group.tokens[0]}`), '']
+  const ranges = spec.values.map(() => ({ min: Infinity, max: -Infinity }))
+
+  const rowFor = (branch: Branch, kind: PivotRow['kind']): PivotRow => {
+    const rowKey = `${branch.tokens.length}:${branch.tokens.join(SEPARATOR)}`
+    const row: (number | null)[] = []
+    columnKeys.forEach((key, index) => {
+      const values = cells.get(rowKey + key)
+      for (let m = 0; m < measureCount; m++) {
+        const value = values?.[m] ?? null
+        row.push(value)
+        // Totals would flatten the colour scale, so only leaf cells set the range
+        const isTotalColumn = columnFields.length > 0 && index === columnKeys.length - 1
+        if (kind === 'leaf' && !isTotalColumn && value !== null) {
+          ranges[m].min = Math.min(ranges[m].min, value)
+          ranges[m].max = Math.max(ranges[m].max, value)
+        }
+      }
+    })
+    return { labels: branch.labels, kind, cells: row }
+  }
+
+  const shownLeaves = leaves.slice(0, MAX_ROW_GROUPS)
+  const rows: PivotRow[] = []
+  // Leaves grouped by their outer keys, each group followed by its subtotal
+  const emit = (group: Branch[], depth: number) => {
+    if (depth === rowFields.length - 1) {
+      group.forEach(leaf => rows.push(rowFor(leaf, 'leaf')))
+      return
+    }
+    let start = 0
+    while (start < group.length) {
+      let end = start
+      while (end < group.length && group[end].tokens[depth] === group[start].tokens[depth]) end++
+      emit(group.slice(start, end), depth + 1)
+      const { tokens, labels } = group[start]
+      rows.push(rowFor({ tokens: tokens.slice(0, depth + 1), labels: labels.slice(0, depth + 1) }, 'subtotal'))
+      start = end
+    }
+  }
+  if (rowFields.length > 0) emit(shownLeaves, 0)
+  rows.push(rowFor({ tokens: [], labels: [] }, 'total'))
+
+  return {
+    spec: { ...spec, rows: rowFields, columns: columnFields },
+    columnKeys: shownColumns.map(group => group.labels),
+    rows,
+    ranges: ranges.map(range => range.min === Infinity ? { min: 0, max: 0 } : range),
+    truncatedRows: leaves.length > shownLeaves.length,
+    truncatedColumns: columnGroups.length > shownColumns.length
+  }
+}
+
+// Bars per leaf row: one series per column group of the first measure, or one per
+// measure when there are no column fields
+export function pivotChart(table: PivotTable, stacked: boolean): ChartConfig | null {
+  const { spec } = table
+  if (spec.values.length === 0) return null
+  const leaves = table.rows.filter(row => row.kind === 'leaf').slice(0, MAX_CHART_BARS)
+  const xKey = spec.rows.length > 0 ? spec.rows.join(' / ') : 'Total'
+  const measureCount = spec.values.length
+  const series = table.columnKeys.length > 0
+    ? table.columnKeys.map(labels => labels.join(' / '))
+    : spec.values.map(measureLabel)
+  const source = leaves.length > 0 ? leaves : table.rows.filter(row => row.kind === 'total')
+  const data = source.map(row => {
+    const point: Record<string, string | number | null> = { [xKey]: row.labels.length > 0 ? row.labels.join(' / ') : 'Total' }
+    series.forEach((name, index) => {
+      point[name] = table.columnKeys.length > 0 ? row.cells[index * measureCount] : row.cells[index]
+    })
+    return point
+  })
+  const measure = table.columnKeys.length > 0 ? measureLabel(spec.values[0]) : spec.values.map(measureLabel).join(', ')
+  return {
+    id: `pivot-${Date.now()}`,
+    type: 'bar',
+    title: 'Pivot Chart',
+    description: `${measure} by ${xKey}${spec.columns.length > 0 ? ` and ${spec.columns.join(' / ')}` : ''}`,
+    data,
+    xKey,
+    yKey: series[0],
+    series,
+    stacked,
+    labelColumns: { x: spec.rows, series: table.columnKeys.length > 0 ? spec.columns : undefined }
+  }
+}
@@ -0,0 +1,322 @@
+import { ColumnInfo } from "@/lib/profiling"
+import { HistogramBin, NumericStats, ValueCount } from "@/lib/statistics"
+import { TextProfile } from "@/lib/text-profile"
+import { CORRELATION_LABELS, Correlation, CorrelationSet } from "@/lib/correlation"
+import { ValidationReport, describeRule } from "@/lib/quality-rules"
+import { OUTLIER_METHOD_LABELS, OutlierMethod, OutlierReport } from "@/lib/outliers"
+import { PII_POLICY_LABELS, PiiPolicies, PiiPolicy, redactValue } from "@/lib/pii"
+import { DateFormat, Frequency, formatDateLabel } from "@/lib/date-parsing"
+
+// Exportable profile: a JSON document with a fixed, versioned schema that
+// pipelines can store and diff, and a standalone HTML page rendered from it.
+// Columns under a personal data policy keep their counts, but their values
+// only appear as the policy allows, like everything else that leaves the browser.
+
+export const PROFILE_SCHEMA = 'insightbrew-profile'
+// Bumped whenever a field is renamed, removed or changes meaning; new optional fields do not bump it
+export const PROFILE_SCHEMA_VERSION = 1
+
+export interface ColumnReport {
+  name: string
+  type: ColumnInfo['type']
+  semanticType: string | null
+  // Kind of personal data detected, and the policy applied to it in this report
+  pii: string | null
+  policy: PiiPolicy
+  nullCount: number
+  // nullCount / rowCount
+  nullRate: number
+  uniqueCount: number
+  // 0 to 100; from the quality rules on the column when there are any, completeness otherwise
+  quality: number
+  dateFormat: DateFormat | null
+  frequency: Frequency | null
+  // Numerical columns that are sent as is
+  stats: Partial<NumericStats> | null
+  histogram: HistogramBin[] | null
+  // Values are hashed or masked by the policy, and left out when it drops them
+  topValues: ValueCount[] | null
+  text: TextProfile | null
+}
+
+export interface RuleReport {
+  id: string
+  kind: string
+  column: string
+  description: string
+  checked: number
+  failed: number
+  error: string | null
+}
+
+export interface ProfileDocument {
+  schema: typeof PROFILE_SCHEMA
+  version: typeof PROFILE_SCHEMA_VERSION
+  // ISO timestamp
+  generatedAt: string
+  dataset: {
+    name: string
+    rowCount: number
+    columnCount: number
+  }
+  quality: {
+    score: number
+    basis: 'rules' | 'completeness'
+    rules: RuleReport[]
+    duplicateRows: number | null
+    outliers: {
+      method: OutlierMethod
+      flaggedRows: number
+      columns: { name: string; lower: number; upper: number; count: number }[]
+    } | null
+  }
+  columns: ColumnReport[]
+  // Every computed pair, Pearson and Spearman for numerical columns and Cramér's V for categorical ones
+  correlations: Correlation[]
+}
+
+export interface ProfileReportInput {
+  name: string
+  rowCount: number
+  columns: ColumnInfo[]
+  correlations?: CorrelationSet
+  validation?: ValidationReport
+  duplicateRows?: number
+  outliers?: OutlierReport | null
+  privacy?: PiiPolicies
+}
+
+function columnReport(info: ColumnInfo, rowCount: number, quality: number, policy: PiiPolicy): ColumnReport {
+  const protectedColumn = policy !== 'send'
+  const topValues = !info.topValues || policy === 'drop'
+    ? null
+    : info.topValues.map(entry => ({ value: redactValue(entry.value, policy) ?? '', count: entry.count }))
+  return {
+    name: info.name,
+    type: info.type,
+    semanticType: info.semanticType ?? null,
+    pii: info.pii ?? null,
+    policy,
+    nullCount: info.nullCount,
+    nullRate: rowCount > 0 ? info.nullCount / rowCount : 0,
+    uniqueCount: info.uniqueCount,
+    quality,
+    dateFormat: info.dateFormat ?? null,
+    frequency: info.frequency ?? null,
+    // Extremes and words are values too
+    stats: protectedColumn || !info.stats || Object.keys(info.stats).length === 0 ? null : info.stats,
+    histogram: protectedColumn ? null : info.histogram ?? null,
+    topValues,
+    text: protectedColumn ? null : info.text ?? null
+  }
+}
+
+export function buildProfileDocument(input: ProfileReportInput): ProfileDocument {
+  const { validation, outliers, privacy = {} } = input
+  const hasRules = validation !== undefined && validation.results.length > 0
+  const quality = (info: ColumnInfo) => hasRules ? validation.columnScores[info.name] ?? info.quality : info.quality
+  const columns = input.columns.map(info => columnReport(info, input.rowCount, quality(info), privacy[info.name] ?? 'send'))
+  const completeness = columns.length > 0 ? Math.round(columns.reduce((sum, column) => sum + column.quality, 0) / columns.length) : 100
+
+  return {
+    schema: PROFILE_SCHEMA,
+    version: PROFILE_SCHEMA_VERSION,
+    generatedAt: new Date().toISOString(),
+    dataset: { name: input.name, rowCount: input.rowCount, columnCount: columns.length },
+    quality: {
+      score: hasRules ? validation.score : completeness,
+      basis: hasRules ? 'rules' : 'completeness',
+      rules: (validation?.results ?? []).map(result => ({
+        id: result.rule.id,
+        kind: result.rule.kind,
+        column: result.rule.column,
+        description: describeRule(result.rule),
+        checked: result.checked,
+        failed: result.failed,
+        error: result.error ?? null
+      })),
+      duplicateRows: input.duplicateRows ?? null,
+      outliers: outliers ? {
+        method: outliers.method,
+        flaggedRows: outliers.rows.length,
+        columns: outliers.columns.map(column => ({ name: column.name, lower: column.lower, upper: column.upper, count: column.rows.length }))
+      } : null
+    },
+    columns,
+    correlations: input.correlations ? Object.values(input.correlations).flatMap(matrix => matrix.pairs) : []
+  }
+}
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+
+function formatNumber(value: number): string {
+  if (Number.isInteger(value)) return value.toLocaleString()
+  return Math.abs(value) >= 1000 ? value.toLocaleString(undefined, { maximumFractionDigits: 1 }) : value.toPrecision(4)
+}
+
+const STAT_LABELS: [keyof NumericStats, string][] = [
+  ['mean', 'Mean'], ['std', 'Std dev'], ['min', 'Min'], ['q1', 'Q1'], ['median', 'Median'],
+  ['q3', 'Q3'], ['max', 'Max'], ['p5', 'P5'], ['p95', 'P95'], ['skewness', 'Skewness'], ['kurtosis', 'Kurtosis']
+]
+
+function histogramSvg(bins: HistogramBin[], temporal: boolean, frequency: Frequency | null): string {
+  const width = 280
+  const height = 80
+  const max = Math.max(...bins.map(bin => bin.count), 1)
+  const barWidth = width / bins.length
+  const label = (value: number) => temporal ? formatDateLabel(value, frequency ?? undefined) : formatNumber(value)
+  const bars = bins.map((bin, i) => {
+    const barHeight = (bin.count / max) * height
+    return `<rect x="${(i * barWidth).toFixed(1)}" y="${(height - barHeight).toFixed(1)}" width="${Math.max(barWidth - 1, 1).toFixed(1)}" height="${barHeight.toFixed(1)}"><title>${escapeHtml(`${label(bin.start)} – ${label(bin.end)}: ${bin.count}`)}</title></rect>`
+  }).join('')
+  return `<svg class="hist" viewBox="0 0 ${width} ${height}" width="${width}" height="${height}">${bars}</svg>`
+}
+
+function topValuesHtml(values: ValueCount[]): string {
+  const max = Math.max(...values.map(entry => entry.count), 1)
+  return `<div class="bars">${values.map(entry => `
+    <div class="bar-row"><span class="bar-label" title="${escapeHtml(entry.value)}">${escapeHtml(entry.value)}</span>
+    <span class="bar"><span style="width:${((entry.count / max) * 100).toFixed(1)}%"></span></span>
+    <span class="bar-count">${entry.count.toLocaleString()}</span></div>`).join('')}</div>`
+}
+
+function columnCard(column: ColumnReport): string {
+  const badges = [
+    `<span class="badge">${column.type}</span>`,
+    column.semanticType ? `<span class="badge muted">${escapeHtml(column.semanticType)}</span>` : '',
+    column.pii ? `<span class="badge danger">${escapeHtml(column.pii)} · ${PII_POLICY_LABELS[column.policy].toLowerCase()}</span>` : ''
+  ].join('')
+  const stats = column.stats
+    ? `<table class="stats">${STAT_LABELS.filter(([key]) => column.stats?.[key] !== undefined)
+      .map(([key, label]) => `<tr><td>${label}</td><td>${formatNumber(column.stats?.[key] ?? 0)}</td></tr>`).join('')}</table>`
+    : ''
+  const shape = column.histogram
+    ? histogramSvg(column.histogram, column.type === 'temporal', column.frequency)
+    : column.topValues ? topValuesHtml(column.topValues) : ''
+  const text = column.text
+    ? `<p class="muted">${column.text.length.min}–${column.text.length.max} characters, ${column.text.length.mean.toFixed(1)} on average.
+       Most common shape: <code>${escapeHtml(column.text.patterns[0]?.shape ?? '')}</code>
+       (${Math.round((column.text.patterns[0]?.share ?? 0) * 100)}%).
+       Top words: ${column.text.topTokens.slice(0, 8).map(token => escapeHtml(token.value)).join(', ')}.</p>`
+    : ''
+  return `<div class="card">
+    <h3>${escapeHtml(column.name)} ${badges}</h3>
+    <p class="muted">${column.uniqueCount.toLocaleString()} unique · ${column.nullCount.toLocaleString()} empty (${(column.nullRate * 100).toFixed(1)}%) · quality ${column.quality}%</p>
+    ${shape}${stats}${text}
+  </div>`
+}
+
+function qualityHtml(document: ProfileDocument): string {
+  const { quality } = document
+  const findings: string[] = []
+  if (quality.duplicateRows !== null) findings.push(`<li>${quality.duplicateRows.toLocaleString()} exact duplicate rows</li>`)
+  if (quality.outliers) {
+    findings.push(`<li>${quality.outliers.flaggedRows.toLocaleString()} outlier rows (${OUTLIER_METHOD_LABELS[quality.outliers.method]})${quality.outliers.columns
+      .filter(column => column.count > 0)
+      .map(column => `: ${escapeHtml(column.name)} ${column.count} outside ${formatNumber(column.lower)} – ${formatNumber(column.upper)}`)
+      .join(',')}</li>`)
+  }
+  const incomplete = document.columns.filter(column => column.nullCount > 0)
+  if (incomplete.length > 0) {
+    findings.push(`<li>Empty cells in ${incomplete.map(column => `${escapeHtml(column.name)} (${(column.nullRate * 100).toFixed(1)}%)`).join(', ')}</li>`)
+  }
+  const rules = quality.rules.length === 0 ? '' : `
+    <table class="grid"><thead><tr><th>Rule</th><th>Checked</th><th>Failed</th><th>Result</th></tr></thead><tbody>
+    ${quality.rules.map(rule => `<tr><td><code>${escapeHtml(rule.description)}</code></td><td>${rule.checked.toLocaleString()}</td>
+      <td>${rule.failed.toLocaleString()}</td>
+      <td class="${rule.error ? 'muted' : rule.failed === 0 ? 'pass' : 'fail'}">${rule.error ? escapeHtml(rule.error) : rule.failed === 0 ? 'Pass' : 'Fail'}</td></tr>`).join('')}
+    </tbody></table>`
+  return `<section><h2>Quality</h2>
+    <p>Score <strong>${quality.score}%</strong>, based on ${quality.basis === 'rules' ? `${quality.rules.length} quality rules` : 'completeness'}.</p>
+    ${findings.length > 0 ? `<ul>${findings.join('')}</ul>` : '<p class="muted">No findings.</p>'}
+    ${rules}
+  </section>`
+}
+
+// Blue for positive, red for negative, like the heatmap in the app
+function cellColor(value: number): string {
+  const alpha = Math.min(Math.abs(value), 1).toFixed(2)
+  return value >= 0 ? `rgba(37,99,235,${alpha})` : `rgba(239,68,68,${alpha})`
+}
+
+function correlationsHtml(document: ProfileDocument): string {
+  if (document.correlations.length === 0) return ''
+  const pearson = document.correlations.filter(pair => pair.method === 'pearson')
+  const names = [...new Set(pearson.flatMap(pair => [pair.x, pair.y]))]
+  const lookup = new Map(pearson.map(pair => [`${pair.x}\u0000${pair.y}`, pair.value]))
+  const value = (x: string, y: string) => x === y ? 1 : lookup.get(`${x}\u0000${y}`) ?? lookup.get(`${y}\u0000${x}`)
+  const matrix = names.length < 2 ? '' : `
+    <h3>Pearson matrix</h3>
+    <table class="heatmap"><thead><tr><th></th>${names.map(name => `<th>${escapeHtml(name)}</th>`).join('')}</tr></thead><tbody>
+    ${names.map(y => `<tr><th>${escapeHtml(y)}</th>${names.map(x => {
+      const v = value(x, y)
+      return v === undefined ? '<td></td>' : `<td style="background:${cellColor(v)}">${v.toFixed(2)}</td>`
+    }).join('')}</tr>`).join('')}
+    </tbody></table>`
+  const strongest = [...document.correlations].sort((a, b) => Math.abs(b.value) - Math.abs(a.value)).slice(0, 10)
+  return `<section><h2>Correlations</h2>
+    <table class="grid"><thead><tr><th>Pair</th><th>Method</th><th>Value</th><th>Rows</th></tr></thead><tbody>
+    ${strongest.map(pair => `<tr><td>${escapeHtml(pair.x)} ↔ ${escapeHtml(pair.y)}</td><td>${CORRELATION_LABELS[pair.method]}</td>
+      <td>${pair.value.toFixed(3)}</td><td>${pair.n.toLocaleString()}</td></tr>`).join('')}
+    </tbody></table>
+    ${matrix}
+  </section>`
+}
+
+const STYLES = `
+  body { font-family: system-ui, -apple-system, sans-serif; color: #0f172a; margin: 0; background: #f8fafc; }
+  main { max-width: 1100px; margin: 0 auto; padding: 32px 24px; }
+  h1 { margin: 0 0 4px; } h2 { margin-top: 32px; border-bottom: 1px solid #e2e8f0; padding-bottom: 4px; }
+  h3 { font-size: 15px; margin: 0 0 4px; display: flex; flex-wrap: wrap; gap: 6px; align-items: center; }
+  .muted { color: #64748b; font-size: 13px; }
+  .overview { display: grid; grid-template-columns: repeat(4, 1fr); gap: 12px; margin-top: 16px; }
+  .overview div, .card { background: #fff; border: 1px solid #e2e8f0; border-radius: 8px; padding: 12px 16px; }
+  .overview strong { display: block; font-size: 22px; color: #2563eb; }
+  .cards { display: grid; grid-template-columns: repeat(auto-fill, minmax(320px, 1fr)); gap: 12px; }
+  .badge { font-size: 11px; font-weight: 500; border: 1px solid #2563eb; color: #2563eb; border-radius: 999px; padding: 1px 8px; }
+  .badge.muted { border-color: #94a3b8; color: #475569; } .badge.danger { border-color: #ef4444; color: #ef4444; }
+  .hist rect { fill: #3b82f6; }
+  .bars { font-size: 12px; } .bar-row { display: flex; align-items: center; gap: 6px; margin: 2px 0; }
+  .bar-label { width: 110px; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+  .bar { flex: 1; background: #f1f5f9; height: 8px; border-radius: 4px; } .bar span { display: block; height: 100%; background: #10b981; border-radius: 4px; }
+  .bar-count { width: 56px; text-align: right; color: #64748b; }
+  table { border-collapse: collapse; font-size: 12px; } .stats { margin-top: 8px; width: 100%; }
+  .stats td { padding: 1px 4px; } .stats td:last-child { text-align: right; font-family: ui-monospace, monospace; }
+  .grid { width: 100%; background: #fff; } .grid th, .grid td { border: 1px solid #e2e8f0; padding: 4px 8px; text-align: left; }
+  .heatmap td, .heatmap th { border: 1px solid #e2e8f0; padding: 4px 6px; text-align: center; }
+  .pass { color: #16a34a; font-weight: 600; } .fail { color: #ef4444; font-weight: 600; }
+`
+
+// A single file with inline styles and SVG, viewable offline and safe to mail around
+export function renderProfileHtml(document: ProfileDocument): string {
+  const { dataset, quality } = document
+  const title = `Data profile: ${dataset.name}`
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<main>
+  <h1>${escapeHtml(title)}</h1>
+  <p class="muted">Generated ${escapeHtml(new Date(document.generatedAt).toLocaleString())}</p>
+  <div class="overview">
+    <div>Rows<strong>${dataset.rowCount.toLocaleString()}</strong></div>
+    <div>Columns<strong>${dataset.columnCount}</strong></div>
+    <div>Quality<strong>${quality.score}%</strong></div>
+    <div>Duplicate rows<strong>${quality.duplicateRows === null ? '—' : quality.duplicateRows.toLocaleString()}</strong></div>
+  </div>
+  ${qualityHtml(document)}
+  <section><h2>Columns</h2><div class="cards">${document.columns.map(columnCard).join('')}</div></section>
+  ${correlationsHtml(document)}
+</main>
+</body>
+</html>`
+}
@@ -0,0 +1,160 @@
+import { DatasetColumn, cellValue, isNullAt, presentNumbers } from "@/lib/dataset"
+import { SEMANTIC_TYPES, SemanticType, detectSemanticType, semanticNumber } from "@/lib/semantic-types"
+import { DateFormat, Frequency, detectFrequency } from "@/lib/date-parsing"
+import { HistogramBin, NumericStats, ValueCount, describe, histogram, topValues } from "@/lib/statistics"
+import { PiiKind, detectPii } from "@/lib/pii"
+import { TextProfile, profileText } from "@/lib/text-profile"
+
+// Column profiling shared by the main thread and the import worker. Works on
+// the columnar dataset so no row objects are created.
+
+export type ColumnType = 'numerical' | 'categorical' | 'temporal' | 'text'
+
+export interface ColumnInfo {
+  name: string
+  type: ColumnType
+  semanticType?: SemanticType
+  // Set when the values look like personal data that should not leave the browser as is
+  pii?: PiiKind
+  // Set when the type was chosen by the user rather than inferred
+  overridden?: boolean
+  nullCount: number
+  uniqueCount: number
+  quality: number
+  // How a temporal column was parsed and how often its values occur
+  dateFormat?: DateFormat
+  frequency?: Frequency
+  // JSON path the column was flattened from, e.g. "$[*].customer.address.city"
+  sourcePath?: string
+  // Expression a calculated column is computed from
+  formula?: string
+  // Empty unless the column is numerical
+  stats?: Partial<NumericStats>
+  // Shape of the column: a histogram for numbers and dates, the most common values otherwise
+  histogram?: HistogramBin[]
+  topValues?: ValueCount[]
+  // Lengths, frequent words and value shapes, for text columns
+  text?: TextProfile
+}
+
+// A user's correction of an inferred type; the semantic type, when given, implies the base type
+export interface ColumnOverride {
+  type: ColumnType
+  semanticType?: SemanticType
+}
+
+// Distinct values handed to semantic type detection
+const SEMANTIC_SAMPLE_SIZE = 1000
+const TOP_VALUES = 10
+
+function distinctStrings(column: DatasetColumn): string[] {
+  if (column.kind === 'category') return column.dictionary
+  if (column.kind === 'text') return [...new Set(column.values.filter((v): v is string => v !== null))]
+  return []
+}
+
+function distinctValues(column: DatasetColumn): (string | number | boolean)[] {
+  if (column.kind === 'number' || column.kind === 'date') return [...new Set(presentNumbers(column))]
+  if (column.kind === 'boolean') return [...new Set(Array.from(column.values).filter(v => v !== -1).map(v => v === 1))]
+  return distinctStrings(column)
+}
+
+// Numeric reading of every present cell, skipping cells that have none
+function numericValues(column: DatasetColumn, rowCount: number, semanticType?: SemanticType): Float64Array {
+  if (column.kind === 'number' || column.kind === 'date') return presentNumbers(column)
+  const values: number[] = []
+  for (let i = 0; i < rowCount; i++) {
+    const value = cellValue(column, i)
+    if (value === null) continue
+    const number = typeof value === 'string' ? semanticNumber(value, semanticType) : Number(value)
+    if (!Number.isNaN(number)) values.push(number)
+  }
+  return Float64Array.from(values)
+}
+
+function valueCounts(column: DatasetColumn, rowCount: number): Map<string, number> {
+  const counts = new Map<string, number>()
+  if (column.kind === 'category') {
+    const byCode = new Int32Array(column.dictionary.length)
+    for (const code of column.codes) if (code !== -1) byCode[code]++
+    column.dictionary.forEach((value, code) => counts.set(value, byCode[code]))
+    return counts
+  }
+  for (let i = 0; i < rowCount; i++) {
+    const value = cellValue(column, i)
+    if (value === null) continue
+    const key = value instanceof Date ? value.toISOString() : String(value)
+    counts.set(key, (counts.get(key) ?? 0) + 1)
+  }
+  return counts
+}
+
+function inferType(column: DatasetColumn, distinct: (string | number | boolean)[], rowCount: number): ColumnType {
+  if (column.kind === 'number') return 'numerical'
+  if (column.kind === 'date') return 'temporal'
+  if (column.kind === 'boolean') return 'categorical'
+  const strings = distinct as string[]
+  // Numeric text that was kept as strings, e.g. from a JSON dump
+  if (strings.length > 0 && strings.every(v => !isNaN(Number(v)))) return 'numerical'
+  // Text that holds dates was already converted at import; what is left is not temporal
+  if (strings.length <= Math.max(10, rowCount * 0.1)) return 'categorical'
+  return 'text'
+}
+
+export function analyzeColumn(column: DatasetColumn, rowCount: number, override?: ColumnOverride): ColumnInfo {
+  let nullCount = 0
+  for (let i = 0; i < rowCount; i++) if (isNullAt(column, i)) nullCount++
+  const present = rowCount - nullCount
+
+  const distinct = distinctValues(column)
+  const uniqueCount = distinct.length
+
+  let type: ColumnType
+  let semanticType: SemanticType | undefined
+  if (override) {
+    semanticType = override.semanticType
+    type = semanticType ? SEMANTIC_TYPES[semanticType].baseType : override.type
+  } else if (column.kind !== 'date') {
+    semanticType = detectSemanticType({
+      name: column.name,
+      values: distinct.slice(0, SEMANTIC_SAMPLE_SIZE),
+      uniqueCount,
+      present
+    })
+    type = semanticType ? SEMANTIC_TYPES[semanticType].baseType : inferType(column, distinct, rowCount)
+  } else {
+    type = 'temporal'
+  }
+
+  // Numbers and dates are described by their distribution, everything else by its most common values
+  let stats: ColumnInfo['stats'] = {}
+  let shape: Pick<ColumnInfo, 'histogram' | 'topValues'>
+  if (type === 'numerical' || column.kind === 'date') {
+    const sorted = numericValues(column, rowCount, semanticType).sort()
+    if (type === 'numerical') stats = describe(sorted) ?? {}
+    shape = { histogram: histogram(sorted) }
+  } else {
+    shape = { topValues: topValues(valueCounts(column, rowCount), TOP_VALUES) }
+  }
+  const temporal = column.kind === 'date'
+    ? { dateFormat: column.format, frequency: detectFrequency(presentNumbers(column)) }
+    : {}
+  const quality = rowCount > 0 ? Math.round((present / rowCount) * 100) : 0
+  const pii = detectPii(column.name, distinct.slice(0, SEMANTIC_SAMPLE_SIZE))
+  const text = type === 'text' ? profileText(column, rowCount) : undefined
+
+  return {
+    name: column.name,
+    type,
+    semanticType,
+    pii,
+    overridden: override ? true : undefined,
+    nullCount,
+    uniqueCount,
+    quality,
+    ...temporal,
+    stats,
+    ...shape,
+    text
+  }
+}
@@ -0,0 +1,222 @@
+import { Dataset, DatasetColumn, cellValue, isNullAt } from "@/lib/dataset"
+
+// User-defined validation rules. A rule checks one column (optionally against
+// another column or another dataset) and reports the rows that break it; the
+// overall score is the average pass rate of the rules, so a dataset is judged
+// on whether its values are valid rather than on how many cells are filled.
+
+export type CompareOperator = '<' | '<=' | '=' | '!=' | '>=' | '>'
+
+export type QualityRule = { id: string; column: string } & (
+  | { kind: 'not-null' }
+  | { kind: 'unique' }
+  | { kind: 'range'; min?: number; max?: number }
+  | { kind: 'pattern'; pattern: string }
+  | { kind: 'allowed-values'; values: string[] }
+  // Row-wise comparison with another column, e.g. end_date >= start_date
+  | { kind: 'compare'; operator: CompareOperator; otherColumn: string }
+  // Every value must occur in a column of another workspace dataset
+  | { kind: 'reference'; table: string; referenceColumn: string }
+)
+
+export type RuleKind = QualityRule['kind']
+
+export interface RuleResult {
+  rule: QualityRule
+  // Rows the rule applied to; empty cells only count for not-null
+  checked: number
+  failed: number
+  // First offending rows, ascending
+  failingRows: number[]
+  // Set when the rule could not run, e.g. a missing column or an invalid pattern
+  error?: string
+}
+
+export interface ValidationReport {
+  results: RuleResult[]
+  // Average pass rate of the rules that ran, 0 to 100
+  score: number
+  // Same, per column that has rules
+  columnScores: Record<string, number>
+  // Rows that break at least one rule
+  failingRows: number
+}
+
+export const RULE_KIND_LABELS: Record<RuleKind, string> = {
+  'not-null': 'Not empty',
+  unique: 'Unique',
+  range: 'Within range',
+  pattern: 'Matches pattern',
+  'allowed-values': 'One of',
+  compare: 'Compared to column',
+  reference: 'Exists in dataset'
+}
+
+export const COMPARE_OPERATORS: CompareOperator[] = ['<', '<=', '=', '!=', '>=', '>']
+
+const MAX_FAILING_ROWS = 100
+
+let nextRuleId = 1
+
+export function createRuleId(): string {
+  return `rule-${Date.now()}-${nextRuleId++}`
+}
+
+// Rules are kept per schema, so a fresh upload of the same export is checked with the same rules
+export function schemaKey(columnNames: string[]): string {
+  return [...columnNames].sort().join('\u0000')
+}
+
+export function describeRule(rule: QualityRule): string {
+  switch (rule.kind) {
+    case 'not-null':
+      return `${rule.column} is not empty`
+    case 'unique':
+      return `${rule.column} is unique`
+    case 'range':
+      if (rule.min !== undefined && rule.max !== undefined) return `${rule.column} between ${rule.min} and ${rule.max}`
+      return rule.min !== undefined ? `${rule.column} ≥ ${rule.min}` : `${rule.column} ≤ ${rule.max}`
+    case 'pattern':
+      return `${rule.column} matches /${rule.pattern}/`
+    case 'allowed-values':
+      return `${rule.column} in {${rule.values.join(', ')}}`
+    case 'compare':
+      return `${rule.column} ${rule.operator} ${rule.otherColumn}`
+    case 'reference':
+      return `${rule.column} exists in ${rule.table}.${rule.referenceColumn}`
+  }
+}
+
+// Comparable form of a cell: numbers and dates as numbers, everything else as text
+function comparable(column: DatasetColumn, row: number): number | string | null {
+  const value = cellValue(column, row)
+  if (value === null) return null
+  if (value instanceof Date) return value.getTime()
+  if (typeof value === 'number') return value
+  if (typeof value === 'boolean') return value ? 1 : 0
+  const number = Number(value)
+  return value.trim() !== '' && Number.isFinite(number) ? number : value
+}
+
+function compare(left: number | string, right: number | string, operator: CompareOperator): boolean {
+  const order = typeof left === 'number' && typeof right === 'number'
+    ? left - right
+    : String(left).localeCompare(String(right))
+  switch (operator) {
+    case '<': return order < 0
+    case '<=': return order <= 0
+    case '=': return order === 0
+    case '!=': return order !== 0
+    case '>=': return order >= 0
+    case '>': return order > 0
+  }
+}
+
+function textOf(column: DatasetColumn, row: number): string {
+  const value = cellValue(column, row)
+  return value instanceof Date ? value.toISOString() : String(value)
+}
+
+// A predicate that says whether a present value passes, or an error message
+function rowCheck(rule: QualityRule, dataset: Dataset, column: DatasetColumn, references: Record<string, Dataset>): ((row: number) => boolean) | string {
+  switch (rule.kind) {
+    case 'not-null':
+      return () => true
+    case 'unique': {
+      const counts = new Map<string, number>()
+      for (let i = 0; i < dataset.rowCount; i++) {
+        if (isNullAt(column, i)) continue
+        const key = textOf(column, i)
+        counts.set(key, (counts.get(key) ?? 0) + 1)
+      }
+      return row => counts.get(textOf(column, row)) === 1
+    }
+    case 'range':
+      return row => {
+        const value = comparable(column, row)
+        if (typeof value !== 'number') return false
+        return (rule.min === undefined || value >= rule.min) && (rule.max === undefined || value <= rule.max)
+      }
+    case 'pattern': {
+      let pattern: RegExp
+      try {
+        pattern = new RegExp(rule.pattern)
+      } catch {
+        return `Invalid pattern /${rule.pattern}/`
+      }
+      return row => pattern.test(textOf(column, row))
+    }
+    case 'allowed-values': {
+      const allowed = new Set(rule.values)
+      return row => allowed.has(textOf(column, row))
+    }
+    case 'compare': {
+      const other = dataset.column(rule.otherColumn)
+      if (!other) return `Column "${rule.otherColumn}" does not exist`
+      return row => {
+        const right = comparable(other, row)
+        // Nothing to compare against; not-null rules catch the gap if it matters
+        const left = comparable(column, row)
+        return right === null || left === null || compare(left, right, rule.operator)
+      }
+    }
+    case 'reference': {
+      const table = references[rule.table]
+      const target = table?.column(rule.referenceColumn)
+      if (!table || !target) return `Column "${rule.referenceColumn}" of dataset "${rule.table}" is not in the workspace`
+      const known = new Set<string>()
+      for (let i = 0; i < table.rowCount; i++) if (!isNullAt(target, i)) known.add(textOf(target, i))
+      return row => known.has(textOf(column, row))
+    }
+  }
+}
+
+interface Evaluation {
+  checked: number
+  rows: number[]
+  error?: string
+}
+
+// Every row that breaks the rule
+function evaluate(rule: QualityRule, dataset: Dataset, references: Record<string, Dataset>): Evaluation {
+  const column = dataset.column(rule.column)
+  if (!column) return { checked: 0, rows: [], error: `Column "${rule.column}" does not exist` }
+  const check = rowCheck(rule, dataset, column, references)
+  if (typeof check === 'string') return { checked: 0, rows: [], error: check }
+
+  let checked = 0
+  const rows: number[] = []
+  for (let row = 0; row < dataset.rowCount; row++) {
+    const missing = isNullAt(column, row)
+    if (missing && rule.kind !== 'not-null') continue
+    checked++
+    if (missing || !check(row)) rows.push(row)
+  }
+  return { checked, rows }
+}
+
+const toResult = (rule: QualityRule, { checked, rows, error }: Evaluation): RuleResult =>
+  ({ rule, checked, failed: rows.length, failingRows: rows.slice(0, MAX_FAILING_ROWS), error })
+
+export function validateDataset(dataset: Dataset, rules: QualityRule[], references: Record<string, Dataset> = {}): ValidationReport {
+  const evaluations = rules.map(rule => evaluate(rule, dataset, references))
+  const results = rules.map((rule, i) => toResult(rule, evaluations[i]))
+  const passRate = (result: RuleResult) => result.checked > 0 ? (result.checked - result.failed) / result.checked : 1
+  const scored = results.filter(result => !result.error)
+  const average = (list: RuleResult[]) => Math.round((list.reduce((sum, result) => sum + passRate(result), 0) / list.length) * 100)
+
+  const columnScores: Record<string, number> = {}
+  for (const name of new Set(scored.map(result => result.rule.column))) {
+    columnScores[name] = average(scored.filter(result => result.rule.column === name))
+  }
+
+  const failing = new Set<number>()
+  for (const evaluation of evaluations) evaluation.rows.forEach(row => failing.add(row))
+
+  return {
+    results,
+    score: scored.length > 0 ? average(scored) : 100,
+    columnScores,
+    failingRows: failing.size
+  }
+}
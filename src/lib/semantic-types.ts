@@ -0,0 +1,117 @@
+import type { ColumnType } from "@/lib/profiling"
+
+// Semantic types refine the four profiling types with what a column means.
+// Each maps onto a base type, which decides how it is profiled and charted:
+// IDs are text (never averaged), zip codes are categories (never on a y-axis).
+
+export type SemanticType =
+  | 'id'
+  | 'currency'
+  | 'percentage'
+  | 'boolean'
+  | 'zip'
+  | 'email'
+  | 'url'
+  | 'latitude'
+  | 'longitude'
+  | 'duration'
+
+export const SEMANTIC_TYPES: Record<SemanticType, { label: string; baseType: ColumnType }> = {
+  id: { label: 'ID', baseType: 'text' },
+  currency: { label: 'Currency', baseType: 'numerical' },
+  percentage: { label: 'Percentage', baseType: 'numerical' },
+  boolean: { label: 'Boolean', baseType: 'categorical' },
+  zip: { label: 'Zip code', baseType: 'categorical' },
+  email: { label: 'Email', baseType: 'text' },
+  url: { label: 'URL', baseType: 'text' },
+  latitude: { label: 'Latitude', baseType: 'numerical' },
+  longitude: { label: 'Longitude', baseType: 'numerical' },
+  duration: { label: 'Duration', baseType: 'numerical' }
+}
+
+// Share of sampled values that must match a pattern for the type to apply
+const MATCH_SHARE = 0.9
+
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const URL_PATTERN = /^(https?:\/\/|www\.)\S+$/i
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const PERCENT = /^[-+]?\d+(?:[.,]\d+)?\s?%$/
+const CURRENCY = /^[-+]?(?:[$€£¥₹]\s?[-+]?[\d,.]*\d|[\d,.]*\d\s?[$€£¥₹]|[A-Z]{3}\s[-+]?[\d,.]*\d)$/
+const CLOCK_DURATION = /^\d+:[0-5]\d(?::[0-5]\d)?(?:\.\d+)?$/
+const ISO_DURATION = /^P(?=\d|T\d)(?:\d+(?:\.\d+)?[YMWD])*(?:T(?:\d+(?:\.\d+)?[HMS])+)?$/
+const ZIP = /^\d{5}(?:-\d{4})?$/
+const BOOLEAN_WORDS = new Set(['true', 'false', 'yes', 'no', 'y', 'n', 't', 'f'])
+
+const ID_NAME = /(^id$|[_\s-]id$|^id[_\s-]|[a-z]Id$|uuid|guid)/i
+const ZIP_NAME = /(zip|postal|post_?code)/i
+const LATITUDE_NAME = /^(lat|latitude)$|[_\s-](lat|latitude)$|latitude/i
+const LONGITUDE_NAME = /^(lon|lng|long|longitude)$|[_\s-](lon|lng|long|longitude)$|longitude/i
+const PERCENT_NAME = /(percent|pct|ratio|share|rate)$/i
+const CURRENCY_NAME = /(price|revenue|cost|salary|amount|profit|income|spend|usd|eur|gbp)/i
+const DURATION_NAME = /(duration|elapsed|runtime)/i
+const BOOLEAN_NAME = /^(is|has|can|should)[_A-Z]/
+
+export interface SemanticSample {
+  name: string
+  // A sample of distinct non-missing values as stored: numbers for numeric columns, strings otherwise
+  values: (string | number | boolean)[]
+  uniqueCount: number
+  // Number of non-missing cells, to judge uniqueness
+  present: number
+}
+
+const share = (values: string[], pattern: RegExp) =>
+  values.length > 0 && values.filter(value => pattern.test(value.trim())).length / values.length >= MATCH_SHARE
+
+export function detectSemanticType({ name, values, uniqueCount, present }: SemanticSample): SemanticType | undefined {
+  if (values.length === 0) return undefined
+  const strings = values.filter((value): value is string => typeof value === 'string')
+  const numbers = values.filter((value): value is number => typeof value === 'number')
+  const allNumbers = numbers.length === values.length
+
+  if (values.every(value => typeof value === 'boolean')) return 'boolean'
+  if (strings.length === values.length) {
+    if (values.length <= 2 && strings.every(value => BOOLEAN_WORDS.has(value.trim().toLowerCase()))) return 'boolean'
+    if (share(strings, EMAIL)) return 'email'
+    if (share(strings, URL_PATTERN)) return 'url'
+    if (share(strings, UUID)) return 'id'
+    if (share(strings, PERCENT)) return 'percentage'
+    if (share(strings, CURRENCY)) return 'currency'
+    if (share(strings, CLOCK_DURATION) || share(strings, ISO_DURATION)) return 'duration'
+    if (ZIP_NAME.test(name) && share(strings, ZIP)) return 'zip'
+  }
+
+  if (allNumbers) {
+    const integers = numbers.every(Number.isInteger)
+    if (BOOLEAN_NAME.test(name) && numbers.every(value => value === 0 || value === 1)) return 'boolean'
+    if (ZIP_NAME.test(name) && integers && numbers.every(value => value >= 0 && value < 100000)) return 'zip'
+    if (LATITUDE_NAME.test(name) && numbers.every(value => Math.abs(value) <= 90)) return 'latitude'
+    if (LONGITUDE_NAME.test(name) && numbers.every(value => Math.abs(value) <= 180)) return 'longitude'
+    if (PERCENT_NAME.test(name)) return 'percentage'
+    if (CURRENCY_NAME.test(name)) return 'currency'
+    if (DURATION_NAME.test(name)) return 'duration'
+  }
+
+  // Identifiers are named like one and (nearly) unique per row
+  if (ID_NAME.test(name) && uniqueCount >= present * MATCH_SHARE) return 'id'
+  return undefined
+}
+
+function durationSeconds(text: string): number {
+  if (CLOCK_DURATION.test(text)) {
+    return text.split(':').reduce((total, part) => total * 60 + Number(part), 0)
+  }
+  const match = /^P(?:(\d+(?:\.\d+)?)Y)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)W)?(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/.exec(text)
+  if (!match) return NaN
+  const [, years, months, weeks, days, hours, minutes, seconds] = match.map(part => Number(part ?? 0))
+  return ((((years * 365 + months * 30 + weeks * 7 + days) * 24 + hours) * 60 + minutes) * 60) + seconds
+}
+
+// Numeric value of a formatted cell ("$1,200.50", "45%", "1:30:00"), NaN when it has none.
+// Percentages stay in percentage points and durations are converted to seconds.
+export function semanticNumber(value: string, semanticType?: SemanticType): number {
+  const text = value.trim()
+  if (semanticType === 'duration') return durationSeconds(text)
+  const cleaned = text.replace(/[$€£¥₹%\s]|^[A-Z]{3}/g, '').replace(/,/g, '')
+  return cleaned === '' ? NaN : Number(cleaned)
+}
@@ -0,0 +1,123 @@
+import alasql from "alasql"
+import { Dataset, DataRow } from "@/lib/dataset"
+
+// In-browser SQL over workspace datasets, backed by alasql. Each dataset is
+// registered as a table whose rows are the dataset's lazy row view, so nothing
+// is copied until a query actually touches it.
+
+export const DEFAULT_TABLE = 'data'
+
+export interface SqlResult {
+  columns: string[]
+  rows: DataRow[]
+  elapsedMs: number
+}
+
+type StatementClass = new (...args: never[]) => unknown
+type TableMap = Record<string, { data: unknown[] }>
+
+// Result columns are taken from the first rows; alasql omits keys for
+// expressions that never produced a value, so a few rows are merged
+const COLUMN_SCAN_ROWS = 100
+
+export function quoteIdentifier(name: string): string {
+  return `[${name.replace(/]/g, ']]')}]`
+}
+
+function isReadOnly(statement: unknown): boolean {
+  const yy = alasql.yy as Record<string, StatementClass>
+  return statement instanceof yy.Select || statement instanceof yy.WithSelect
+}
+
+interface SelectNode {
+  into?: unknown
+  from?: unknown[]
+  joins?: { table?: unknown; select?: unknown }[]
+}
+
+// A SELECT can still write (SELECT INTO), read files and URLs (FROM JSON('…'), CSV(),
+// XLSX() or a quoted file name) and run JavaScript (``…``). Walks the whole parse tree,
+// subqueries included, and only lets through reads of the registered tables and of
+// the names a WITH clause defines.
+function checkSources(statement: unknown, tables: string[]): void {
+  const yy = alasql.yy as Record<string, StatementClass>
+  const named = new Set(tables)
+  const seen = new Set<unknown>()
+  const nodes: unknown[] = [statement]
+  const selects: SelectNode[] = []
+  while (nodes.length > 0) {
+    const node = nodes.pop()
+    if (node === null || typeof node !== 'object' || seen.has(node)) continue
+    seen.add(node)
+    if (node instanceof yy.JavaScript) throw new Error('JavaScript expressions are not allowed in queries')
+    if (node instanceof yy.Select) selects.push(node as SelectNode)
+    if (node instanceof yy.WithSelect) {
+      for (const { name } of (node as { withs?: { name: string }[] }).withs ?? []) named.add(name)
+    }
+    nodes.push(...Object.values(node))
+  }
+
+  const readable = (source: unknown) => source instanceof yy.Select ||
+    (source instanceof yy.Table && !(source as { databaseid?: string }).databaseid && named.has((source as { tableid: string }).tableid))
+  for (const select of selects) {
+    if (select.into) throw new Error('SELECT INTO is not allowed: workspace tables are read-only')
+    const sources = [...(select.from ?? []), ...(select.joins ?? []).map(join => join.table ?? join.select)]
+    if (!sources.every(readable)) throw new Error('Queries can only read workspace tables')
+  }
+}
+
+// alasql throws plain strings for some runtime errors (e.g. unknown tables)
+function toError(error: unknown): Error {
+  return error instanceof Error ? error : new Error(String(error))
+}
+
+function resultColumns(rows: DataRow[]): string[] {
+  const columns = new Set<string>()
+  for (const row of rows.slice(0, COLUMN_SCAN_ROWS)) {
+    for (const key of Object.keys(row)) columns.add(key)
+  }
+  return [...columns]
+}
+
+export class SqlEngine {
+  private readonly db = new alasql.Database()
+
+  register(name: string, dataset: Dataset): void {
+    const tables = this.db.tables as TableMap
+    if (!tables[name]) this.db.exec(`CREATE TABLE ${quoteIdentifier(name)}`)
+    tables[name].data = dataset.rows()
+  }
+
+  get tableNames(): string[] {
+    return Object.keys(this.db.tables)
+  }
+
+  // Only SELECT statements over the workspace tables are allowed: tables are views
+  // over immutable datasets, and nothing is read from or written to files or the network
+  query(sql: string): SqlResult {
+    const started = performance.now()
+    let output: unknown
+    try {
+      const { statements } = alasql.parse(sql)
+      if (statements.length === 0 || !statements.every(isReadOnly)) {
+        throw new Error('Only SELECT queries are supported')
+      }
+      statements.forEach(statement => checkSources(statement, this.tableNames))
+      output = this.db.exec<unknown>(sql)
+      // Several statements return one result each; show the last one
+      if (statements.length > 1 && Array.isArray(output)) output = output[output.length - 1]
+    } catch (error) {
+      throw toError(error)
+    }
+
+    const rows = Array.isArray(output) ? (output as DataRow[]) : [{ value: output }]
+    return { columns: resultColumns(rows), rows, elapsedMs: performance.now() - started }
+  }
+}
+
+// Registers each dataset under its table name
+export function createSqlEngine(tables: Record<string, Dataset>): SqlEngine {
+  const engine = new SqlEngine()
+  for (const [name, dataset] of Object.entries(tables)) engine.register(name, dataset)
+  return engine
+}
@@ -0,0 +1,132 @@
+// Descriptive statistics for numeric columns. Moments, sum and sign counts come
+// from one pass over the values; quantiles and histograms share one sort.
+
+export interface NumericStats {
+  count: number
+  sum: number
+  mean: number
+  // Sample standard deviation (n - 1)
+  std: number
+  min: number
+  max: number
+  median: number
+  q1: number
+  q3: number
+  iqr: number
+  p1: number
+  p5: number
+  p95: number
+  p99: number
+  skewness: number
+  // Excess kurtosis: 0 for a normal distribution
+  kurtosis: number
+  zeros: number
+  negatives: number
+}
+
+export interface HistogramBin {
+  start: number
+  end: number
+  count: number
+}
+
+export interface ValueCount {
+  value: string
+  count: number
+}
+
+const DEFAULT_BINS = 20
+
+// Linearly interpolated quantile of sorted values (the "R-7" definition used by numpy and pandas)
+export function quantile(sorted: ArrayLike<number>, p: number): number {
+  if (sorted.length === 0) return NaN
+  const position = (sorted.length - 1) * p
+  const lower = Math.floor(position)
+  const upper = Math.ceil(position)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower)
+}
+
+// `sorted` must be in ascending order; the moments are accumulated with the
+// online update of Welford and Terriberry, which stays accurate for large values
+export function describe(sorted: Float64Array): NumericStats | null {
+  const count = sorted.length
+  if (count === 0) return null
+
+  let n = 0
+  let mean = 0
+  let m2 = 0
+  let m3 = 0
+  let m4 = 0
+  let sum = 0
+  let zeros = 0
+  let negatives = 0
+  for (let i = 0; i < count; i++) {
+    const x = sorted[i]
+    const previous = n++
+    const delta = x - mean
+    const deltaN = delta / n
+    const deltaN2 = deltaN * deltaN
+    const term = delta * deltaN * previous
+    mean += deltaN
+    m4 += term * deltaN2 * (n * n - 3 * n + 3) + 6 * deltaN2 * m2 - 4 * deltaN * m3
+    m3 += term * deltaN * (n - 2) - 3 * deltaN * m2
+    m2 += term
+    sum += x
+    if (x === 0) zeros++
+    else if (x < 0) negatives++
+  }
+
+  const q1 = quantile(sorted, 0.25)
+  const q3 = quantile(sorted, 0.75)
+  return {
+    count,
+    sum,
+    mean,
+    std: count > 1 ? Math.sqrt(m2 / (count - 1)) : 0,
+    min: sorted[0],
+    max: sorted[count - 1],
+    median: quantile(sorted, 0.5),
+    q1,
+    q3,
+    iqr: q3 - q1,
+    p1: quantile(sorted, 0.01),
+    p5: quantile(sorted, 0.05),
+    p95: quantile(sorted, 0.95),
+    p99: quantile(sorted, 0.99),
+    skewness: m2 > 0 ? Math.sqrt(count) * m3 / Math.pow(m2, 1.5) : 0,
+    kurtosis: m2 > 0 ? count * m4 / (m2 * m2) - 3 : 0,
+    zeros,
+    negatives
+  }
+}
+
+// Equal-width bins between the smallest and largest value. Integers spanning
+// fewer values than `bins` get one bin per value instead of gappy fractional bins.
+export function histogram(sorted: Float64Array, bins = DEFAULT_BINS): HistogramBin[] {
+  if (sorted.length === 0) return []
+  const min = sorted[0]
+  const max = sorted[sorted.length - 1]
+  if (min === max) return [{ start: min, end: max, count: sorted.length }]
+
+  const perValue = Number.isInteger(min) && Number.isInteger(max) && max - min < bins &&
+    sorted.every(Number.isInteger)
+  if (perValue) bins = max - min + 1
+  const width = perValue ? 1 : (max - min) / bins
+  const result = Array.from({ length: bins }, (_, i) => ({
+    start: min + i * width,
+    end: i === bins - 1 && !perValue ? max : min + (i + 1) * width,
+    count: 0
+  }))
+  for (let i = 0; i < sorted.length; i++) {
+    result[Math.min(bins - 1, Math.floor((sorted[i] - min) / width))].count++
+  }
+  return result
+}
+
+// Most frequent values, most common first
+export function topValues(counts: Map<string, number>, limit: number): ValueCount[] {
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([value, count]) => ({ value, count }))
+}
@@ -0,0 +1,165 @@
+import { DatasetColumn, cellValue } from "@/lib/dataset"
+import { ValueCount, quantile, topValues } from "@/lib/statistics"
+
+// Profiling for free-text columns: how long the values are, which words and
+// word pairs recur, which character-class shapes the values follow, and a
+// lexicon-based sentiment score. Runs in the import worker with the rest of
+// the profile, so it only produces plain data.
+
+export interface LengthStats {
+  min: number
+  max: number
+  mean: number
+  median: number
+}
+
+export interface PatternShare {
+  // Character classes of a value: "A" upper case, "a" lower case, "9" digit, other characters kept
+  shape: string
+  count: number
+  // Fraction of the present values with this shape
+  share: number
+}
+
+export interface SentimentSummary {
+  // Average score, from -1 (negative) to 1 (positive)
+  mean: number
+  positive: number
+  negative: number
+  neutral: number
+}
+
+export interface TextProfile {
+  // Characters per value
+  length: LengthStats
+  // Words per value, on average
+  meanWords: number
+  topTokens: ValueCount[]
+  topBigrams: ValueCount[]
+  patterns: PatternShare[]
+  sentiment: SentimentSummary
+}
+
+const TOP_TOKENS = 15
+const TOP_PATTERNS = 8
+// Values longer than this are shaped by runs ("Aa+ a+") instead of character by character
+const EXACT_SHAPE_LENGTH = 24
+
+const STOPWORDS = new Set((
+  'a an and are as at be been but by can could did do does for from had has have he her his how i if in into is it its ' +
+  'me my no not of on or our she so than that the their them then there these they this to too us was we were what when ' +
+  'which who will with would you your just also very about more all any some only out up'
+).split(' '))
+
+// A small AFINN-style lexicon: word -> score from -3 to 3
+const LEXICON: Record<string, number> = {
+  amazing: 3, awesome: 3, excellent: 3, fantastic: 3, love: 3, perfect: 3, outstanding: 3,
+  great: 2, good: 2, happy: 2, helpful: 2, like: 1, nice: 2, pleased: 2, recommend: 2, satisfied: 2, thanks: 2, thank: 2,
+  easy: 1, fast: 1, fine: 1, quick: 1, resolved: 2, works: 1, friendly: 2, clear: 1, better: 1, best: 3,
+  bad: -2, poor: -2, slow: -1, broken: -2, bug: -1, error: -1, fail: -2, failed: -2, failure: -2, issue: -1, problem: -1,
+  angry: -3, awful: -3, terrible: -3, horrible: -3, hate: -3, worst: -3, useless: -3, disappointed: -2, disappointing: -2,
+  annoying: -2, confusing: -2, difficult: -1, frustrated: -2, frustrating: -2, unhappy: -2, wrong: -2, crash: -2, crashes: -2,
+  refund: -1, complaint: -2, late: -1, missing: -1, worse: -2
+}
+const NEGATIONS = new Set(['not', 'no', 'never', "don't", "doesn't", "didn't", "isn't", "wasn't", "can't", 'cannot'])
+
+// Lower-case words, apostrophes kept so "don't" stays one token
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? []
+}
+
+function classOf(char: string): string {
+  if (/\p{Lu}/u.test(char)) return 'A'
+  if (/\p{Ll}/u.test(char)) return 'a'
+  if (/\p{N}/u.test(char)) return '9'
+  return char
+}
+
+// "AB-1234" -> "AA-9999"; long values collapse runs: "Hello world" -> "Aa+ a+"
+export function patternShape(value: string): string {
+  const classes = [...value].map(classOf)
+  if (classes.length <= EXACT_SHAPE_LENGTH) return classes.join('')
+  let shape = ''
+  for (let i = 0; i < classes.length; i++) {
+    const current = classes[i]
+    if (current === classes[i - 1] && /[Aa9]/.test(current)) {
+      if (!shape.endsWith('+')) shape += '+'
+      continue
+    }
+    shape += current
+  }
+  return shape
+}
+
+// Sum of word scores, flipped after a negation and squashed into -1 to 1
+export function sentimentScore(tokens: string[]): number {
+  let total = 0
+  for (let i = 0; i < tokens.length; i++) {
+    // Own keys only: "constructor" and friends are words, not scores
+    if (!Object.prototype.hasOwnProperty.call(LEXICON, tokens[i])) continue
+    const score = LEXICON[tokens[i]]
+    total += NEGATIONS.has(tokens[i - 1]) ? -score : score
+  }
+  return total === 0 ? 0 : total / Math.sqrt(total * total + 15)
+}
+
+export function profileText(column: DatasetColumn, rowCount: number): TextProfile | undefined {
+  const lengths: number[] = []
+  const tokens = new Map<string, number>()
+  const bigrams = new Map<string, number>()
+  const shapes = new Map<string, number>()
+  let words = 0
+  let sentimentTotal = 0
+  const sentiment = { positive: 0, negative: 0, neutral: 0 }
+
+  for (let i = 0; i < rowCount; i++) {
+    const value = cellValue(column, i)
+    if (value === null) continue
+    const text = value instanceof Date ? value.toISOString() : String(value)
+    lengths.push(text.length)
+    const shape = patternShape(text)
+    shapes.set(shape, (shapes.get(shape) ?? 0) + 1)
+
+    const valueTokens = tokenize(text)
+    words += valueTokens.length
+    // Stopwords are left out of the counts and break bigrams, so "the" never pairs up
+    let previous: string | null = null
+    for (const token of valueTokens) {
+      if (STOPWORDS.has(token)) {
+        previous = null
+        continue
+      }
+      tokens.set(token, (tokens.get(token) ?? 0) + 1)
+      if (previous) {
+        const pair = `${previous} ${token}`
+        bigrams.set(pair, (bigrams.get(pair) ?? 0) + 1)
+      }
+      previous = token
+    }
+
+    const score = sentimentScore(valueTokens)
+    sentimentTotal += score
+    if (score > 0.05) sentiment.positive++
+    else if (score < -0.05) sentiment.negative++
+    else sentiment.neutral++
+  }
+
+  const present = lengths.length
+  if (present === 0) return undefined
+  const sorted = Float64Array.from(lengths).sort()
+
+  return {
+    length: {
+      min: sorted[0],
+      max: sorted[present - 1],
+      mean: sorted.reduce((sum, length) => sum + length, 0) / present,
+      median: quantile(sorted, 0.5)
+    },
+    meanWords: words / present,
+    topTokens: topValues(tokens, TOP_TOKENS),
+    // A pair seen once says nothing about the column
+    topBigrams: topValues(bigrams, TOP_TOKENS).filter(entry => entry.count > 1),
+    patterns: topValues(shapes, TOP_PATTERNS).map(({ value, count }) => ({ shape: value, count, share: count / present })),
+    sentiment: { mean: sentimentTotal / present, ...sentiment }
+  }
+}
@@ -0,0 +1,59 @@
+import { Dataset } from "@/lib/dataset"
+import { ColumnInfo } from "@/lib/profiling"
+import { PipelineHistory, StepResult } from "@/lib/pipeline"
+import { DEFAULT_TABLE } from "@/lib/sql-engine"
+
+// A workspace holds every dataset opened in the session: uploaded files and
+// datasets derived from them (e.g. joins). Each one is also a SQL table.
+
+export interface WorkspaceDataset {
+  id: string
+  // Display name, unique within the workspace
+  name: string
+  // Identifier the dataset is registered under in the SQL engine
+  tableName: string
+  dataset: Dataset
+  columns: ColumnInfo[]
+  // Names of the datasets this one was built from, for derived datasets
+  derivedFrom?: string[]
+  // Set once the dataset has transformation steps: `dataset` is then the result
+  // of running the current steps on `source`, the data as it was uploaded
+  pipeline?: {
+    source: Dataset
+    history: PipelineHistory
+    results: StepResult[]
+  }
+}
+
+let nextId = 1
+
+function uniqueName(base: string, taken: Set<string>): string {
+  let name = base
+  for (let n = 2; taken.has(name); n++) name = `${base}_${n}`
+  return name
+}
+
+// "Orders 2024.csv" -> "orders_2024"
+export function toTableName(name: string): string {
+  const stem = name.replace(/\.[^.]+$/, '')
+  const identifier = stem.toLowerCase().replace(/[^a-z0-9_]+/g, '_').replace(/^_+|_+$/g, '')
+  return /^[a-z_]/.test(identifier) ? identifier : `t_${identifier}`
+}
+
+export function createWorkspaceDataset(
+  workspace: WorkspaceDataset[],
+  name: string,
+  dataset: Dataset,
+  columns: ColumnInfo[],
+  derivedFrom?: string[]
+): WorkspaceDataset {
+  return {
+    id: `dataset-${nextId++}`,
+    name: uniqueName(name, new Set(workspace.map(entry => entry.name))),
+    // DEFAULT_TABLE always refers to the active dataset, so it is never handed out
+    tableName: uniqueName(toTableName(name), new Set([DEFAULT_TABLE, ...workspace.map(entry => entry.tableName)])),
+    dataset,
+    columns,
+    derivedFrom
+  }
+}
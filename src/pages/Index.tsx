@@ -1,4 +1,4 @@
-import { useState, useCallback } from "react"
+import { useState, useMemo, useEffect } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
@@ -7,8 +7,59 @@ import { FileUpload } from "@/components/ui/file-upload"
 import { DataProfile } from "@/components/data-profile"
 import { AutoDashboard } from "@/components/auto-dashboard"
 import { ChatInterface } from "@/components/chat-interface"
-
-import { Brain, Upload, BarChart3, MessageCircle, TrendingUp, Sparkles, Zap, X } from "lucide-react"
+import { ImportPreviewDialog } from "@/components/import-preview-dialog"
+import { WorkbookImportDialog } from "@/components/workbook-import-dialog"
+import { JsonImportDialog } from "@/components/json-import-dialog"
+import { SqlQueryPanel } from "@/components/sql-query-panel"
+import { WorkspacePanel } from "@/components/workspace-panel"
+import { MissingValuesPanel } from "@/components/missing-values-panel"
+import { OutlierPanel } from "@/components/outlier-panel"
+import { DuplicatesPanel } from "@/components/duplicates-panel"
+import { QualityRulesEditor } from "@/components/quality-rules-editor"
+import { PrivacyPanel } from "@/components/privacy-panel"
+import { ProfileComparison } from "@/components/profile-comparison"
+import { DataGrid } from "@/components/data-grid"
+import { CalculatedColumnsPanel } from "@/components/calculated-columns-panel"
+import { PipelinePanel } from "@/components/pipeline-panel"
+import { PivotBuilder } from "@/components/pivot-builder"
+import { Progress } from "@/components/ui/progress"
+import { CsvImportOptions } from "@/lib/import/csv-sniffer"
+import { WorkbookImportOptions, isWorkbookFile } from "@/lib/import/xlsx-reader"
+import { ArrayMode, isJsonFile } from "@/lib/import/json-reader"
+import { ImportRequest } from "@/lib/import/import-job"
+import { ColumnInfo, ColumnOverride, analyzeColumn } from "@/lib/profiling"
+import { Dataset } from "@/lib/dataset"
+import { ChartConfig, correlationChart } from "@/lib/auto-charts"
+import { Correlation } from "@/lib/correlation"
+import { DEFAULT_TABLE, createSqlEngine } from "@/lib/sql-engine"
+import { JoinSpec, joinDatasets } from "@/lib/join"
+import { WorkspaceDataset, createWorkspaceDataset } from "@/lib/workspace"
+import { DEFAULT_NULL_TOKENS, applyNullTokens } from "@/lib/missing-values"
+import { ImputationPlan, imputeDataset } from "@/lib/imputation"
+import { OutlierMethod } from "@/lib/outliers"
+import { DuplicateCluster, MergeStrategy, deduplicate } from "@/lib/duplicates"
+import { QualityRule, validateDataset } from "@/lib/quality-rules"
+import { PiiPolicies, PiiPolicy, resolvePolicies } from "@/lib/pii"
+import { compareToBaseline, createBaseline } from "@/lib/drift"
+import { buildProfileDocument, renderProfileHtml } from "@/lib/profile-report"
+import { downloadFile } from "@/lib/download"
+import { CalculatedColumn } from "@/lib/formula"
+import {
+  EMPTY_HISTORY,
+  PipelineHistory,
+  PipelineStep,
+  commitSteps,
+  createRecipe,
+  createStepId,
+  parseRecipe,
+  profileOutput,
+  redoSteps,
+  runPipeline,
+  undoSteps
+} from "@/lib/pipeline"
+import { EMPTY_GRID_QUERY, GridQuery, isFiltering } from "@/lib/grid-query"
+
+import { Brain, Upload, BarChart3, MessageCircle, TrendingUp, Sparkles, Zap, X, Database, FolderOpen, Eraser, GitCompare, FileDown, FileJson, Table2, Grid3x3 } from "lucide-react"
 import {
   ResponsiveContainer,
   LineChart,
@@ -26,230 +77,158 @@ import {
   Tooltip
 } from 'recharts'
 import { useToast } from "@/hooks/use-toast"
+import { ImportCancelledError, useImportWorker } from "@/hooks/use-import-worker"
+import { useQualityRules } from "@/hooks/use-quality-rules"
+import { usePinnedBaseline } from "@/hooks/use-pinned-baseline"
+import { useSavedRecipes } from "@/hooks/use-saved-recipes"
+import { useDatasetAnalysis } from "@/hooks/use-dataset-analysis"
+import { useDebouncedValue } from "@/hooks/use-debounced-value"
 
 
-interface ColumnInfo {
-  name: string
-  type: 'numerical' | 'categorical' | 'temporal' | 'text'
-  nullCount: number
-  uniqueCount: number
-  quality: number
-  stats?: {
-    mean?: number
-    median?: number
-    std?: number
-    min?: number
-    max?: number
-  }
-}
-
-interface ChartConfig {
-  id: string
-  type: 'line' | 'bar' | 'scatter' | 'pie' | 'area'
-  title: string
-  description: string
-  data: any[]
-  xKey: string
-  yKey?: string
-  colorKey?: string
-  insights?: string[]
-}
+// Pause in grid filtering or search before the charts follow it
+const CHART_FILTER_DELAY_MS = 300
 
 const Index = () => {
   const COLORS = ['#2563eb', '#10b981', '#f59e0b', '#8b5cf6', '#ef4444', '#06b6d4', '#84cc16', '#f97316']
-  const [uploadedData, setUploadedData] = useState<any[] | null>(null)
-  const [uploadedFileName, setUploadedFileName] = useState<string | null>(null)
-  const [columns, setColumns] = useState<ColumnInfo[]>([])
+  const [workspace, setWorkspace] = useState<WorkspaceDataset[]>([])
+  const [activeId, setActiveId] = useState<string | null>(null)
+  const active = workspace.find(entry => entry.id === activeId) ?? null
+  const dataset = active?.dataset ?? null
+  const columns = useMemo(() => active?.columns ?? [], [active])
+  // Row-object view for components that have not moved to the columnar dataset
+  const uploadedData = useMemo(() => dataset?.rows() ?? null, [dataset])
+  // The active dataset is also reachable as DEFAULT_TABLE so quick queries need no table name
+  const sqlEngine = useMemo(() => {
+    if (!active) return null
+    const tables: Record<string, Dataset> = {}
+    for (const entry of workspace) tables[entry.tableName] = entry.dataset
+    tables[DEFAULT_TABLE] = active.dataset
+    return createSqlEngine(tables)
+  }, [workspace, active])
   const [charts, setCharts] = useState<ChartConfig[]>([])
   const [isProcessing, setIsProcessing] = useState(false)
-  const [isGeneratingCharts, setIsGeneratingCharts] = useState(false)
   const [activeTab, setActiveTab] = useState("upload")
+  const [nullTokens, setNullTokens] = useState(DEFAULT_NULL_TOKENS)
+  const [outlierMethod, setOutlierMethod] = useState<OutlierMethod>('iqr')
+  const [excludeOutliers, setExcludeOutliers] = useState(false)
+  // Filters, search and sort of the Data tab; they only reach the charts when the user opts in
+  const [gridQuery, setGridQuery] = useState<GridQuery>(EMPTY_GRID_QUERY)
+  const [applyGridToCharts, setApplyGridToCharts] = useState(false)
+  const { rulesFor, setRulesFor } = useQualityRules()
+  // Rules and recipes are saved for the uploaded schema, so transformations do not change which ones apply
+  const schemaColumns = useMemo(() => (active?.pipeline?.source ?? active?.dataset)?.columnNames ?? [], [active])
+  const { recipeFor, saveRecipe } = useSavedRecipes()
+  const history = active?.pipeline?.history ?? EMPTY_HISTORY
+  // Calculated columns are the pipeline's derive steps
+  const formulas = useMemo(
+    () => history.steps.flatMap(step => step.enabled && step.kind === 'derive' ? [{ name: step.name, expression: step.expression }] : []),
+    [history]
+  )
+  const rules = useMemo(() => dataset ? rulesFor(schemaColumns) : [], [dataset, schemaColumns, rulesFor])
+  // Reference rules look other workspace datasets up by table name
+  const ruleTables = useMemo(() => {
+    const tables: Record<string, Dataset> = {}
+    for (const entry of workspace) tables[entry.tableName] = entry.dataset
+    return tables
+  }, [workspace])
+  // Charts leave out flagged rows when the user excluded them and highlight them otherwise.
+  // Grid filters only narrow their rows when the user opts in; sorting alone leaves them as they are,
+  // and typing in the grid search redraws them once it pauses rather than on every keystroke.
+  const chartFilter = useDebouncedValue(useMemo(
+    () => applyGridToCharts ? { filters: gridQuery.filters, search: gridQuery.search, sort: null } : null,
+    [applyGridToCharts, gridQuery.filters, gridQuery.search]
+  ), CHART_FILTER_DELAY_MS)
+  // Correlations, duplicates, outliers, rule checks and the automatic charts run in a worker
+  // and arrive when they are done
+  const { correlations, duplicateRows, outliers, validation, charts: autoCharts } =
+    useDatasetAnalysis(dataset, columns, outlierMethod, rules, ruleTables, excludeOutliers, chartFilter)
+  const isGeneratingCharts = dataset !== null && autoCharts === undefined
+  // New automatic charts replace the dashboard, including charts added from queries or the chat
+  useEffect(() => {
+    if (autoCharts) setCharts(autoCharts)
+  }, [autoCharts])
+  // Policies the user picked, by column name; flagged columns without one use the default for their kind
+  const [piiChoices, setPiiChoices] = useState<PiiPolicies>({})
+  const privacy = useMemo(() => resolvePolicies(columns, piiChoices), [columns, piiChoices])
+  const { baseline, pin: pinBaseline } = usePinnedBaseline()
+  const comparison = useMemo(
+    () => baseline && dataset ? compareToBaseline(baseline, dataset, columns) : null,
+    [baseline, dataset, columns]
+  )
+  const [pendingFile, setPendingFile] = useState<File | null>(null)
+  const [uploadKey, setUploadKey] = useState(0)
+  const pendingFormat = !pendingFile ? null
+    : isWorkbookFile(pendingFile) ? 'workbook'
+    : isJsonFile(pendingFile) ? 'json'
+    : 'csv'
   const { toast } = useToast()
+  const { run: runImportJob, cancel: cancelImportJob, progress: importProgress } = useImportWorker()
 
-  const analyzeColumn = (data: any[], columnName: string): ColumnInfo => {
-    const values = data.map(row => row[columnName])
-    const nonNullValues = values.filter(v => v !== null && v !== undefined && v !== '')
-    const uniqueValues = [...new Set(nonNullValues)]
-    
-    let type: ColumnInfo['type'] = 'text'
-    let stats = {}
-
-    // Determine column type
-    if (nonNullValues.every(v => typeof v === 'number' || !isNaN(Number(v)))) {
-      type = 'numerical'
-      const numValues = nonNullValues.map(v => Number(v))
-      stats = {
-        mean: numValues.reduce((a, b) => a + b, 0) / numValues.length,
-        median: numValues.sort((a, b) => a - b)[Math.floor(numValues.length / 2)],
-        std: Math.sqrt(numValues.reduce((a, b) => a + Math.pow(b - (numValues.reduce((c, d) => c + d, 0) / numValues.length), 2), 0) / numValues.length),
-        min: Math.min(...numValues),
-        max: Math.max(...numValues)
-      }
-    } else if (nonNullValues.some(v => {
-      const str = String(v).toLowerCase()
-      return str.includes('date') || str.includes('time') || !isNaN(Date.parse(str))
-    })) {
-      type = 'temporal'
-    } else if (uniqueValues.length <= Math.max(10, data.length * 0.1)) {
-      type = 'categorical'
-    }
-
-    const quality = Math.round(((data.length - (data.length - nonNullValues.length)) / data.length) * 100)
-
-    return {
-      name: columnName,
-      type,
-      nullCount: data.length - nonNullValues.length,
-      uniqueCount: uniqueValues.length,
-      quality,
-      stats
-    }
+  const cancelImport = () => {
+    setPendingFile(null)
+    // remount the drop zone so it forgets the cancelled file
+    setUploadKey(key => key + 1)
   }
 
-  const generateAutoCharts = useCallback((data: any[], cols: ColumnInfo[]): ChartConfig[] => {
-    const charts: ChartConfig[] = []
-    const numericalCols = cols.filter(c => c.type === 'numerical')
-    const categoricalCols = cols.filter(c => c.type === 'categorical')
-    const temporalCols = cols.filter(c => c.type === 'temporal')
-
-    // Generate sample data for charts
-    const sampleData = data.slice(0, 50) // Limit for performance
-
-    // 1. Time series if temporal column exists
-    if (temporalCols.length > 0 && numericalCols.length > 0) {
-      charts.push({
-        id: 'timeseries-1',
-        type: 'line',
-        title: 'Time Series Analysis',
-        description: `${numericalCols[0].name} over ${temporalCols[0].name}`,
-        data: sampleData,
-        xKey: temporalCols[0].name,
-        yKey: numericalCols[0].name,
-        insights: [
-          'Clear upward trend visible in the data',
-          'Seasonal patterns detected every 12 periods',
-          'Growth rate averaging 8.5% per period'
-        ]
-      })
-    }
-
-    // 2. Bar chart for categorical vs numerical
-    if (categoricalCols.length > 0 && numericalCols.length > 0) {
-      const aggregatedData = categoricalCols[0] ? 
-        Object.entries(
-          sampleData.reduce((acc, row) => {
-            const cat = row[categoricalCols[0].name]
-            const num = Number(row[numericalCols[0].name]) || 0
-            acc[cat] = (acc[cat] || 0) + num
-            return acc
-          }, {} as Record<string, number>)
-        ).map(([key, value]) => ({ [categoricalCols[0].name]: key, [numericalCols[0].name]: value })) : []
-
-      charts.push({
-        id: 'bar-1',
-        type: 'bar',
-        title: 'Category Performance',
-        description: `${numericalCols[0].name} by ${categoricalCols[0].name}`,
-        data: aggregatedData,
-        xKey: categoricalCols[0].name,
-        yKey: numericalCols[0].name,
-        insights: [
-          'Category A shows 45% higher performance than average',
-          'Top 3 categories account for 78% of total value',
-          'Significant performance gap between categories'
-        ]
-      })
-    }
-
-    // 3. Scatter plot for numerical correlation
-    if (numericalCols.length >= 2) {
-      charts.push({
-        id: 'scatter-1',
-        type: 'scatter',
-        title: 'Correlation Analysis',
-        description: `${numericalCols[0].name} vs ${numericalCols[1].name}`,
-        data: sampleData,
-        xKey: numericalCols[0].name,
-        yKey: numericalCols[1].name,
-        insights: [
-          'Strong positive correlation (r=0.78) detected',
-          'Linear relationship with minimal outliers',
-          'Predictive potential for forecasting models'
-        ]
-      })
-    }
-
-    // 4. Distribution chart
-    if (numericalCols.length > 0) {
-      const distributionData = numericalCols[0] ? 
-        sampleData.map((row, index) => ({
-          index: index + 1,
-          value: Number(row[numericalCols[0].name]) || 0
-        })) : []
-
-      charts.push({
-        id: 'area-1',
-        type: 'area',
-        title: 'Distribution Pattern',
-        description: `${numericalCols[0].name} distribution across dataset`,
-        data: distributionData,
-        xKey: 'index',
-        yKey: 'value',
-        insights: [
-          'Normal distribution with slight right skew',
-          'Peak concentration around median value',
-          'No significant anomalies detected'
-        ]
-      })
-    }
-
-    return charts
-  }, [])
-
-  const handleFileUpload = async (file: File) => {
-    // remember the filename so user can remove it
-    setUploadedFileName(file.name)
-
+  const runImport = async (request: ImportRequest) => {
+    setPendingFile(null)
     setIsProcessing(true)
     
     try {
-      const text = await file.text()
-      const lines = text.split('\n').filter(line => line.trim())
-      const headers = lines[0].split(',').map(h => h.trim().replace(/"/g, ''))
-      
-      const data = lines.slice(1).map(line => {
-        const values = line.split(',').map(v => v.trim().replace(/"/g, ''))
-        const row: any = {}
-        headers.forEach((header, index) => {
-          const value = values[index] || ''
-          // Try to parse as number
-          const numValue = Number(value)
-          row[header] = !isNaN(numValue) && value !== '' ? numValue : value
+      // Parsing and profiling happen in a worker so large files don't freeze the tab
+      const { dataset: snapshot, columns: analyzedColumns, issues } = await runImportJob(request)
+      const imported = new Dataset(snapshot)
+
+      if (issues.length > 0) {
+        console.warn('Lines that could not be parsed cleanly:', issues)
+        toast({
+          title: `${issues.length} malformed line${issues.length === 1 ? '' : 's'} found`,
+          description: issues.slice(0, 3).map(e => `Line ${e.line}: ${e.message}`).join('\n'),
+          variant: "destructive"
         })
-        return row
-      })
+      }
+
+      const entry = createWorkspaceDataset(workspace, request.file.name, imported, analyzedColumns)
+      setWorkspace(prev => [...prev, entry])
+      setActiveId(entry.id)
+      setGridQuery(EMPTY_GRID_QUERY)
+
+      // Files with a known schema are checked against the rules saved for it
+      const savedRules = rulesFor(imported.columnNames)
+      if (savedRules.length > 0) {
+        const report = validateDataset(imported, savedRules, { ...ruleTables, [entry.tableName]: imported })
+        const broken = report.results.filter(result => result.failed > 0 || result.error)
+        if (broken.length > 0) {
+          toast({
+            title: `${broken.length} of ${savedRules.length} quality rule${savedRules.length === 1 ? '' : 's'} failed`,
+            description: `Quality score ${report.score}% — see the validation report in the profile`,
+            variant: "destructive"
+          })
+        }
+      }
+
+      const savedSteps = recipeFor(imported.columnNames)
+      if (savedSteps.length > 0) {
+        toast({
+          title: "Saved recipe available",
+          description: `${savedSteps.length} transformation step${savedSteps.length === 1 ? '' : 's'} match this file — apply them from the Data tab`,
+        })
+      }
 
-      setUploadedData(data)
-      
-      // Analyze columns
-      const analyzedColumns = headers.map(header => analyzeColumn(data, header))
-      setColumns(analyzedColumns)
-
-      // Generate charts
-      setIsGeneratingCharts(true)
-      setTimeout(() => {
-        const generatedCharts = generateAutoCharts(data, analyzedColumns)
-        setCharts(generatedCharts)
-        setIsGeneratingCharts(false)
-        setActiveTab("profile")
-      }, 2000)
+      // Charts are generated in the analysis worker once the dataset is active
+      setActiveTab("profile")
 
       toast({
         title: "Data uploaded successfully!",
-        description: `Processed ${data.length} rows with ${headers.length} columns`,
+        description: `Processed ${imported.rowCount} rows with ${imported.columns.length} columns`,
       })
 
     } catch (error) {
+      if (error instanceof ImportCancelledError) {
+        setUploadKey(key => key + 1)
+        toast({ title: "Import cancelled" })
+        return
+      }
       console.error('Error processing file:', error)
       toast({
         title: "Upload failed",
@@ -261,30 +240,250 @@ const Index = () => {
     }
   }
 
-  const removeUploadedFile = () => {
+  const handleFileUpload = (file: File, options: CsvImportOptions) => runImport({ format: 'csv', file, options, nullTokens })
+
+  const handleWorkbookUpload = (file: File, options: WorkbookImportOptions) => runImport({ format: 'workbook', file, options, nullTokens })
+
+  const handleJsonUpload = (file: File, arrays: ArrayMode) => runImport({ format: 'json', file, arrays, nullTokens })
+
+  const openDataset = (entry: WorkspaceDataset) => {
+    setActiveId(entry.id)
+    setGridQuery(EMPTY_GRID_QUERY)
+  }
+
+  const removeDataset = (id: string) => {
+    const remaining = workspace.filter(entry => entry.id !== id)
+    setWorkspace(remaining)
+    if (id !== activeId) return
+    if (remaining.length > 0) {
+      openDataset(remaining[remaining.length - 1])
+      return
+    }
     // Soft reset app state back to import-ready
-    setUploadedData(null)
-    setColumns([])
+    setActiveId(null)
     setCharts([])
-    setUploadedFileName(null)
     setActiveTab("upload")
     // bring user to top (upload area)
     if (typeof window !== 'undefined') window.scrollTo({ top: 0, behavior: 'smooth' })
   }
 
-  const handleRegenerateCharts = () => {
-    if (!uploadedData || !columns) return
-    
-    setIsGeneratingCharts(true)
-    setTimeout(() => {
-      const newCharts = generateAutoCharts(uploadedData, columns)
-      setCharts(newCharts)
-      setIsGeneratingCharts(false)
+  const removeUploadedFile = () => {
+    if (activeId) removeDataset(activeId)
+  }
+
+  // Re-profiles one column of the active dataset with a user-chosen type; the charts follow
+  const handleColumnTypeChange = (name: string, override: ColumnOverride | null) => {
+    const column = active?.dataset.column(name)
+    if (!active || !column) return
+    const updatedColumns = active.columns.map(info => info.name === name
+      ? { ...analyzeColumn(column, active.dataset.rowCount, override ?? undefined), sourcePath: info.sourcePath, formula: info.formula }
+      : info)
+    setWorkspace(prev => prev.map(entry => entry.id === active.id ? { ...entry, columns: updatedColumns } : entry))
+  }
+
+  // Saves the tokens for later imports and re-reads the open dataset with them
+  const handleNullTokensChange = (tokens: string[]) => {
+    setNullTokens(tokens)
+    if (!active) return
+    // Tokens are read on the uploaded data, then the transformation steps run again
+    const { dataset: updated, changed, replaced } = applyNullTokens(active.pipeline?.source ?? active.dataset, tokens)
+    if (replaced === 0) {
+      toast({ title: "Null tokens saved", description: "No cells in the open dataset matched them" })
+      return
+    }
+    if (active.pipeline) {
+      applyPipeline(active, active.pipeline.history, updated)
+    } else {
+      const updatedColumns = active.columns.map(info => {
+        const column = updated.column(info.name)
+        return column && changed.includes(info.name)
+          ? { ...analyzeColumn(column, updated.rowCount), sourcePath: info.sourcePath, formula: info.formula }
+          : info
+      })
+      setWorkspace(prev => prev.map(entry => entry.id === active.id ? { ...entry, dataset: updated, columns: updatedColumns } : entry))
+    }
+    toast({
+      title: "Null tokens applied",
+      description: `${replaced.toLocaleString()} cells in ${changed.length} column${changed.length === 1 ? '' : 's'} are now missing`,
+    })
+  }
+
+  // Adds a cleaned-up version of `source` to the workspace, keeping the user's type
+  // overrides, and makes it the dataset the dashboard and chat work on
+  const openDerivedDataset = (source: WorkspaceDataset, derived: Dataset, label: string) => {
+    const derivedColumns = derived.columns.map(column => {
+      const info = source.columns.find(candidate => candidate.name === column.name)
+      const override = info?.overridden ? { type: info.type, semanticType: info.semanticType } : undefined
+      return { ...analyzeColumn(column, derived.rowCount, override), sourcePath: info?.sourcePath }
+    })
+    const name = `${source.name.replace(/\.[^.]+$/, '')} (${label})`
+    const entry = createWorkspaceDataset(workspace, name, derived, derivedColumns, [source.name])
+    setWorkspace(prev => [...prev, entry])
+    openDataset(entry)
+    return entry
+  }
+
+  const handleImpute = (plan: ImputationPlan, timeColumn?: string) => {
+    if (!active) return
+    try {
+      const { dataset: cleaned, filled, droppedRows } = imputeDataset(active.dataset, plan, timeColumn)
+      const entry = openDerivedDataset(active, cleaned, 'cleaned')
+      toast({
+        title: "Cleaned dataset created",
+        description: `Filled ${filled.toLocaleString()} cells and dropped ${droppedRows.toLocaleString()} rows in "${entry.name}"`,
+      })
+    } catch (error) {
+      toast({
+        title: "Imputation failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive"
+      })
+    }
+  }
+
+  const handleDeduplicate = (clusters: DuplicateCluster[], strategy: MergeStrategy) => {
+    if (!active) return
+    const { dataset: deduplicated, removedRows } = deduplicate(active.dataset, clusters, strategy)
+    const entry = openDerivedDataset(active, deduplicated, 'deduplicated')
+    toast({
+      title: "Deduplicated dataset created",
+      description: `Removed ${removedRows.toLocaleString()} rows in "${entry.name}"`,
+    })
+  }
+
+  // Runs the steps on the entry's uploaded data, makes the output the entry's dataset
+  // and saves the steps as the recipe for that data's schema
+  const applyPipeline = (entry: WorkspaceDataset, next: PipelineHistory, source = entry.pipeline?.source ?? entry.dataset) => {
+    const { dataset: output, results } = runPipeline(source, next.steps)
+    const updatedColumns = profileOutput(output, entry.dataset, entry.columns, next.steps)
+    setWorkspace(prev => prev.map(candidate => candidate.id === entry.id
+      ? { ...candidate, dataset: output, columns: updatedColumns, pipeline: { source, history: next, results } }
+      : candidate))
+    saveRecipe(source.columnNames, next.steps)
+    return results
+  }
+
+  const handleStepsChange = (steps: PipelineStep[]) => {
+    if (active) applyPipeline(active, commitSteps(history, steps))
+  }
+
+  const handleUndo = () => {
+    if (active) applyPipeline(active, undoSteps(history))
+  }
+
+  const handleRedo = () => {
+    if (active) applyPipeline(active, redoSteps(history))
+  }
+
+  const replaceSteps = (steps: PipelineStep[], origin: string) => {
+    if (!active) return
+    const results = applyPipeline(active, commitSteps(history, steps))
+    const failed = results.filter(result => result.status === 'error').length
+    toast({
+      title: `${origin} applied`,
+      description: failed > 0
+        ? `${failed} of ${steps.length} steps could not run on this data and were skipped`
+        : `${steps.length} step${steps.length === 1 ? '' : 's'} applied`,
+      variant: failed > 0 ? "destructive" : "default"
+    })
+  }
+
+  const handleApplySavedRecipe = () => {
+    replaceSteps(recipeFor(schemaColumns).map(step => ({ ...step, id: createStepId() })), "Saved recipe")
+  }
+
+  const handleExportRecipe = () => {
+    if (!active) return
+    const recipe = createRecipe(schemaColumns, history.steps)
+    downloadFile(`${active.tableName}-recipe.json`, JSON.stringify(recipe, null, 2), 'application/json')
+  }
+
+  const handleImportRecipe = async (file: File) => {
+    try {
+      replaceSteps(parseRecipe(await file.text()).steps, "Recipe")
+    } catch (error) {
       toast({
-        title: "Charts regenerated!",
-        description: "New visualizations have been created based on your data",
+        title: "Recipe could not be read",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive"
       })
-    }, 1500)
+    }
+  }
+
+  // Adds a calculated column as a derive step, or updates the step that computes it
+  const handleSaveFormula = (formula: CalculatedColumn) => {
+    const exists = history.steps.some(step => step.kind === 'derive' && step.name === formula.name)
+    handleStepsChange(exists
+      ? history.steps.map(step => step.kind === 'derive' && step.name === formula.name ? { ...step, expression: formula.expression } : step)
+      : [...history.steps, { id: createStepId(), enabled: true, kind: 'derive', ...formula }])
+  }
+
+  const handleRemoveFormula = (name: string) => {
+    handleStepsChange(history.steps.filter(step => !(step.kind === 'derive' && step.name === name)))
+  }
+
+  const handlePiiPolicyChange = (column: string, policy: PiiPolicy) => {
+    setPiiChoices(prev => ({ ...prev, [column]: policy }))
+  }
+
+  const handleExportProfile = (format: 'html' | 'json') => {
+    if (!active) return
+    const profile = buildProfileDocument({
+      name: active.name,
+      rowCount: active.dataset.rowCount,
+      columns,
+      correlations,
+      validation,
+      duplicateRows,
+      outliers,
+      privacy
+    })
+    if (format === 'json') {
+      downloadFile(`${active.tableName}-profile.json`, JSON.stringify(profile, null, 2), 'application/json')
+    } else {
+      downloadFile(`${active.tableName}-profile.html`, renderProfileHtml(profile), 'text/html')
+    }
+  }
+
+  const handlePinBaseline = () => {
+    if (!active) return
+    pinBaseline(createBaseline(active.name, active.dataset, active.columns))
+    toast({ title: "Baseline pinned", description: `Later uploads can be compared with ${active.name}` })
+  }
+
+  const handleRulesChange = (next: QualityRule[]) => {
+    if (dataset) setRulesFor(schemaColumns, next)
+  }
+
+  const handleJoin = (left: WorkspaceDataset, right: WorkspaceDataset, spec: JoinSpec, name: string) => {
+    try {
+      const { dataset: joined, stats } = joinDatasets(left.dataset, right.dataset, spec, right.tableName)
+      const joinedColumns = joined.columns.map(column => analyzeColumn(column, joined.rowCount))
+      const entry = createWorkspaceDataset(workspace, name, joined, joinedColumns, [left.name, right.name])
+      setWorkspace(prev => [...prev, entry])
+      openDataset(entry)
+      setActiveTab("profile")
+      toast({
+        title: "Joined dataset created",
+        description: `${stats.outputRows.toLocaleString()} rows in "${entry.name}"`,
+      })
+    } catch (error) {
+      toast({
+        title: "Join failed",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive"
+      })
+    }
+  }
+
+  // Goes back to the automatic charts, dropping charts added from queries or the chat
+  const handleRegenerateCharts = () => {
+    if (!autoCharts) return
+    setCharts(autoCharts)
+    toast({
+      title: "Charts regenerated!",
+      description: "New visualizations have been created based on your data",
+    })
   }
 
   const handleExportDashboard = () => {
@@ -300,6 +499,35 @@ const Index = () => {
     setActiveTab("dashboard")
   }
 
+  const handleQueryChart = (chart: ChartConfig) => {
+    setCharts(prev => [...prev, chart])
+    setActiveTab("dashboard")
+    toast({
+      title: "Chart added",
+      description: "The query result was added to your dashboard",
+    })
+  }
+
+  const handlePivotChart = (chart: ChartConfig) => {
+    setCharts(prev => [...prev, chart])
+    setActiveTab("dashboard")
+    toast({
+      title: "Chart added",
+      description: "The pivot table was added to your dashboard",
+    })
+  }
+
+  const handleCorrelationSelect = (correlation: Correlation) => {
+    const chart = dataset ? correlationChart(dataset, columns, correlation, outliers ?? undefined) : null
+    if (!chart) return
+    setCharts(prev => [...prev, chart])
+    setActiveTab("dashboard")
+    toast({
+      title: "Chart added",
+      description: `${correlation.x} vs ${correlation.y} was added to your dashboard`,
+    })
+  }
+
   // Temporary charts from chat (preview only)
   const [chatTempCharts, setChatTempCharts] = useState<ChartConfig[] | null>(null)
   const [chatTempTitle, setChatTempTitle] = useState<string | null>(null)
@@ -317,14 +545,14 @@ const Index = () => {
       <div 
         className="relative bg-gradient-to-b from-blue-600/70 to-blue-500/30 py-10 px-3 min-h-[10vh] flex items-center"
       >
-        {uploadedData && uploadedFileName && (
+        {active && (
           <div className="absolute top-4 right-4 z-20">
             <button
               onClick={removeUploadedFile}
               className="inline-flex items-center gap-2 rounded-md bg-white/10 hover:bg-white/20 text-white px-3 py-1 text-sm"
             >
               <X className="h-4 w-4" />
-              Remove CSV
+              Remove {active.name}
             </button>
           </div>
         )}
@@ -360,13 +588,11 @@ const Index = () => {
       {/* Main Content */}
       <div className="container mx-auto px-4 py-8">
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-          <TabsList className="grid w-full grid-cols-5 max-w-2xl mx-auto">
-            {!uploadedData && (
-              <TabsTrigger value="upload" className="flex items-center gap-2">
-                <Upload className="h-4 w-4" />
-                Upload
-              </TabsTrigger>
-            )}
+          <TabsList className="grid w-full grid-cols-9 max-w-6xl mx-auto">
+            <TabsTrigger value="upload" className="flex items-center gap-2">
+              <Upload className="h-4 w-4" />
+              Upload
+            </TabsTrigger>
             <TabsTrigger value="profile" disabled={!uploadedData}>
               <Brain className="h-4 w-4" />
               Profile
@@ -375,10 +601,33 @@ const Index = () => {
               <BarChart3 className="h-4 w-4" />
               Dashboard
             </TabsTrigger>
+            <TabsTrigger value="data" disabled={!uploadedData}>
+              <Table2 className="h-4 w-4" />
+              Data
+            </TabsTrigger>
+            <TabsTrigger value="pivot" disabled={!uploadedData}>
+              <Grid3x3 className="h-4 w-4" />
+              Pivot
+            </TabsTrigger>
+            <TabsTrigger value="quality" disabled={!uploadedData}>
+              <Eraser className="h-4 w-4" />
+              Quality
+            </TabsTrigger>
+            <TabsTrigger value="compare" disabled={!uploadedData}>
+              <GitCompare className="h-4 w-4" />
+              Compare
+            </TabsTrigger>
+            <TabsTrigger value="sql" disabled={!uploadedData}>
+              <Database className="h-4 w-4" />
+              SQL
+            </TabsTrigger>
+            <TabsTrigger value="workspace" disabled={workspace.length === 0}>
+              <FolderOpen className="h-4 w-4" />
+              Workspace
+            </TabsTrigger>
           </TabsList>
 
-          {!uploadedData && (
-            <TabsContent value="upload" className="space-y-6">
+          <TabsContent value="upload" className="space-y-6">
               <Card className="max-w-2xl mx-auto">
               <CardHeader className="text-center">
                 <CardTitle className="flex items-center justify-center gap-2 text-2xl">
@@ -386,26 +635,57 @@ const Index = () => {
                   Magic Upload
                 </CardTitle>
                 <p className="text-muted-foreground">
-                  Drop your CSV file and watch the magic happen. Instant profiling, analysis, and insights.
+                  {workspace.length === 0
+                    ? 'Drop your CSV, Excel or JSON file and watch the magic happen. Instant profiling, analysis, and insights.'
+                    : 'Add another file to your workspace to profile it or join it with your other datasets.'}
                 </p>
               </CardHeader>
               <CardContent>
                 <FileUpload 
-                  onFileSelect={handleFileUpload}
+                  key={uploadKey}
+                  onFileSelect={setPendingFile}
+                  accept=".csv,.tsv,.txt,.xlsx,.xlsm,.xls,.json,.ndjson,.jsonl"
                   disabled={isProcessing}
                 />
+                <ImportPreviewDialog
+                  file={pendingFormat === 'csv' ? pendingFile : null}
+                  onCancel={cancelImport}
+                  onConfirm={handleFileUpload}
+                />
+                <WorkbookImportDialog
+                  file={pendingFormat === 'workbook' ? pendingFile : null}
+                  onCancel={cancelImport}
+                  onConfirm={handleWorkbookUpload}
+                />
+                <JsonImportDialog
+                  file={pendingFormat === 'json' ? pendingFile : null}
+                  onCancel={cancelImport}
+                  onConfirm={handleJsonUpload}
+                />
                 {isProcessing && (
-                  <div className="mt-6 text-center">
-                    <div className="inline-flex items-center gap-2 text-primary">
-                      <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-primary"></div>
-                      <span>Processing your data...</span>
+                  <div className="mt-6 space-y-2">
+                    <div className="flex items-center justify-between text-sm text-primary">
+                      <span>
+                        {importProgress?.phase === 'profiling'
+                          ? `Profiling ${importProgress.rows.toLocaleString()} rows...`
+                          : `Reading data... ${(importProgress?.rows ?? 0).toLocaleString()} rows`}
+                      </span>
+                      <Button variant="ghost" size="sm" onClick={cancelImportJob}>
+                        Cancel
+                      </Button>
                     </div>
+                    <Progress
+                      value={importProgress && importProgress.totalBytes > 0
+                        ? (importProgress.bytesRead / importProgress.totalBytes) * 100
+                        : 0}
+                    />
                   </div>
                 )}
               </CardContent>
             </Card>
 
             {/* Features Preview */}
+            {!uploadedData && (
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 max-w-4xl mx-auto">
               <Card className="text-center p-4">
                 <Brain className="h-8 w-8 text-primary mx-auto mb-2" />
@@ -428,8 +708,8 @@ const Index = () => {
                 <p className="text-sm text-muted-foreground">Ask questions about your data in natural language</p>
               </Card>
             </div>
-            </TabsContent>
-          )}
+            )}
+          </TabsContent>
 
           <TabsContent value="profile">
             {uploadedData && columns.length > 0 ? (
@@ -504,10 +784,39 @@ const Index = () => {
                   </Card>
                 )}
 
+                <div className="flex justify-end gap-2 mb-4">
+                  <Button variant="outline" size="sm" onClick={() => handleExportProfile('html')}>
+                    <FileDown className="h-4 w-4 mr-2" />
+                    HTML report
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => handleExportProfile('json')}>
+                    <FileJson className="h-4 w-4 mr-2" />
+                    JSON profile
+                  </Button>
+                </div>
+
                 <DataProfile 
                   data={uploadedData} 
                   columns={columns}
+                  correlations={correlations}
+                  duplicateRows={duplicateRows}
+                  validation={validation}
+                  onColumnTypeChange={handleColumnTypeChange}
+                  onCorrelationSelect={handleCorrelationSelect}
                 />
+
+                {outliers && dataset && (
+                  <OutlierPanel
+                    dataset={dataset}
+                    columns={columns}
+                    report={outliers}
+                    onMethodChange={setOutlierMethod}
+                    excluded={excludeOutliers}
+                    onExcludedChange={setExcludeOutliers}
+                  />
+                )}
+
+                <PrivacyPanel columns={columns} policies={privacy} onPolicyChange={handlePiiPolicyChange} />
               </>
             ) : (
               <Card>
@@ -519,16 +828,140 @@ const Index = () => {
             )}
           </TabsContent>
 
-          <TabsContent value="dashboard">
+          <TabsContent value="dashboard" className="space-y-4">
+            {applyGridToCharts && isFiltering(gridQuery) && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Table2 className="h-4 w-4" />
+                Charts show only the rows that match the Data tab filters.
+                <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setApplyGridToCharts(false)}>
+                  Show all rows
+                </Button>
+              </div>
+            )}
             <AutoDashboard 
               charts={charts}
               isGenerating={isGeneratingCharts}
               onRegenerateCharts={handleRegenerateCharts}
               onExportDashboard={handleExportDashboard}
+              privacy={privacy}
             />
           </TabsContent>
 
+          <TabsContent value="data" className="space-y-6">
+            {active && (
+              <PipelinePanel
+                key={`pipeline-${active.id}`}
+                dataset={active.dataset}
+                sourceRows={(active.pipeline?.source ?? active.dataset).rowCount}
+                steps={history.steps}
+                results={active.pipeline?.results ?? []}
+                canUndo={history.past.length > 0}
+                canRedo={history.future.length > 0}
+                onUndo={handleUndo}
+                onRedo={handleRedo}
+                onChange={handleStepsChange}
+                savedSteps={recipeFor(schemaColumns)}
+                onApplySaved={handleApplySavedRecipe}
+                onExport={handleExportRecipe}
+                onImport={handleImportRecipe}
+              />
+            )}
+            {active && (
+              <CalculatedColumnsPanel
+                key={`formulas-${active.id}`}
+                dataset={active.dataset}
+                formulas={formulas}
+                onSave={handleSaveFormula}
+                onRemove={handleRemoveFormula}
+              />
+            )}
+            {active && (
+              <DataGrid
+                key={active.id}
+                dataset={active.dataset}
+                columns={columns}
+                query={gridQuery}
+                onQueryChange={setGridQuery}
+                applyToCharts={applyGridToCharts}
+                onApplyToChartsChange={setApplyGridToCharts}
+              />
+            )}
+          </TabsContent>
+
+          <TabsContent value="pivot">
+            {active && (
+              <PivotBuilder
+                key={`pivot-${active.id}`}
+                dataset={active.dataset}
+                columns={columns}
+                onVisualize={handlePivotChart}
+              />
+            )}
+          </TabsContent>
+
+          <TabsContent value="quality">
+            {active && (
+              <div className="space-y-6">
+                <MissingValuesPanel
+                  key={active.id}
+                  dataset={active.dataset}
+                  columns={columns}
+                  nullTokens={nullTokens}
+                  onNullTokensChange={handleNullTokensChange}
+                  onImpute={handleImpute}
+                />
+                <DuplicatesPanel
+                  key={`duplicates-${active.id}`}
+                  dataset={active.dataset}
+                  onDeduplicate={handleDeduplicate}
+                />
+                <QualityRulesEditor
+                  key={`rules-${active.id}`}
+                  columnNames={active.dataset.columnNames}
+                  references={workspace
+                    .filter(entry => entry.id !== active.id)
+                    .map(entry => ({ tableName: entry.tableName, name: entry.name, columnNames: entry.dataset.columnNames }))}
+                  rules={rules}
+                  onChange={handleRulesChange}
+                />
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="compare">
+            {active && (
+              <ProfileComparison
+                baseline={baseline}
+                comparison={comparison}
+                activeName={active.name}
+                onPin={handlePinBaseline}
+                onUnpin={() => pinBaseline(null)}
+              />
+            )}
+          </TabsContent>
 
+          <TabsContent value="sql">
+            {sqlEngine && dataset && (
+              <SqlQueryPanel
+                engine={sqlEngine}
+                columnNames={dataset.columnNames}
+                onChartResult={handleQueryChart}
+              />
+            )}
+          </TabsContent>
+
+          <TabsContent value="workspace">
+            <WorkspacePanel
+              datasets={workspace}
+              activeId={activeId}
+              onSelect={id => {
+                const entry = workspace.find(candidate => candidate.id === id)
+                if (entry) openDataset(entry)
+              }}
+              onRemove={removeDataset}
+              onJoin={handleJoin}
+            />
+          </TabsContent>
 
           {/* Chat is now a floating widget rendered globally below */}
         </Tabs>
@@ -541,6 +974,9 @@ const Index = () => {
           charts={charts}
           setCharts={setCharts}
           onChartsUpdate={handleChatChartsUpdate}
+          privacy={privacy}
+          dataset={dataset ?? undefined}
+          columns={columns}
         />
 
       {/* Footer */}
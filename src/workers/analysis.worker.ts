@@ -0,0 +1,25 @@
+import { AnalysisRequest, AnalysisSession, AnalysisWorkerMessage, createSession, runAnalysis } from "@/lib/analysis-job"
+
+// Runs the profile's whole-dataset analyses and the automatic charts off the
+// main thread. Messages are handled in order, so an analysis always sees the
+// dataset posted before it.
+
+const ctx = self as unknown as Worker
+
+const post = (message: AnalysisWorkerMessage) => ctx.postMessage(message)
+
+let current: AnalysisSession | null = null
+
+ctx.onmessage = (event: MessageEvent<AnalysisRequest>) => {
+  const request = event.data
+  if (request.type === 'dataset') {
+    current = createSession(request.dataset, request.columns)
+    return
+  }
+  try {
+    if (!current) throw new Error('No dataset to analyze')
+    post({ type: 'done', id: request.id, result: runAnalysis(current, request) })
+  } catch (error) {
+    post({ type: 'error', id: request.id, message: error instanceof Error ? error.message : String(error) })
+  }
+}
@@ -0,0 +1,31 @@
+import { Dataset } from "@/lib/dataset"
+import { ImportProgress, ImportRequest, ImportWorkerMessage, runImportJob } from "@/lib/import/import-job"
+
+// Runs parsing and profiling off the main thread. Cancellation is handled by
+// the page terminating the worker, so there is no abort message.
+
+const ctx = self as unknown as Worker
+
+const PROGRESS_INTERVAL_MS = 100
+
+const post = (message: ImportWorkerMessage, transfer: Transferable[] = []) => ctx.postMessage(message, transfer)
+
+ctx.onmessage = async (event: MessageEvent<ImportRequest>) => {
+  let lastProgressAt = 0
+  let lastPhase: ImportProgress['phase'] | null = null
+  const reportProgress = (progress: ImportProgress) => {
+    const now = Date.now()
+    if (progress.phase === lastPhase && now - lastProgressAt < PROGRESS_INTERVAL_MS) return
+    lastProgressAt = now
+    lastPhase = progress.phase
+    post({ type: 'progress', progress })
+  }
+
+  try {
+    const result = await runImportJob(event.data, reportProgress)
+    // Hand the column buffers over instead of copying them
+    post({ type: 'done', result }, new Dataset(result.dataset).transferables())
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) })
+  }
+}